@@ -3,28 +3,233 @@ import { TransactionManager } from '../transaction/TransactionManager';
 import { CommitTable } from '../transaction/CommitTable';
 import { MVCCEngine } from '../mvcc/MVCCEngine';
 import { SimpleStorage } from '../storage/SimpleStorage';
+import { StorageEngine } from '../storage/StorageEngine';
+import { compareKeys } from '../storage/keys';
+import { LSMStorage, LSMOptions } from '../storage/lsm/LSMStorage';
 import { ConflictDetector } from '../mvcc/ConflictDetector';
-import { Transaction } from '../transaction/Transaction';
+import { SSIManager } from '../mvcc/SSIManager';
+import { Transaction, IsolationLevel, TerminationReason, TransactionState } from '../transaction/Transaction';
+import { LockManager, LockMode, LockInfo } from '../transaction/LockManager';
 import { VersionedRow } from '../mvcc/VersionedRow';
+import { versionsFor, keysOnlyWritten, withOwnWrites } from '../mvcc/ownWrites';
 import { logger, dbLogger } from '../utils/logger';
 import { dbMetrics } from '../monitoring/metrics'
+import { WriteAheadLog } from '../wal/WriteAheadLog';
+import { WALRecordInput, WALRecordType } from '../wal/WALRecord';
+import { RecoveryManager } from '../wal/RecoveryManager';
+import { CheckpointManager, CheckpointInfo } from '../wal/CheckpointManager';
+import { GroupCommitter } from '../wal/GroupCommitter';
+import { IndexManager, IndexRangeOptions } from '../index/IndexManager';
+import { TableCatalog, TableDefinition, tablePrefix } from '../sql/Catalog';
+import { StatementDispatcher, QueryResult } from '../sql/StatementDispatcher';
+import { parse } from '../sql/Parser';
+import { Planner, JoinMethod, AggregateMethod } from '../execution/Planner';
+import { ExecutionEngine } from '../execution/Operator';
+import {
+  UniqueViolationError,
+  SerializationFailureError,
+  LockNotAvailableError,
+  DeadlockError,
+  LockTimeoutError,
+  TransactionTerminatedError,
+  InvalidTransactionStateError,
+  ReadOnlyTransactionError,
+} from './errors';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const DEFAULT_REAPER_INTERVAL_MS = 1000;
+const DEFAULT_WORK_MEM = 4 * 1024 * 1024;
+
+/** Constraint name reported when two live rows would share a key */
+export const PRIMARY_KEY_CONSTRAINT = 'primary_key';
+
+export interface DatabaseOptions {
+  /** Directory for durable state. Without it the database is memory-only. */
+  dataDir?: string;
+  walSegmentSizeBytes?: number;
+  /** Take a checkpoint after this many WAL bytes (0 = manual only) */
+  checkpointIntervalBytes?: number;
+  /** How long commitAsync() waits for other committers to share an fsync */
+  groupCommitWindowMs?: number;
+  /** Flush a group early once this many WAL bytes are buffered */
+  groupCommitMaxBytes?: number;
+  /** 'memory' (default) keeps rows in a sorted in-memory map; 'lsm' needs a dataDir */
+  storageEngine?: 'memory' | 'lsm';
+  lsm?: LSMOptions;
+  /** Abort a transaction whose row lock wait exceeds this (0 = wait forever) */
+  lockTimeoutMs?: number;
+  /** How often waiting row locks are checked for deadlocks */
+  deadlockCheckIntervalMs?: number;
+  /** Abort a transaction whose statement (e.g. a lock wait) runs longer than this (0 = no limit) */
+  statementTimeoutMs?: number;
+  /** Abort a transaction left open with no statement running for longer than this (0 = no limit) */
+  idleInTransactionTimeoutMs?: number;
+  /** How often the reaper looks for transactions past their timeouts */
+  reaperIntervalMs?: number;
+  /** Bytes a query operator may hold in memory before spilling to temp files (default 4 MB) */
+  workMem?: number;
+  /** Join algorithms the query planner may use (default all) */
+  joinMethods?: JoinMethod[];
+  /** Aggregation algorithms the query planner may use (default all) */
+  aggregateMethods?: AggregateMethod[];
+}
+
+export interface BeginOptions {
+  /** READ_COMMITTED, SNAPSHOT (default) or SERIALIZABLE */
+  isolationLevel?: IsolationLevel;
+  /** Override DatabaseOptions.statementTimeoutMs for this transaction */
+  statementTimeoutMs?: number;
+  /** Override DatabaseOptions.idleInTransactionTimeoutMs for this transaction */
+  idleTimeoutMs?: number;
+  /** Reject writes and row locks; commit skips the write checks */
+  readOnly?: boolean;
+  /** Token from exportSnapshot(): see exactly what the exporter saw */
+  snapshot?: string;
+}
+
+export interface ScanOptions {
+  /** Inclusive lower bound */
+  start?: string;
+  /** Exclusive upper bound */
+  end?: string;
+  /** Only keys starting with this prefix */
+  prefix?: string;
+  /** Walk keys in descending order */
+  reverse?: boolean;
+  /** Maximum rows per page */
+  limit?: number;
+  /** Cursor from the previous page; the scan resumes after it */
+  cursor?: string;
+}
+
+export interface ScanResult {
+  rows: any[];
+  /** Pass back as options.cursor to fetch the next page; null once the range is exhausted */
+  cursor: string | null;
+}
+
+export interface RowLockOptions {
+  /** Fail with LockNotAvailableError instead of waiting for a conflicting holder */
+  nowait?: boolean;
+  /** Leave out rows locked by other transactions instead of waiting */
+  skipLocked?: boolean;
+}
 
 export class DatabaseService {
   private txnManager = new TransactionManager();
-  private commitTable = new CommitTable();
-  private mvcc = new MVCCEngine(this.commitTable);
-  private storage = new SimpleStorage();
-  private conflictDetector = new ConflictDetector(
-    this.storage,
-    this.commitTable
-  );
+  private commitTable: CommitTable;
+  private mvcc: MVCCEngine;
+  private storage: StorageEngine;
+  private conflictDetector: ConflictDetector;
+  private ssi = new SSIManager();
+  private locks: LockManager;
+  private indexes: IndexManager;
+  private tables: TableCatalog;
+  private engine: ExecutionEngine;
+  private sql: StatementDispatcher;
+
+  private wal: WriteAheadLog | null = null;
+  private checkpointer: CheckpointManager | null = null;
+  private checkpointIntervalBytes = 0;
+  private groupCommitter: GroupCommitter | null = null;
+  private inFlightWrites = new Map<string, Transaction>(); // key -> txn awaiting group fsync
+
+  private statementTimeoutMs: number;
+  private idleTimeoutMs: number;
+  private reaperIntervalMs: number;
+  private reaper: NodeJS.Timeout | null = null;
+  private deferredBegins: Array<() => boolean> = [];  // true once settled
 
   // Store the logger instance
   private log = dbLogger;
 
+  constructor(options: DatabaseOptions = {}) {
+    this.storage = DatabaseService.createStorage(options);
+    this.commitTable = new CommitTable({
+      dir: options.dataDir ? path.join(options.dataDir, 'xact') : undefined,
+    });
+    this.mvcc = new MVCCEngine(this.commitTable);
+    this.conflictDetector = new ConflictDetector(this.storage, this.commitTable);
+    this.locks = new LockManager({
+      lockTimeoutMs: options.lockTimeoutMs,
+      deadlockCheckIntervalMs: options.deadlockCheckIntervalMs,
+    });
+    this.statementTimeoutMs = options.statementTimeoutMs ?? 0;
+    this.idleTimeoutMs = options.idleInTransactionTimeoutMs ?? 0;
+    this.reaperIntervalMs = options.reaperIntervalMs ?? DEFAULT_REAPER_INTERVAL_MS;
+
+    if (options.dataDir) {
+      this.wal = new WriteAheadLog(path.join(options.dataDir, 'wal'), {
+        segmentSizeBytes: options.walSegmentSizeBytes,
+      });
+      this.checkpointer = new CheckpointManager(
+        path.join(options.dataDir, 'checkpoints'),
+        this.wal,
+        this.storage,
+        this.commitTable,
+        this.txnManager
+      );
+      this.checkpointIntervalBytes = options.checkpointIntervalBytes ?? 0;
+      this.groupCommitter = new GroupCommitter(this.wal, {
+        windowMs: options.groupCommitWindowMs,
+        maxBatchBytes: options.groupCommitMaxBytes,
+      }, () => this.maybeCheckpoint());
+
+      // Start from the last good checkpoint, then replay the WAL after it
+      const checkpointLsn = this.checkpointer.restoreLatest();
+      this.wal.resumeAfter(checkpointLsn);
+      new RecoveryManager(
+        this.wal,
+        this.storage,
+        this.commitTable,
+        this.txnManager
+      ).recover(checkpointLsn + 1);
+    }
+
+    // Indexes are rebuilt from recovered storage, never replayed
+    this.indexes = new IndexManager(this.storage, this.mvcc, options.dataDir);
+    this.tables = new TableCatalog(options.dataDir);
+    this.engine = {
+      storage: this.storage,
+      mvcc: this.mvcc,
+      indexes: this.indexes,
+      workMem: options.workMem ?? DEFAULT_WORK_MEM,
+      tempDir: DatabaseService.tempDir(options),
+    };
+    this.sql = new StatementDispatcher(this, this.tables, new Planner(this.engine, options.joinMethods, options.aggregateMethods));
+  }
+
+  /** Where queries spill; files left by a crash are removed when the database opens */
+  private static tempDir(options: DatabaseOptions): string {
+    if (!options.dataDir) return os.tmpdir();
+    const dir = path.join(options.dataDir, 'tmp');
+    fs.rmSync(dir, { recursive: true, force: true });
+    return dir;
+  }
+
+  private static createStorage(options: DatabaseOptions): StorageEngine {
+    if (options.storageEngine === 'lsm') {
+      if (!options.dataDir) {
+        throw new Error('The LSM storage engine requires a dataDir');
+      }
+      return new LSMStorage(path.join(options.dataDir, 'lsm'), options.lsm);
+    }
+    return new SimpleStorage();
+  }
+
   /** Begin a new transaction */
-  begin(): Transaction {
-    const txn = this.txnManager.begin();
+  begin(options: BeginOptions = {}): Transaction {
+    const txn = options.snapshot === undefined
+      ? this.txnManager.begin(options.isolationLevel, options.readOnly)
+      : this.txnManager.beginWithSnapshot(options.snapshot, options.isolationLevel, options.readOnly);
+    this.ssi.register(txn);
+    txn.statementTimeoutMs = options.statementTimeoutMs ?? this.statementTimeoutMs;
+    txn.idleTimeoutMs = options.idleTimeoutMs ?? this.idleTimeoutMs;
+    if (txn.statementTimeoutMs > 0 || txn.idleTimeoutMs > 0) {
+      this.startReaper();
+    }
     
     // METRICS: Track transaction
     dbMetrics.transactionsTotal.inc();
@@ -35,15 +240,136 @@ export class DatabaseService {
       txId: txn.id,
       snapshotMin: txn.snapshot.xmin,
       snapshotMax: txn.snapshot.xmax,
+      isolationLevel: txn.isolationLevel,
+      readOnly: txn.readOnly,
+      importedSnapshot: options.snapshot,
       action: 'begin'
     }, `Transaction ${txn.id} started`);
     
     return txn;
   }
 
+  /**
+   * Begin a SERIALIZABLE READ ONLY DEFERRABLE transaction, which SSI can
+   * never abort. As in PostgreSQL it takes a snapshot, waits for the
+   * read-write SERIALIZABLE transactions running at that point to finish,
+   * and keeps the snapshot if none of them committed with an rw edge out of
+   * it (SSIManager.isSafeSnapshot); otherwise it starts over. A transaction
+   * with a safe snapshot is dropped from SSI tracking.
+   *
+   * The wait counts as a statement for statementTimeoutMs.
+   */
+  beginDeferrable(options: Omit<BeginOptions, 'isolationLevel' | 'readOnly' | 'snapshot'> = {}): Promise<Transaction> {
+    return new Promise((resolve, reject) => this.waitForSafeSnapshot(options, resolve, reject));
+  }
+
+  private waitForSafeSnapshot(
+    options: BeginOptions,
+    resolve: (txn: Transaction) => void,
+    reject: (error: Error) => void
+  ): void {
+    const txn = this.begin({ ...options, isolationLevel: IsolationLevel.SERIALIZABLE, readOnly: true });
+    const concurrent = this.txnManager.getActiveTransactions().filter(other =>
+      other !== txn && other.isolationLevel === IsolationLevel.SERIALIZABLE && !other.readOnly
+    );
+    txn.statementStartedAt = Date.now();
+
+    const settle = (): boolean => {
+      if (txn.terminationReason) {
+        reject(new TransactionTerminatedError(txn.id, txn.terminationReason));
+        return true;
+      }
+      if (concurrent.some(other => other.state === TransactionState.ACTIVE || other.state === TransactionState.COMMITTING)) {
+        return false;
+      }
+
+      if (!this.ssi.isSafeSnapshot(concurrent)) {
+        this.log.info({ txId: txn.id, action: 'unsafe_snapshot' }, `Snapshot not safe, retrying deferrable begin`);
+        this.rollback(txn, 'unsafe_snapshot');
+        this.waitForSafeSnapshot(options, resolve, reject);
+        return true;
+      }
+
+      this.ssi.release(txn);
+      this.log.info({
+        txId: txn.id,
+        waitedMs: Date.now() - txn.statementStartedAt!,
+        action: 'safe_snapshot'
+      }, `Deferrable transaction has a safe snapshot`);
+      txn.statementStartedAt = null;
+      txn.lastActivityAt = Date.now();
+      resolve(txn);
+      return true;
+    };
+
+    if (!settle()) {
+      this.deferredBegins.push(settle);
+    }
+  }
+
+  /** Re-check deferrable begins after a transaction finishes */
+  private wakeDeferredBegins(): void {
+    if (this.deferredBegins.length === 0) return;
+    const waiting = this.deferredBegins;
+    this.deferredBegins = [];
+    this.deferredBegins.push(...waiting.filter(settle => !settle()));
+  }
+
+  /**
+   * Share the transaction's snapshot with other transactions, e.g. workers
+   * reading one consistent view in parallel: each passes the returned token
+   * to begin({ snapshot }). Rows the snapshot sees are kept from garbage
+   * collection until the exporter and every importer have finished. Under
+   * READ COMMITTED this is a statement and exports a fresh snapshot.
+   */
+  exportSnapshot(txn: Transaction): string {
+    this.checkAlive(txn, 'export a snapshot from');
+    this.startStatement(txn);
+    const token = this.txnManager.exportSnapshot(txn);
+
+    this.log.info({
+      txId: txn.id,
+      token,
+      snapshotMin: txn.snapshot.xmin,
+      snapshotMax: txn.snapshot.xmax,
+      action: 'export_snapshot'
+    }, `Snapshot exported`);
+
+    return token;
+  }
+
+  /**
+   * Run one SQL statement with $1, $2, ... bound to params. BEGIN needs
+   * txn to be null and returns the new transaction in the result; COMMIT
+   * and ROLLBACK end txn. Other statements run in txn, or in a transaction
+   * of their own when txn is null. Syntax errors are SqlSyntaxError, with
+   * the line and column of the offending token.
+   */
+  query(txn: Transaction | null, sql: string, params: any[] = []): QueryResult {
+    const statement = parse(sql);
+    if (txn && ['insert', 'update', 'delete', 'select'].includes(statement.type)) {
+      // Query plans read storage directly, so the statement starts here
+      this.checkAlive(txn, 'run a query in');
+      if (statement.type !== 'select') {
+        this.checkWritable(txn, statement.type.toUpperCase());
+      }
+      this.startStatement(txn);
+    }
+    return this.sql.execute(txn, statement, params);
+  }
+
   /** Insert a new row */
   insert(txn: Transaction, key: string, data: any): void {
     const startTime = Date.now(); // <-- ADD THIS
+    this.checkAlive(txn, 'insert into');
+    this.checkWritable(txn, 'INSERT');
+    this.checkRowLock(txn, key);
+
+    // Committed duplicates are caught at commit; our own is caught now,
+    // since a second insert would replace the first in the write set
+    if (txn.getWrites().get(key)?.some(row => row.xmin === txn.id)) {
+      throw new UniqueViolationError(PRIMARY_KEY_CONSTRAINT, key);
+    }
     
     const row: VersionedRow = {
       key,
@@ -52,6 +378,12 @@ export class DatabaseService {
       xmax: null,
     };
     txn.addWrite(key, row);
+
+    // Re-inserting a row this transaction deleted: the row is written
+    // whatever became of the version it deleted
+    if (txn.getRechecks(key).length > 0) {
+      txn.addRecheck(key, () => data);
+    }
     
     // METRICS: Track insert time
     const duration = (Date.now() - startTime) / 1000;
@@ -67,11 +399,20 @@ export class DatabaseService {
     }, `Insert operation`);
   }
 
-  /** Update an existing row */
-  update(txn: Transaction, key: string, data: any): void {
+  /**
+   * Update an existing row. Under READ COMMITTED, if another transaction
+   * commits a newer version of the row first, recheck is called with that
+   * version's data at commit and returns the fields to set, or null when
+   * the row no longer qualifies; by default the same fields are set.
+   */
+  update(txn: Transaction, key: string, data: any, recheck: (data: any) => any | null = () => data): void {
     const startTime = Date.now(); // <-- ADD THIS
+    this.checkAlive(txn, 'update in');
+    this.checkWritable(txn, 'UPDATE');
+    this.startStatement(txn);
+    this.checkRowLock(txn, key);
   
-    const versions = this.storage.getAllVersions(key);
+    const versions = versionsFor(txn, key, this.storage.getAllVersions(key));
   
     if (versions.length === 0) {
       this.log.warn({ txId: txn.id, key }, 'Update failed - key not found');
@@ -102,9 +443,19 @@ export class DatabaseService {
       xmax: null,
     };
   
-    // Add BOTH to transaction writes
+    // Add BOTH to transaction writes. Updating our own pending row replaces
+    // it: both writes share its (key, xmin), so only newRow remains
     txn.addWrite(key, oldVersionTombstone);
     txn.addWrite(key, newRow);
+
+    // Writes to a committed row may be redone by READ COMMITTED; a row
+    // this transaction inserted has no newer version to redo them on
+    if (visible.xmin !== txn.id || txn.getRechecks(key).length > 0) {
+      txn.addRecheck(key, latest => {
+        const changes = latest === null ? null : recheck(latest);
+        return changes === null ? undefined : { ...latest, ...changes };
+      });
+    }
     
     // METRICS: Track update time
     const duration = (Date.now() - startTime) / 1000;
@@ -121,11 +472,20 @@ export class DatabaseService {
     }, `Update operation`);
   }
 
-  /** Delete a row */
-  delete(txn: Transaction, key: string): void {
+  /**
+   * Delete a row. Under READ COMMITTED, if another transaction commits a
+   * newer version of the row first, recheck is called with that version's
+   * data at commit (null if the row is gone) and decides whether it is
+   * deleted; by default it is, if still there.
+   */
+  delete(txn: Transaction, key: string, recheck: (data: any | null) => boolean = latest => latest !== null): void {
     const startTime = Date.now(); // <-- ADD THIS
+    this.checkAlive(txn, 'delete in');
+    this.checkWritable(txn, 'DELETE');
+    this.startStatement(txn);
+    this.checkRowLock(txn, key);
   
-    const versions = this.storage.getAllVersions(key);
+    const versions = versionsFor(txn, key, this.storage.getAllVersions(key));
   
     if (versions.length === 0) {
       this.log.warn({ txId: txn.id, key }, 'Delete failed - key not found');
@@ -150,7 +510,15 @@ export class DatabaseService {
       xmax: txn.id,        // Mark as deleted by this transaction
     };
   
-    txn.addWrite(key, tombstone);
+    if (visible.xmin === txn.id) {
+      // A row we inserted or rewrote never reaches storage
+      txn.removeWrite(key, txn.id);
+    } else {
+      txn.addWrite(key, tombstone);
+    }
+    if (visible.xmin !== txn.id || txn.getRechecks(key).length > 0) {
+      txn.addRecheck(key, latest => recheck(latest) ? null : undefined);
+    }
     
     // METRICS: Track delete time
     const duration = (Date.now() - startTime) / 1000;
@@ -168,7 +536,9 @@ export class DatabaseService {
 
   /** Select visible rows for a transaction */
   select(txn: Transaction, keys?: string[]): any[] {
-    const keysToScan = keys || this.storage.getAllKeys();
+    this.checkAlive(txn, 'read in');
+    this.startStatement(txn);
+    const keysToScan = keys || this.keysWithOwnWrites(txn);
     const results: any[] = [];
 
     // CHANGED: Debug logging with context
@@ -183,7 +553,7 @@ export class DatabaseService {
     
     for (const key of keysToScan) {
       txn.addRead(key);
-      const versions = this.storage.getAllVersions(key);
+      const versions = versionsFor(txn, key, this.storage.getAllVersions(key));
 
       // CHANGED: Debug version info (only at trace level)
       if (this.log.level === 'trace' && versions.length > 0) {
@@ -233,35 +603,414 @@ export class DatabaseService {
     return results;
   }
 
+  /**
+   * SELECT ... FOR UPDATE: lock the rows exclusively, in the order given, then
+   * read them. Other transactions cannot lock, update or delete a locked row
+   * until this transaction commits or aborts. Waiting is the default;
+   * nowait fails instead and skipLocked leaves locked rows out.
+   *
+   * A key with no visible row stays locked too, which keeps other
+   * transactions from inserting it. A wait that ends in DeadlockError or
+   * LockTimeoutError aborts the transaction. Under SNAPSHOT and SERIALIZABLE a row
+   * changed by a transaction this one cannot see fails with
+   * SerializationFailureError; READ COMMITTED reads the latest version.
+   */
+  selectForUpdate(txn: Transaction, keys: string[], options: RowLockOptions = {}): Promise<any[]> {
+    return this.selectLocked(txn, keys, LockMode.EXCLUSIVE, options, 'SELECT FOR UPDATE');
+  }
+
+  /** SELECT ... FOR SHARE: like selectForUpdate, but other readers may share the locks */
+  selectForShare(txn: Transaction, keys: string[], options: RowLockOptions = {}): Promise<any[]> {
+    return this.selectLocked(txn, keys, LockMode.SHARE, options, 'SELECT FOR SHARE');
+  }
+
+  /**
+   * Visible rows in key order, restricted to [start, end) and/or a prefix.
+   * When a limit cuts the page short a cursor is returned; every page read
+   * with the same transaction sees the same snapshot, except under READ
+   * COMMITTED where each page is a statement with its own.
+   */
+  scan(txn: Transaction, options: ScanOptions = {}): ScanResult {
+    const startTime = Date.now();
+    this.checkAlive(txn, 'read in');
+    this.startStatement(txn);
+    const { reverse = false, limit = Infinity, cursor } = options;
+    if (limit <= 0) {
+      throw new Error(`Scan limit must be positive, got ${limit}`);
+    }
+
+    const direction = reverse ? -1 : 1;
+    const rows: any[] = [];
+    let scannedKeys = 0;
+    let nextCursor: string | null = null;
+
+    const ownKeys = keysOnlyWritten(txn, this.storage).filter(key => rangePosition(key, options) === 0);
+    const entries = withOwnWrites(txn, this.storage.entries(scanOrigin(options), reverse), ownKeys, reverse);
+
+    for (const [key, versions] of entries) {
+      if (cursor !== undefined && direction * compareKeys(key, cursor) <= 0) continue;
+
+      const position = direction * rangePosition(key, options);
+      if (position < 0) continue;
+      if (position > 0) break;
+
+      const visible = versions.find(row => this.mvcc.isVisible(row, txn.snapshot));
+      if (visible && rows.length === limit) {
+        // Another row exists past this page
+        nextCursor = rows[rows.length - 1].key;
+        break;
+      }
+
+      scannedKeys++;
+      txn.addRead(key);
+      if (visible) {
+        rows.push({ key: visible.key, ...visible.data });
+      }
+    }
+
+    const duration = Date.now() - startTime;
+    dbMetrics.queryTime.observe({ operation: 'SCAN' }, duration / 1000);
+
+    this.log.info({
+      txId: txn.id,
+      rowCount: rows.length,
+      scannedKeys,
+      reverse,
+      hasMore: nextCursor !== null,
+      duration,
+      action: 'scan_complete'
+    }, `Scan completed`);
+
+    return { rows, cursor: nextCursor };
+  }
+
+  /**
+   * Create a secondary index on a field of row data (dotted path for nested
+   * fields). Existing rows are indexed immediately; later writes are indexed
+   * as they commit. A unique index is enforced at commit. With a table the
+   * index covers only that SQL table's rows, and queries on it can use it.
+   */
+  createIndex(name: string, fieldPath: string, options: { unique?: boolean; table?: string } = {}): void {
+    const keyPrefix = options.table === undefined ? undefined : tablePrefix(this.tables.get(options.table).name);
+    const index = this.indexes.create(name, fieldPath, options.unique ?? false, keyPrefix);
+
+    this.log.info({
+      index: name,
+      fieldPath,
+      table: options.table,
+      unique: index.unique,
+      entries: index.tree.size,
+      action: 'create_index'
+    }, `Index created`);
+  }
+
+  /** Visible rows whose indexed field equals value */
+  indexLookup(txn: Transaction, indexName: string, value: any): any[] {
+    return this.indexRange(txn, indexName, { min: value, max: value });
+  }
+
+  /** Visible rows whose indexed field lies in [min, max], in index order */
+  indexRange(txn: Transaction, indexName: string, options: IndexRangeOptions = {}): any[] {
+    const startTime = Date.now();
+    this.checkAlive(txn, 'read in');
+    this.startStatement(txn);
+    const versions = this.indexes.findVisible(indexName, txn, options);
+
+    const results = versions.map(row => {
+      txn.addRead(row.key);
+      return { key: row.key, ...row.data };
+    });
+
+    const duration = Date.now() - startTime;
+    dbMetrics.queryTime.observe({ operation: 'INDEX_SCAN' }, duration / 1000);
+
+    this.log.info({
+      txId: txn.id,
+      index: indexName,
+      rowCount: results.length,
+      duration,
+      action: 'index_scan_complete'
+    }, `Index scan completed`);
+
+    return results;
+  }
+
+  /** SAVEPOINT: mark a point rollbackTo can return to */
+  savepoint(txn: Transaction, name: string): void {
+    this.checkAlive(txn, 'create a savepoint in');
+    txn.savepoint(name);
+    this.log.info({ txId: txn.id, savepoint: name, keyCount: txn.getWrites().size, action: 'savepoint' }, `Savepoint created`);
+  }
+
+  /**
+   * ROLLBACK TO SAVEPOINT: discard the writes made since the savepoint, so
+   * later reads and the eventual commit no longer see them. Row locks taken
+   * since the savepoint are kept until the transaction ends.
+   */
+  rollbackTo(txn: Transaction, name: string): void {
+    this.checkAlive(txn, 'roll back');
+    txn.rollbackTo(name);
+    this.log.info({ txId: txn.id, savepoint: name, keyCount: txn.getWrites().size, action: 'rollback_to_savepoint' }, `Rolled back to savepoint`);
+  }
+
+  /** RELEASE SAVEPOINT: keep the writes, forget the savepoint and any after it */
+  releaseSavepoint(txn: Transaction, name: string): void {
+    this.checkAlive(txn, 'release a savepoint in');
+    txn.releaseSavepoint(name);
+    this.log.info({ txId: txn.id, savepoint: name, action: 'release_savepoint' }, `Savepoint released`);
+  }
+
   /** Commit transaction with conflict detection */
   commit(txn: Transaction): void {
     const startTime = Date.now();
-    
+    this.checkAlive(txn, 'commit');
+
+    // Finish any in-flight group commit first so its writes are in storage
+    // before this transaction is checked for conflicts
+    this.groupCommitter?.flushNow();
+
+    this.prepareCommit(txn, startTime);
+
+    // Durability point: COMMIT must be fsynced before any write is applied.
+    // A failed flush leaves the transaction aborted, not stuck COMMITTING.
+    try {
+      if (this.appendCommitRecords(txn)) {
+        this.wal!.flush();
+      }
+    } catch (error) {
+      this.rollback(txn, 'wal_failure');
+      throw error;
+    }
+
+    this.applyCommit(txn, startTime);
+    this.maybeCheckpoint();
+  }
+
+  /**
+   * Commit with group commit: the transaction's WAL records share a single
+   * fsync with every other transaction committing in the same window. The
+   * promise resolves once that fsync has completed and the writes are
+   * visible. Memory-only databases commit immediately.
+   */
+  commitAsync(txn: Transaction): Promise<void> {
+    try {
+      this.checkAlive(txn, 'commit');
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    if (!this.groupCommitter) {
+      try {
+        this.commit(txn);
+        return Promise.resolve();
+      } catch (error) {
+        return Promise.reject(error);
+      }
+    }
+
+    const startTime = Date.now();
+
+    try {
+      this.prepareCommit(txn, startTime);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    if (!this.appendCommitRecords(txn)) {
+      // Read-only: nothing to make durable
+      this.applyCommit(txn, startTime);
+      return Promise.resolve();
+    }
+
+    const keys = Array.from(txn.getWrites().keys());
+    for (const key of keys) {
+      this.inFlightWrites.set(key, txn);
+    }
+    const release = () => {
+      for (const key of keys) {
+        if (this.inFlightWrites.get(key) === txn) this.inFlightWrites.delete(key);
+      }
+    };
+
+    return new Promise<void>((resolve, reject) => {
+      this.groupCommitter!.enqueue({
+        txnId: txn.id,
+        onDurable: () => {
+          release();
+          this.applyCommit(txn, startTime);
+          resolve();
+        },
+        onFailure: (error: Error) => {
+          release();
+          this.rollback(txn, 'wal_failure');
+          reject(error);
+        },
+      });
+    });
+  }
+
+  /** Conflict detection shared by commit() and commitAsync(); aborts on failure */
+  private prepareCommit(txn: Transaction, startTime: number): void {
+    this.txnManager.startCommit(txn);
+
     // CHANGED: Log commit start
     this.log.debug({
       txId: txn.id,
       action: 'commit_start'
     }, `Starting commit process`);
-    
-    const conflict = this.conflictDetector.detectConflict(txn);
-    if (conflict) {
+
+    // READ COMMITTED redoes its writes on the latest versions instead of
+    // failing on versions committed since its statements ran. A row still
+    // waiting on a group fsync is not in storage yet: that group is
+    // finished first so the re-check sees it.
+    if (txn.isolationLevel === IsolationLevel.READ_COMMITTED && !txn.readOnly) {
+      if (this.findInFlightKey(txn) !== undefined) {
+        this.groupCommitter?.flushNow();
+      }
+      try {
+        this.recheckLatestVersions(txn);
+      } catch (error) {
+        this.rollback(txn, 'recheck_failed');
+        throw error;
+      }
+    }
+
+    // Unique checks run first so a duplicate insert reports the constraint
+    // rather than a write-write conflict. SSI runs last: it records the
+    // transaction's rw edges once nothing else can fail. A read-only
+    // transaction wrote nothing, so only SSI has anything to check.
+    const failure: Error | null = txn.readOnly
+      ? this.findSerializationFailure(txn)
+      : this.findWriteFailure(txn) ?? this.findSerializationFailure(txn);
+    if (failure) {
       const duration = Date.now() - startTime;
       
-      // METRICS: Track aborted transaction
-      dbMetrics.transactionsAborted.inc();
-      dbMetrics.activeTransactions.dec();
-      
       this.log.warn({
         txId: txn.id,
-        conflict,
+        conflict: failure.message,
+        errorType: failure.name,
         duration,
         action: 'abort'
       }, `Transaction aborted due to conflict`);
       
-      this.abort(txn);
-      throw new Error(conflict);
+      this.rollback(txn, 'conflict');
+      throw failure;
+    }
+  }
+
+  /** Why the transaction's writes cannot commit, short of serialization failures */
+  private findWriteFailure(txn: Transaction): Error | null {
+    const writeConflict = txn.isolationLevel === IsolationLevel.READ_COMMITTED
+      ? null
+      : this.conflictDetector.detectConflict(txn) ?? this.detectInFlightConflict(txn);
+    return this.findUniqueViolation(txn) ??
+      this.findLockedWrite(txn) ??
+      (writeConflict ? new Error(writeConflict) : null);
+  }
+
+  /**
+   * First unique constraint the transaction's writes would violate. A new
+   * version of a key the transaction did not delete is an insert, and must
+   * not collide with a live committed row or a pending group commit.
+   */
+  private findUniqueViolation(txn: Transaction): UniqueViolationError | null {
+    for (const [key, rows] of txn.getWrites()) {
+      const inserts = rows.some(row => row.xmax === null) && !rows.some(row => row.xmax === txn.id);
+      if (!inserts) continue;
+
+      const live = this.storage.getAllVersions(key).some(row => row.xmax === null);
+      const owner = this.inFlightWrites.get(key);
+      const pending = owner !== undefined && owner !== txn &&
+        (owner.getWrites().get(key) ?? []).some(row => row.xmax === null);
+
+      if (live || pending) {
+        return new UniqueViolationError(PRIMARY_KEY_CONSTRAINT, key);
+      }
+    }
+
+    const pending = new Set(this.inFlightWrites.values());
+    pending.delete(txn);
+    return this.indexes.findUniqueViolation(txn, Array.from(pending));
+  }
+
+  private findSerializationFailure(txn: Transaction): SerializationFailureError | null {
+    const failure = this.ssi.validateCommit(txn, this.txnManager.getNextTxnId());
+    if (!failure) return null;
+
+    dbMetrics.serializationFailures.inc();
+    return new SerializationFailureError(failure);
+  }
+
+  /**
+   * EvalPlanQual-style re-check: when a row this transaction updated or
+   * deleted was changed by a transaction that committed after the statement,
+   * the transaction's writes to it are redone, in order, on the latest
+   * committed version: each statement's WHERE and SET are evaluated again
+   * on that version. Writes that no longer apply are dropped, and so is
+   * the whole write once none applies (the row was deleted, or no longer
+   * matches).
+   */
+  private recheckLatestVersions(txn: Transaction): void {
+    for (const [key, rows] of Array.from(txn.getWrites())) {
+      const target = rows.find(row => row.xmin !== txn.id && row.xmax === txn.id);
+      if (!target) continue;  // insert only
+
+      const versions = this.storage.getAllVersions(key);
+      if (versions.some(row => row.xmin === target.xmin && row.xmax === null)) continue;
+
+      const latest = versions.find(row => row.xmax === null) ?? null;
+      let data: any | null = latest ? latest.data : null;
+      let changed = false;
+      for (const recheck of txn.getRechecks(key)) {
+        const result = recheck(data);
+        if (result !== undefined) {
+          data = result;
+          changed = true;
+        }
+      }
+
+      const rechecked: VersionedRow[] = [];
+      if (changed) {
+        if (latest) rechecked.push({ ...latest, xmax: txn.id });
+        if (data !== null) rechecked.push({ key, data, xmin: txn.id, xmax: null });
+      }
+      txn.setWrites(key, rechecked);
+
+      this.log.info({
+        txId: txn.id,
+        key,
+        staleXmin: target.xmin,
+        latestXmin: latest?.xmin ?? null,
+        action: 'recheck_latest_version'
+      }, changed ? `Write redone on latest committed version` : `Row changed concurrently, write skipped`);
+    }
+  }
+
+  /** A row written by txn that another transaction locked after the write */
+  private findLockedWrite(txn: Transaction): LockNotAvailableError | null {
+    for (const key of txn.getWrites().keys()) {
+      const holder = this.locks.holdersOf(key, txn.id)[0];
+      if (holder !== undefined) return new LockNotAvailableError(key, holder);
     }
+    return null;
+  }
+
+  /** A key queued for group commit by another transaction is already taken */
+  private detectInFlightConflict(txn: Transaction): string | null {
+    const key = this.findInFlightKey(txn);
+    return key === undefined ? null : `Write-write conflict on key '${key}'`;
+  }
+
+  /** First key the transaction wrote that another transaction has queued for group commit */
+  private findInFlightKey(txn: Transaction): string | undefined {
+    return Array.from(txn.getWrites().keys()).find(key => {
+      const owner = this.inFlightWrites.get(key);
+      return owner !== undefined && owner !== txn;
+    });
+  }
 
+  /** Make a durable transaction's writes visible */
+  private applyCommit(txn: Transaction, startTime: number): void {
     // Apply all writes (now arrays per key)
     const writes = txn.getWrites();
     let totalWrites = 0;
@@ -298,10 +1047,14 @@ export class DatabaseService {
       for (const row of rows) {
         this.storage.insert(row);
       }
+      this.indexes.applyWrites(rows);
     }
 
     this.commitTable.markCommitted(txn.id);
     this.txnManager.commit(txn);
+    this.locks.releaseAll(txn.id);
+    this.ssi.prune(this.txnManager.getOldestActiveTxnId());
+    this.wakeDeferredBegins();
 
     const duration = Date.now() - startTime;
     
@@ -321,8 +1074,21 @@ export class DatabaseService {
     this.garbageCollect();
   }
 
-  /** Abort a transaction */
+  /**
+   * Abort a transaction. One already aborted by the database (a failed
+   * commit, deadlock or timeout) is left as it is; a committed or
+   * committing one cannot be aborted.
+   */
   abort(txn: Transaction): void {
+    if (txn.state === TransactionState.ABORTED) return;
+    if (txn.state !== TransactionState.ACTIVE) {
+      throw new InvalidTransactionStateError(txn.id, txn.state, 'abort');
+    }
+    this.rollback(txn, 'user_abort');
+  }
+
+  /** Discard an ACTIVE or COMMITTING transaction's work and release what it holds */
+  private rollback(txn: Transaction, reason: string): void {
     const writes = txn.getWrites();
     
     // METRICS: Track aborted transaction
@@ -331,13 +1097,332 @@ export class DatabaseService {
     
     this.log.warn({
       txId: txn.id,
-      reason: 'user_abort_or_conflict',
+      reason,
       writesDiscarded: writes.size,
       action: 'abort'
     }, `Transaction aborted`);
     
+    // Flushed so that, if a failed flush left the COMMIT on disk anyway,
+    // recovery sees the ABORT after it
+    if (this.wal && writes.size > 0) {
+      this.wal.append({ type: WALRecordType.ABORT, txnId: txn.id });
+      try {
+        this.wal.flush();
+      } catch (error) {
+        this.log.error({
+          txId: txn.id,
+          error: error instanceof Error ? error.message : String(error),
+          action: 'abort_flush_failed'
+        }, `Could not flush ABORT record`);
+      }
+    }
+
     this.commitTable.markAborted(txn.id);
     this.txnManager.abort(txn);
+    this.locks.releaseAll(txn.id);
+    this.ssi.release(txn);
+    this.ssi.prune(this.txnManager.getOldestActiveTxnId());
+    this.wakeDeferredBegins();
+  }
+
+  private selectLocked(
+    txn: Transaction,
+    keys: string[],
+    mode: LockMode,
+    options: RowLockOptions,
+    statement: string
+  ): Promise<any[]> {
+    if (options.nowait && options.skipLocked) {
+      return Promise.reject(new Error('nowait and skipLocked cannot be combined'));
+    }
+    try {
+      this.checkAlive(txn, 'lock rows in');
+      this.checkWritable(txn, statement);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+
+    const startTime = Date.now();
+    const locked: string[] = [];
+    txn.statementStartedAt = startTime;
+
+    // One key at a time, so a transaction waits on at most one lock
+    const lockFrom = (index: number): Promise<void> => {
+      for (; index < keys.length; index++) {
+        const key = keys[index];
+        if (this.locks.tryAcquire(txn.id, key, mode)) {
+          locked.push(key);
+        } else if (options.skipLocked) {
+          continue;
+        } else if (options.nowait) {
+          return Promise.reject(new LockNotAvailableError(key, this.locks.holdersOf(key, txn.id)[0]));
+        } else {
+          const next = index + 1;
+          return this.locks.acquire(txn.id, key, mode).then(() => {
+            locked.push(key);
+            return lockFrom(next);
+          });
+        }
+      }
+      return Promise.resolve();
+    };
+
+    const waited = lockFrom(0).catch((error: Error) => {
+      if (txn.terminationReason) {
+        // The reaper ended the transaction while it waited
+        throw new TransactionTerminatedError(txn.id, txn.terminationReason);
+      }
+      if (error instanceof DeadlockError) {
+        this.rollback(txn, 'deadlock');
+      } else if (error instanceof LockTimeoutError) {
+        this.rollback(txn, 'lock_timeout');
+      }
+      throw error;
+    }).finally(() => {
+      txn.statementStartedAt = null;
+      txn.lastActivityAt = Date.now();
+    });
+
+    return waited.then(() => {
+      const rows = this.readLockedRows(txn, locked);
+      const duration = Date.now() - startTime;
+      dbMetrics.queryTime.observe({ operation: `SELECT_FOR_${mode}` }, duration / 1000);
+
+      this.log.info({
+        txId: txn.id,
+        mode,
+        requested: keys.length,
+        locked: locked.length,
+        rowCount: rows.length,
+        duration,
+        action: 'select_locked'
+      }, `Rows locked`);
+      return rows;
+    });
+  }
+
+  private readLockedRows(txn: Transaction, keys: string[]): any[] {
+    this.startStatement(txn);
+    const rows: any[] = [];
+
+    for (const key of keys) {
+      txn.addRead(key);
+      const versions = versionsFor(txn, key, this.storage.getAllVersions(key));
+      const visible = versions.find(row => this.mvcc.isVisible(row, txn.snapshot));
+      if (!visible) continue;
+
+      // Storage only holds committed versions: a visible row with xmax set
+      // was replaced or deleted by a commit this snapshot cannot see
+      if (visible.xmax !== null && txn.isolationLevel !== IsolationLevel.READ_COMMITTED) {
+        throw new SerializationFailureError(`Could not serialize access due to concurrent update of '${key}'`);
+      }
+      rows.push({ key: visible.key, ...visible.data });
+    }
+    return rows;
+  }
+
+  /** Every key in storage plus the transaction's new keys, in key order */
+  private keysWithOwnWrites(txn: Transaction): string[] {
+    const keys = this.storage.getAllKeys();
+    const ownKeys = keysOnlyWritten(txn, this.storage);
+    return ownKeys.length === 0 ? keys : [...keys, ...ownKeys].sort(compareKeys);
+  }
+
+  /** Only an ACTIVE transaction takes statements; a terminated one reports why it ended */
+  private checkAlive(txn: Transaction, operation: string): void {
+    if (txn.terminationReason) {
+      throw new TransactionTerminatedError(txn.id, txn.terminationReason);
+    }
+    if (txn.state !== TransactionState.ACTIVE) {
+      throw new InvalidTransactionStateError(txn.id, txn.state, operation);
+    }
+    txn.lastActivityAt = Date.now();
+  }
+
+  private checkWritable(txn: Transaction, statement: string): void {
+    if (txn.readOnly) {
+      throw new ReadOnlyTransactionError(txn.id, statement);
+    }
+  }
+
+  /** Writes may not touch a row another transaction has locked */
+  private checkRowLock(txn: Transaction, key: string): void {
+    const holder = this.locks.holdersOf(key, txn.id)[0];
+    if (holder !== undefined) {
+      this.log.warn({ txId: txn.id, key, holder, action: 'row_locked' }, `Write blocked by row lock`);
+      throw new LockNotAvailableError(key, holder);
+    }
+  }
+
+  /** READ COMMITTED transactions see everything committed before each statement */
+  private startStatement(txn: Transaction): void {
+    if (txn.isolationLevel === IsolationLevel.READ_COMMITTED) {
+      this.txnManager.refreshSnapshot(txn);
+    }
+  }
+
+  /** Snapshot committed state to disk and truncate the WAL behind it */
+  checkpoint(): CheckpointInfo {
+    if (!this.checkpointer) {
+      throw new Error('Checkpoints require a dataDir');
+    }
+    // Queued commits must be applied before their LSNs are covered
+    this.groupCommitter?.flushNow();
+    return this.checkpointer.createCheckpoint();
+  }
+
+  /** Serializable transactions SSI still tracks, running or recently committed */
+  getSsiTrackedCount(): number {
+    return this.ssi.getTrackedCount();
+  }
+
+  /** Exported snapshots some transaction still holds */
+  getExportedSnapshotCount(): number {
+    return this.txnManager.getExportedSnapshotCount();
+  }
+
+  /**
+   * Abort transactions past their timeouts, so a forgotten one cannot hold
+   * back the GC horizon forever: one whose current statement (such as a
+   * lock wait) has run past statementTimeoutMs, or one idle between
+   * statements for longer than idleTimeoutMs. Transactions waiting on a
+   * group commit fsync are left alone. Returns the number terminated.
+   */
+  reapExpiredTransactions(): number {
+    const now = Date.now();
+    let terminated = 0;
+
+    for (const txn of this.txnManager.getActiveTransactions()) {
+      if (txn.state !== TransactionState.ACTIVE) continue;  // committing
+
+      let reason: TerminationReason | null = null;
+      if (txn.statementStartedAt !== null) {
+        if (txn.statementTimeoutMs > 0 && now - txn.statementStartedAt > txn.statementTimeoutMs) {
+          reason = TerminationReason.STATEMENT_TIMEOUT;
+        }
+      } else if (txn.idleTimeoutMs > 0 && now - txn.lastActivityAt > txn.idleTimeoutMs) {
+        reason = TerminationReason.IDLE_TIMEOUT;
+      }
+      if (!reason) continue;
+
+      this.log.warn({
+        txId: txn.id,
+        reason,
+        idleMs: now - txn.lastActivityAt,
+        action: 'terminate'
+      }, `Terminating transaction past its timeout`);
+
+      txn.terminationReason = reason;  // before rollback wakes anyone waiting on it
+      this.rollback(txn, reason);
+      dbMetrics.transactionsTerminated.inc({ reason });
+      terminated++;
+    }
+
+    if (terminated > 0) {
+      this.garbageCollect();
+    }
+    return terminated;
+  }
+
+  /**
+   * What query plans run against, for building operators by hand (see
+   * src/execution); workMem and tempDir can be replaced for that plan.
+   */
+  executionEngine(overrides: Partial<Pick<ExecutionEngine, 'workMem' | 'tempDir'>> = {}): ExecutionEngine {
+    return { ...this.engine, ...overrides };
+  }
+
+  /** A SQL table's definition; throws if the table does not exist */
+  getTable(name: string): TableDefinition {
+    return this.tables.get(name);
+  }
+
+  /** Row locks with their holders and waiters, for the /locks view */
+  getLocks(): LockInfo[] {
+    return this.locks.getLocks();
+  }
+
+  /** Flush the WAL and release its file handle */
+  close(): void {
+    if (this.reaper) {
+      clearInterval(this.reaper);
+      this.reaper = null;
+    }
+    this.locks.close();
+    this.groupCommitter?.flushNow();
+    this.wal?.close();
+    this.storage.close();
+  }
+
+  private startReaper(): void {
+    if (this.reaper || this.reaperIntervalMs <= 0) return;
+    this.reaper = setInterval(() => {
+      try {
+        this.reapExpiredTransactions();
+      } catch (error) {
+        this.log.error({ error, action: 'reaper_failed' }, `Transaction reaper failed`);
+      }
+    }, this.reaperIntervalMs);
+    this.reaper.unref();
+  }
+
+  private maybeCheckpoint(): void {
+    if (!this.checkpointer || this.checkpointIntervalBytes <= 0) return;
+    if (this.checkpointer.getWalBytesSinceCheckpoint() >= this.checkpointIntervalBytes) {
+      this.checkpointer.createCheckpoint();
+    }
+  }
+
+  /**
+   * Buffer BEGIN, every row operation and COMMIT for txn. Returns false when
+   * there is nothing to log (no WAL, or a read-only transaction).
+   */
+  private appendCommitRecords(txn: Transaction): boolean {
+    const writes = txn.getWrites();
+    if (!this.wal || writes.size === 0) return false;
+
+    this.wal.append({ type: WALRecordType.BEGIN, txnId: txn.id });
+    for (const [key, rows] of writes) {
+      for (const record of this.toWalRecords(txn.id, key, rows)) {
+        this.wal.append(record);
+      }
+    }
+    const commitLsn = this.wal.append({ type: WALRecordType.COMMIT, txnId: txn.id });
+
+    this.log.debug({
+      txId: txn.id,
+      commitLsn,
+      action: 'wal_commit'
+    }, `Commit record appended`);
+
+    return true;
+  }
+
+  /**
+   * Translate buffered row versions into logical WAL records. A tombstone
+   * immediately followed by a new version from the same transaction is an
+   * UPDATE; a lone tombstone is a DELETE; a lone new version is an INSERT.
+   */
+  private toWalRecords(txnId: number, key: string, rows: VersionedRow[]): WALRecordInput[] {
+    const records: WALRecordInput[] = [];
+
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+
+      if (row.xmax === txnId) {
+        const next = rows[i + 1];
+        if (next && next.xmin === txnId && next.xmax === null) {
+          records.push({ type: WALRecordType.UPDATE, txnId, key, data: next.data, prevXmin: row.xmin });
+          i++;
+        } else {
+          records.push({ type: WALRecordType.DELETE, txnId, key, prevXmin: row.xmin });
+        }
+      } else {
+        records.push({ type: WALRecordType.INSERT, txnId, key, data: row.data });
+      }
+    }
+
+    return records;
   }
 
   /** Garbage collect old row versions */
@@ -351,6 +1436,7 @@ export class DatabaseService {
     }, `Starting garbage collection`);
     
     const collected = this.storage.garbageCollect(oldestXmin, this.mvcc);
+    this.commitTable.truncate(oldestXmin);
     
     const duration = Date.now() - startTime;
     
@@ -372,4 +1458,26 @@ export class DatabaseService {
     const memory = process.memoryUsage();
     dbMetrics.memoryUsage.set(memory.heapUsed);
   }
-}
\ No newline at end of file
+}
+
+/** Where a scan starts reading: its lowest bound, or its highest when reversed */
+function scanOrigin({ start, end, prefix, reverse, cursor }: ScanOptions): string | undefined {
+  const pick = (candidates: Array<string | undefined>, sign: number) =>
+    candidates.reduce<string | undefined>((best, key) =>
+      key !== undefined && (best === undefined || sign * compareKeys(key, best) > 0) ? key : best,
+    undefined);
+
+  return reverse
+    ? pick([end, cursor, prefix !== undefined ? prefix + '\uffff' : undefined], -1)
+    : pick([start, prefix, cursor], 1);
+}
+
+/** -1 if key sorts below the scan range, 1 if above, 0 if inside */
+function rangePosition(key: string, { start, end, prefix }: ScanOptions): number {
+  if (start !== undefined && compareKeys(key, start) < 0) return -1;
+  if (end !== undefined && compareKeys(key, end) >= 0) return 1;
+  if (prefix !== undefined && !key.startsWith(prefix)) {
+    return compareKeys(key, prefix) < 0 ? -1 : 1;
+  }
+  return 0;
+}
@@ -0,0 +1,121 @@
+import { TerminationReason, TransactionState } from '../transaction/Transaction';
+
+/**
+ * Raised at commit when a write would leave two live rows with the same
+ * primary key, or the same value in a unique index.
+ */
+export class UniqueViolationError extends Error {
+  constructor(
+    readonly constraint: string,
+    readonly key: string,
+    readonly value?: unknown
+  ) {
+    super(
+      value === undefined
+        ? `Duplicate key '${key}' violates unique constraint '${constraint}'`
+        : `Duplicate value ${JSON.stringify(value)} for key '${key}' violates unique constraint '${constraint}'`
+    );
+    this.name = 'UniqueViolationError';
+  }
+}
+
+/**
+ * Raised at commit of a SERIALIZABLE transaction whose reads and writes,
+ * combined with concurrent transactions, could not have happened in any
+ * serial order. Retrying the transaction is safe.
+ */
+export class SerializationFailureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SerializationFailureError';
+  }
+}
+
+/**
+ * Raised when a row lock is held by another transaction and the caller
+ * asked not to wait (NOWAIT), or when writing a row another transaction
+ * has locked.
+ */
+export class LockNotAvailableError extends Error {
+  constructor(
+    readonly key: string,
+    readonly holder: number
+  ) {
+    super(`Could not obtain lock on row '${key}': held by transaction ${holder}`);
+    this.name = 'LockNotAvailableError';
+  }
+}
+
+/**
+ * Raised in the transaction chosen to break a cycle of lock waits. The
+ * transaction is aborted; retrying it is safe.
+ */
+export class DeadlockError extends Error {
+  constructor(
+    readonly txnId: number,
+    readonly cycle: number[]
+  ) {
+    super(`Deadlock detected: transaction ${txnId} aborted to break wait cycle ${cycle.join(' -> ')} -> ${cycle[0]}`);
+    this.name = 'DeadlockError';
+  }
+}
+
+/** Raised when a row lock is not granted within lockTimeoutMs; the transaction is aborted */
+export class LockTimeoutError extends Error {
+  constructor(
+    readonly key: string,
+    readonly timeoutMs: number
+  ) {
+    super(`Timed out after ${timeoutMs}ms waiting for lock on row '${key}'`);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+/**
+ * Raised by any call made with a transaction the database has already
+ * aborted for exceeding a timeout. code says which one.
+ */
+export class TransactionTerminatedError extends Error {
+  constructor(
+    readonly txnId: number,
+    readonly code: TerminationReason
+  ) {
+    super(`Transaction ${txnId} was terminated (${code})`);
+    this.name = 'TransactionTerminatedError';
+  }
+}
+
+/** Raised when a call needs the transaction in a state it is not in, e.g. insert after commit */
+export class InvalidTransactionStateError extends Error {
+  constructor(
+    readonly txnId: number,
+    readonly state: TransactionState,
+    readonly operation: string
+  ) {
+    super(`Cannot ${operation} transaction ${txnId}: it is ${state}`);
+    this.name = 'InvalidTransactionStateError';
+  }
+}
+
+/** Raised when a read-only transaction tries to write or lock rows */
+export class ReadOnlyTransactionError extends Error {
+  constructor(
+    readonly txnId: number,
+    readonly operation: string
+  ) {
+    super(`Cannot execute ${operation} in read-only transaction ${txnId}`);
+    this.name = 'ReadOnlyTransactionError';
+  }
+}
+
+/** Raised by the SQL lexer and parser, pointing at the offending token (1-based) */
+export class SqlSyntaxError extends Error {
+  constructor(
+    readonly detail: string,
+    readonly line: number,
+    readonly column: number
+  ) {
+    super(`${detail} at line ${line}, column ${column}`);
+    this.name = 'SqlSyntaxError';
+  }
+}
@@ -0,0 +1,66 @@
+/** Binary heap whose top is the least item under `compare` */
+export class BinaryHeap<T> {
+  private items: T[] = [];
+
+  constructor(private compare: (a: T, b: T) => number) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    this.items.push(item);
+    this.siftUp(this.items.length - 1);
+  }
+
+  pop(): T | undefined {
+    const top = this.items[0];
+    const last = this.items.pop();
+    if (this.items.length > 0) {
+      this.items[0] = last!;
+      this.siftDown(0);
+    }
+    return top;
+  }
+
+  /** Replace the top item: pop() then push() with one sift */
+  replaceTop(item: T): void {
+    this.items[0] = item;
+    this.siftDown(0);
+  }
+
+  /** The items in heap order, not sorted */
+  toArray(): T[] {
+    return [...this.items];
+  }
+
+  private siftUp(i: number): void {
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (this.compare(this.items[i], this.items[parent]) >= 0) return;
+      this.swap(i, parent);
+      i = parent;
+    }
+  }
+
+  private siftDown(i: number): void {
+    for (;;) {
+      const left = 2 * i + 1;
+      const right = left + 1;
+      let least = i;
+      if (left < this.items.length && this.compare(this.items[left], this.items[least]) < 0) least = left;
+      if (right < this.items.length && this.compare(this.items[right], this.items[least]) < 0) least = right;
+      if (least === i) return;
+      this.swap(i, least);
+      i = least;
+    }
+  }
+
+  private swap(a: number, b: number): void {
+    [this.items[a], this.items[b]] = [this.items[b], this.items[a]];
+  }
+}
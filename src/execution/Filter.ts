@@ -0,0 +1,29 @@
+import { Operator } from './Operator';
+import { Expression } from '../sql/ast';
+import { Row, evaluate, isTrue } from '../sql/expressions';
+
+/** Rows of the child for which the predicate is true (not false or NULL) */
+export class Filter implements Operator {
+  constructor(
+    readonly child: Operator,
+    readonly predicate: Expression,
+    private params: any[]
+  ) {}
+
+  open(): void {
+    this.child.open();
+  }
+
+  next(): Row | null {
+    for (let row = this.child.next(); row !== null; row = this.child.next()) {
+      if (isTrue(evaluate(this.predicate, row, this.params))) {
+        return row;
+      }
+    }
+    return null;
+  }
+
+  close(): void {
+    this.child.close();
+  }
+}
@@ -0,0 +1,56 @@
+import { Operator } from './Operator';
+import { OutputColumn } from './Projection';
+import { AggregateColumn, Group, groupKeys } from './aggregates';
+import { Row } from '../sql/expressions';
+
+/**
+ * One row per group of the child's rows, found through a hash table on the
+ * group key values, so the input can come in any order. open() drains the
+ * child; groups come out in the order they were first seen.
+ *
+ * Without GROUP BY (no groups) every row is in one group, which exists
+ * even if the child has no rows: SELECT count(*) over nothing returns 0.
+ */
+export class HashAggregate implements Operator {
+  private output: Iterator<Group> | null = null;
+
+  constructor(
+    readonly child: Operator,
+    readonly groups: OutputColumn[],
+    readonly aggregates: AggregateColumn[],
+    private params: any[]
+  ) {}
+
+  open(): void {
+    const table = new Map<string, Group>();  // JSON of the key values -> group
+    if (this.groups.length === 0) {
+      table.set('[]', new Group([], this.aggregates));
+    }
+
+    this.child.open();
+    try {
+      for (let row = this.child.next(); row !== null; row = this.child.next()) {
+        const keys = groupKeys(this.groups, row, this.params);
+        const hash = JSON.stringify(keys);
+        let group = table.get(hash);
+        if (!group) {
+          group = new Group(keys, this.aggregates);
+          table.set(hash, group);
+        }
+        group.add(row, this.params);
+      }
+    } finally {
+      this.child.close();
+    }
+    this.output = table.values();
+  }
+
+  next(): Row | null {
+    const step = this.output?.next();
+    return !step || step.done ? null : step.value.row(this.groups);
+  }
+
+  close(): void {
+    this.output = null;
+  }
+}
@@ -0,0 +1,156 @@
+import { Operator, ExecutionEngine, pull } from './Operator';
+import { JoinCondition, keyOf, joinRows } from './joins';
+import { SpillFile, rowBytes } from './SpillFile';
+import { Row } from '../sql/expressions';
+import { executorLogger } from '../utils/logger';
+import { dbMetrics } from '../monitoring/metrics';
+
+/** Partitions an oversized batch is split into */
+const FANOUT = 8;
+/** Below this depth a batch that outgrows work_mem is split again; the hash has bits for no more */
+const MAX_DEPTH = 4;
+
+/**
+ * Equi-join that builds a hash table on the right input and probes it with
+ * each left row. Left rows come out in their input order unless the join
+ * spills.
+ *
+ * A build side larger than work_mem is split by key hash into partition
+ * files, and the left input is split the same way; each pair of partitions
+ * is then joined on its own (Grace hash join). A partition that is still
+ * too large is split again on other bits of the hash, up to MAX_DEPTH,
+ * past which it is joined in memory: its rows share too few keys to split.
+ */
+export class HashJoin implements Operator {
+  private log = executorLogger;
+  private output: Iterator<Row> | null = null;
+  private spills = new Set<SpillFile>();
+
+  /** Bytes written to partition files since open() */
+  spilledBytes = 0;
+
+  constructor(
+    readonly left: Operator,
+    readonly right: Operator,
+    readonly join: JoinCondition,
+    private engine: ExecutionEngine,
+    private params: any[]
+  ) {}
+
+  open(): void {
+    this.spilledBytes = 0;
+    this.left.open();
+    this.right.open();
+    this.output = this.batch(pull(this.right), pull(this.left), 0);
+  }
+
+  next(): Row | null {
+    const step = this.output?.next();
+    return !step || step.done ? null : step.value;
+  }
+
+  close(): void {
+    this.output?.return?.();
+    this.output = null;
+    this.spills.forEach(file => file.delete());
+    this.spills.clear();
+    this.left.close();
+    this.right.close();
+  }
+
+  private *batch(build: Iterable<Row>, probe: Iterable<Row>, depth: number): IterableIterator<Row> {
+    const table = new Map<string, Row[]>();  // JSON of the key values -> right rows
+    let bytes = 0;
+    let partitions: SpillFile[] | null = null;
+
+    for (const row of build) {
+      const key = keyOf(this.join.rightKeys, row, this.params);
+      if (key === null) continue;  // matches nothing
+      const hash = JSON.stringify(key);
+
+      if (partitions) {
+        partitions[partitionOf(hash, depth)].write(row);
+        continue;
+      }
+      const bucket = table.get(hash);
+      if (bucket) {
+        bucket.push(row);
+      } else {
+        table.set(hash, [row]);
+      }
+
+      bytes += rowBytes(row);
+      if (bytes > this.engine.workMem && depth < MAX_DEPTH) {
+        partitions = this.createPartitions();
+        for (const [tableHash, rows] of table) {
+          rows.forEach(tableRow => partitions![partitionOf(tableHash, depth)].write(tableRow));
+        }
+        table.clear();
+      }
+    }
+
+    if (!partitions) {
+      for (const row of probe) {
+        const key = keyOf(this.join.leftKeys, row, this.params);
+        const matches = key === null ? [] : table.get(JSON.stringify(key)) ?? [];
+        yield* joinRows(this.join, row, matches, this.params);
+      }
+      return;
+    }
+
+    const probes = this.createPartitions();
+    for (const row of probe) {
+      const key = keyOf(this.join.leftKeys, row, this.params);
+      if (key === null) {
+        yield* joinRows(this.join, row, [], this.params);
+      } else {
+        probes[partitionOf(JSON.stringify(key), depth)].write(row);
+      }
+    }
+
+    const spilled = [...partitions, ...probes].reduce((sum, file) => sum + file.bytes, 0);
+    this.spilledBytes += spilled;
+    this.log.info({
+      depth,
+      buildRows: partitions.reduce((sum, file) => sum + file.rowCount, 0),
+      probeRows: probes.reduce((sum, file) => sum + file.rowCount, 0),
+      spilledBytes: spilled,
+      workMem: this.engine.workMem,
+      action: 'hash_join_spill'
+    }, `Hash join spilled to disk`);
+    dbMetrics.querySpills.inc({ operator: 'hash_join' });
+    dbMetrics.querySpillBytes.inc({ operator: 'hash_join' }, spilled);
+
+    for (let i = 0; i < FANOUT; i++) {
+      yield* this.batch(partitions[i].rows(), probes[i].rows(), depth + 1);
+      this.release(partitions[i]);
+      this.release(probes[i]);
+    }
+  }
+
+  private createPartitions(): SpillFile[] {
+    return Array.from({ length: FANOUT }, () => {
+      const file = new SpillFile(this.engine.tempDir);
+      this.spills.add(file);
+      return file;
+    });
+  }
+
+  private release(file: SpillFile): void {
+    file.delete();
+    this.spills.delete(file);
+  }
+}
+
+/** Partition of a key at a depth: each depth uses the next three bits of the key's hash */
+function partitionOf(hash: string, depth: number): number {
+  // FNV-1a, then a murmur3 finalizer so every bit depends on the whole key
+  let h = 0x811c9dc5;
+  for (let i = 0; i < hash.length; i++) {
+    h = Math.imul(h ^ hash.charCodeAt(i), 0x01000193);
+  }
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  h ^= h >>> 16;
+  return (h >>> (3 * depth)) & (FANOUT - 1);
+}
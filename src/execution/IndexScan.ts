@@ -0,0 +1,54 @@
+import { Operator, ExecutionEngine } from './Operator';
+import { Row } from '../sql/expressions';
+import { TableDefinition, tablePrefix, tableRow } from '../sql/Catalog';
+import { Transaction } from '../transaction/Transaction';
+import { VersionedRow } from '../mvcc/VersionedRow';
+
+/**
+ * Rows of a table whose indexed value lies in [min, max] (either bound may
+ * be left open), in index order. An index not scoped to the table also
+ * holds other tables' rows, which are skipped; each remaining version is
+ * fetched and kept only if the transaction's snapshot sees it.
+ */
+export class IndexScan implements Operator {
+  private versions: Iterator<VersionedRow> | null = null;
+  private readonly prefix: string;
+
+  constructor(
+    private engine: ExecutionEngine,
+    private txn: Transaction,
+    readonly table: TableDefinition,
+    readonly index: string,
+    readonly range: { min?: any; max?: any },
+    readonly qualifier: string | null = null
+  ) {
+    this.prefix = tablePrefix(table.name);
+  }
+
+  open(): void {
+    this.versions = this.engine.indexes.candidates(this.index, this.txn, this.range);
+  }
+
+  next(): Row | null {
+    while (this.versions) {
+      const step = this.versions.next();
+      if (step.done) {
+        this.close();
+        break;
+      }
+
+      const version = step.value;
+      if (!version.key.startsWith(this.prefix)) continue;
+      this.txn.addRead(version.key);
+      if (this.engine.mvcc.isVisible(version, this.txn.snapshot)) {
+        return tableRow(this.table, version.data, this.qualifier);
+      }
+    }
+    return null;
+  }
+
+  close(): void {
+    this.versions?.return?.();
+    this.versions = null;
+  }
+}
@@ -0,0 +1,37 @@
+import { Operator, ExecutionEngine } from './Operator';
+import { Row } from '../sql/expressions';
+import { TableDefinition, rowKey, tableRow } from '../sql/Catalog';
+import { Transaction } from '../transaction/Transaction';
+import { versionsFor } from '../mvcc/ownWrites';
+
+/** The row of a table with a given primary key value, if the transaction sees one */
+export class KeyLookup implements Operator {
+  private done = true;
+
+  constructor(
+    private engine: ExecutionEngine,
+    private txn: Transaction,
+    readonly table: TableDefinition,
+    readonly value: any,
+    readonly qualifier: string | null = null
+  ) {}
+
+  open(): void {
+    this.done = false;
+  }
+
+  next(): Row | null {
+    if (this.done) return null;
+    this.done = true;
+
+    const key = rowKey(this.table.name, this.value);
+    this.txn.addRead(key);
+    const versions = versionsFor(this.txn, key, this.engine.storage.getAllVersions(key));
+    const visible = versions.find(row => this.engine.mvcc.isVisible(row, this.txn.snapshot));
+    return visible ? tableRow(this.table, visible.data, this.qualifier) : null;
+  }
+
+  close(): void {
+    this.done = true;
+  }
+}
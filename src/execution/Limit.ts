@@ -0,0 +1,40 @@
+import { Operator } from './Operator';
+import { Row } from '../sql/expressions';
+
+/**
+ * The first `count` rows of the child. Once they have been returned the
+ * child is closed without being asked for more, so the scans below stop
+ * reading rows nobody will see.
+ */
+export class Limit implements Operator {
+  private returned = 0;
+  private active = false;
+
+  constructor(readonly child: Operator, readonly count: number) {}
+
+  open(): void {
+    this.returned = 0;
+    this.child.open();
+    this.active = true;
+  }
+
+  next(): Row | null {
+    if (!this.active) return null;
+    if (this.returned >= this.count) {
+      this.close();
+      return null;
+    }
+
+    const row = this.child.next();
+    if (row === null) return null;
+    this.returned++;
+    return row;
+  }
+
+  close(): void {
+    if (this.active) {
+      this.active = false;
+      this.child.close();
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { Operator } from './Operator';
+import { JoinCondition, keyOf, joinRows } from './joins';
+import { Row, compareValues } from '../sql/expressions';
+
+/**
+ * Equi-join of two inputs sorted ascending on their join keys (the planner
+ * puts a Sort under each). Both inputs are read once: the right rows that
+ * share the current key are kept while the left rows with that key are
+ * joined against them. NULL keys sort last and match nothing.
+ */
+export class MergeJoin implements Operator {
+  private current: Row | null = null;   // next unconsumed right row
+  private group: Row[] = [];            // right rows whose key is groupKey
+  private groupKey: any[] | null = null;
+  private output: Iterator<Row> = [][Symbol.iterator]();
+  private active = false;
+
+  constructor(
+    readonly left: Operator,
+    readonly right: Operator,
+    readonly join: JoinCondition,
+    private params: any[]
+  ) {}
+
+  open(): void {
+    this.left.open();
+    this.right.open();
+    this.current = this.right.next();
+    this.group = [];
+    this.groupKey = null;
+    this.output = [][Symbol.iterator]();
+    this.active = true;
+  }
+
+  next(): Row | null {
+    while (this.active) {
+      const step = this.output.next();
+      if (!step.done) return step.value;
+
+      const left = this.left.next();
+      if (left === null) break;
+      this.output = joinRows(this.join, left, this.matchesFor(left), this.params);
+    }
+    return null;
+  }
+
+  close(): void {
+    this.active = false;
+    this.group = [];
+    this.left.close();
+    this.right.close();
+  }
+
+  /** Right rows whose key equals the left row's, advancing the right input as needed */
+  private matchesFor(left: Row): Row[] {
+    const key = keyOf(this.join.leftKeys, left, this.params);
+    if (key === null) return [];
+    if (this.groupKey && compareKeys(key, this.groupKey) === 0) return this.group;
+
+    // Skip right rows below the key, which no left row has, and rows with NULL keys
+    while (this.current) {
+      const rightKey = keyOf(this.join.rightKeys, this.current, this.params);
+      if (rightKey !== null && compareKeys(rightKey, key) >= 0) break;
+      this.current = this.right.next();
+    }
+
+    this.group = [];
+    this.groupKey = key;
+    while (this.current) {
+      const rightKey = keyOf(this.join.rightKeys, this.current, this.params);
+      if (rightKey === null || compareKeys(rightKey, key) !== 0) break;
+      this.group.push(this.current);
+      this.current = this.right.next();
+    }
+    return this.group;
+  }
+}
+
+function compareKeys(a: any[], b: any[]): number {
+  for (let i = 0; i < a.length; i++) {
+    const order = compareValues(a[i], b[i]);
+    if (order !== 0) return order;
+  }
+  return 0;
+}
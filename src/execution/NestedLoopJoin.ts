@@ -0,0 +1,61 @@
+import { Operator, pull } from './Operator';
+import { JoinCondition, joinRows } from './joins';
+import { Row } from '../sql/expressions';
+
+/**
+ * For each left row, opens a fresh inner plan and joins the left row with
+ * every row it returns. The inner plan is built from the left row, so it
+ * can look up just the rows that may match: an index or primary-key probe
+ * on the join key makes this an index nested-loop join. When it cannot,
+ * the inner plan rescans its table for every left row. A null inner plan
+ * means the left row has no candidates (e.g. its join key is NULL).
+ *
+ * The join keys of the condition are not used: whatever the inner plan
+ * returns is checked against the residual condition.
+ */
+export class NestedLoopJoin implements Operator {
+  private output: Iterator<Row> = [][Symbol.iterator]();
+  private inner: Operator | null = null;
+  private active = false;
+
+  constructor(
+    readonly left: Operator,
+    readonly innerFor: (left: Row) => Operator | null,
+    readonly join: JoinCondition,
+    private params: any[]
+  ) {}
+
+  open(): void {
+    this.left.open();
+    this.output = [][Symbol.iterator]();
+    this.active = true;
+  }
+
+  next(): Row | null {
+    while (this.active) {
+      const step = this.output.next();
+      if (!step.done) return step.value;
+      this.closeInner();
+
+      const left = this.left.next();
+      if (left === null) break;
+
+      this.inner = this.innerFor(left);
+      this.inner?.open();
+      this.output = joinRows(this.join, left, this.inner ? pull(this.inner) : [], this.params);
+    }
+    return null;
+  }
+
+  close(): void {
+    this.active = false;
+    this.output.return?.();
+    this.closeInner();
+    this.left.close();
+  }
+
+  private closeInner(): void {
+    this.inner?.close();
+    this.inner = null;
+  }
+}
@@ -0,0 +1,46 @@
+import { Row } from '../sql/expressions';
+import { StorageEngine } from '../storage/StorageEngine';
+import { MVCCEngine } from '../mvcc/MVCCEngine';
+import { IndexManager } from '../index/IndexManager';
+
+/**
+ * A node of a query plan (docs/designs/QueryExecution.md). Parents pull
+ * rows from their children one at a time, so rows stream from the scans to
+ * the top of the plan without being collected in between.
+ */
+export interface Operator {
+  /** Prepare to produce rows; opens the children */
+  open(): void;
+  /** The next row, or null once the operator is exhausted */
+  next(): Row | null;
+  /** Release what open() acquired; closes the children */
+  close(): void;
+}
+
+/** What operators need from the database: where to read rows and how much memory to use */
+export interface ExecutionEngine {
+  storage: StorageEngine;
+  mvcc: MVCCEngine;
+  indexes: IndexManager;
+  /** Bytes an operator may hold in memory (work_mem) before it spills to temp files */
+  workMem: number;
+  /** Directory for spill files */
+  tempDir: string;
+}
+
+/** The remaining rows of an open operator */
+export function* pull(operator: Operator): IterableIterator<Row> {
+  for (let row = operator.next(); row !== null; row = operator.next()) {
+    yield row;
+  }
+}
+
+/** Run a plan to completion */
+export function collect(plan: Operator): Row[] {
+  plan.open();
+  try {
+    return Array.from(pull(plan));
+  } finally {
+    plan.close();
+  }
+}
@@ -0,0 +1,395 @@
+import { Operator, ExecutionEngine } from './Operator';
+import { SeqScan } from './SeqScan';
+import { IndexScan } from './IndexScan';
+import { KeyLookup } from './KeyLookup';
+import { Filter } from './Filter';
+import { Sort, SortKey } from './Sort';
+import { Limit } from './Limit';
+import { Projection, OutputColumn } from './Projection';
+import { HashJoin } from './HashJoin';
+import { MergeJoin } from './MergeJoin';
+import { NestedLoopJoin } from './NestedLoopJoin';
+import { HashAggregate } from './HashAggregate';
+import { SortAggregate } from './SortAggregate';
+import { JoinCondition } from './joins';
+import { AggregateColumn } from './aggregates';
+import { Expression, JoinType } from '../sql/ast';
+import { TableDefinition, tablePrefix } from '../sql/Catalog';
+import { Row, evaluate, compareValues, typeName, columnsOf, columnKey } from '../sql/expressions';
+import { Transaction } from '../transaction/Transaction';
+
+/** A table as a plan reads it: row keys are `qualifier.column`, or bare column names without a qualifier */
+export interface TableSource {
+  table: TableDefinition;
+  qualifier: string | null;
+}
+
+export interface JoinSpec {
+  type: JoinType;
+  source: TableSource;
+  on: Expression;
+}
+
+/**
+ * GROUP BY and aggregation. The aggregated rows hold the group key values
+ * and aggregate results under their names; HAVING, ORDER BY and the
+ * outputs of a grouped query read only those.
+ */
+export interface Grouping {
+  groups: OutputColumn[];
+  aggregates: AggregateColumn[];
+  having: Expression | null;
+}
+
+/** A SELECT with its column references already bound to row keys */
+export interface SelectQuery {
+  from: TableSource;
+  joins: JoinSpec[];
+  outputs: OutputColumn[];
+  where: Expression | null;
+  grouping: Grouping | null;
+  orderBy: SortKey[];
+  limit: number | null;
+}
+
+/**
+ * Join algorithms the planner may choose, in order of preference. A join
+ * with no usable method, or no equality between the two sides, runs as a
+ * nested loop that rescans the right table.
+ */
+export type JoinMethod = 'index' | 'hash' | 'merge';
+
+export const JOIN_METHODS: JoinMethod[] = ['index', 'hash', 'merge'];
+
+/** Aggregation algorithms the planner may choose, as for joins */
+export type AggregateMethod = 'hash' | 'sort';
+
+export const AGGREGATE_METHODS: AggregateMethod[] = ['hash', 'sort'];
+
+/**
+ * Bounds on an indexed column that every matching row satisfies. A null
+ * index is the table's primary key, which is looked up by equality only.
+ */
+interface IndexRange {
+  index: string | null;
+  min?: any;
+  max?: any;
+  equality: boolean;
+}
+
+/** Comparisons an index range can serve */
+type RangeOperator = '=' | '<' | '<=' | '>' | '>=';
+
+/** The same comparison with its operands swapped: 1 < a is a > 1 */
+const SWAPPED: Partial<Record<string, RangeOperator>> = { '=': '=', '<': '>', '<=': '>=', '>': '<', '>=': '<=' };
+
+const VALUE_TYPES: Record<string, string> = { integer: 'number', real: 'number', text: 'text', boolean: 'boolean' };
+
+/**
+ * Builds operator trees for statements (docs/designs/QueryExecution.md).
+ * There are no statistics, so choices are made by rule:
+ *
+ * - Access path: an equality on the primary key is a key lookup, an index
+ *   of the table on a column the WHERE clause compares with a constant
+ *   beats a sequential scan, and an equality beats a range. The whole
+ *   condition is still applied above the access path.
+ * - Joins are left-deep, in FROM order. WHERE conditions on one table are
+ *   applied at its scan unless a LEFT JOIN may pad it with NULLs; ON
+ *   conditions on the joined table alone are applied at its scan.
+ * - Join method: an index nested loop when the right side of an ON
+ *   equality is the right table's primary key or an indexed column, else a
+ *   hash join, else a merge join, restricted to the enabled methods.
+ * - Aggregation: hashing, unless ORDER BY sorts on group keys alone; then
+ *   sorting the input on those keys both groups the rows and orders the
+ *   result.
+ */
+export class Planner {
+  constructor(
+    private engine: ExecutionEngine,
+    private joinMethods: JoinMethod[] = JOIN_METHODS,
+    private aggregateMethods: AggregateMethod[] = AGGREGATE_METHODS
+  ) {}
+
+  /** SELECT: scan and join, filter, aggregate, sort, limit, then project */
+  select(txn: Transaction, query: SelectQuery, params: any[]): Operator {
+    const pending = query.where ? conjuncts(query.where) : [];
+    const filterable = new Set([query.from, ...query.joins.filter(join => join.type === 'inner').map(join => join.source)]);
+
+    // The WHERE conjuncts that read only this table, if they can be applied at its scan
+    const conditionsFor = (source: TableSource): Expression | null => {
+      if (!filterable.has(source)) return null;
+      const own = pending.filter(condition => readsOnly(condition, [source.qualifier]));
+      own.forEach(condition => pending.splice(pending.indexOf(condition), 1));
+      return allOf(own);
+    };
+
+    const { from } = query;
+    let plan = this.scan(txn, from.table, conditionsFor(from), params, from.qualifier);
+    const joined = [from.qualifier];
+    for (const join of query.joins) {
+      plan = this.join(txn, plan, joined, join, conditionsFor(join.source), params);
+      if (join.type !== 'semi' && join.type !== 'anti') {
+        joined.push(join.source.qualifier);
+      }
+    }
+
+    const rest = allOf(pending);
+    if (rest) {
+      plan = new Filter(plan, rest, params);
+    }
+
+    let sorted = false;
+    if (query.grouping) {
+      ({ plan, sorted } = this.aggregate(plan, query.grouping, query.orderBy, params));
+    }
+    if (query.orderBy.length > 0 && !sorted) {
+      plan = new Sort(plan, query.orderBy, this.engine, params, query.limit);
+    }
+    if (query.limit !== null) {
+      plan = new Limit(plan, query.limit);
+    }
+    return new Projection(plan, query.outputs, params);
+  }
+
+  /** Visible rows of the table for which `where` is true */
+  scan(txn: Transaction, table: TableDefinition, where: Expression | null, params: any[], qualifier: string | null = null): Operator {
+    const range = where ? this.chooseIndex(table, where, params) : null;
+    const scan = range ? this.rangeScan(txn, table, range, qualifier) : new SeqScan(this.engine, txn, table, qualifier);
+    return where ? new Filter(scan, where, params) : scan;
+  }
+
+  private rangeScan(txn: Transaction, table: TableDefinition, range: IndexRange, qualifier: string | null): Operator {
+    return range.index === null
+      ? new KeyLookup(this.engine, txn, table, range.min, qualifier)
+      : new IndexScan(this.engine, txn, table, range.index, { min: range.min, max: range.max }, qualifier);
+  }
+
+  /** Join the rows of `left` (holding the tables in `leftQualifiers`) with the table of `spec` */
+  private join(
+    txn: Transaction,
+    left: Operator,
+    leftQualifiers: Array<string | null>,
+    spec: JoinSpec,
+    where: Expression | null,
+    params: any[]
+  ): Operator {
+    const { table, qualifier } = spec.source;
+    const rightFilters = where ? [where] : [];
+    const equalities: Expression[] = [];
+    const leftKeys: Expression[] = [];
+    const rightKeys: Expression[] = [];
+    const residual: Expression[] = [];
+
+    for (const condition of conjuncts(spec.on)) {
+      if (readsOnly(condition, [qualifier])) {
+        rightFilters.push(condition);
+      } else if (condition.type === 'binary' && condition.operator === '=' && sidesOf(condition, leftQualifiers, qualifier)) {
+        const [leftKey, rightKey] = sidesOf(condition, leftQualifiers, qualifier)!;
+        equalities.push(condition);
+        leftKeys.push(leftKey);
+        rightKeys.push(rightKey);
+      } else {
+        residual.push(condition);
+      }
+    }
+
+    const rightWhere = allOf(rightFilters);
+    const scanRight = () => this.scan(txn, table, rightWhere, params, qualifier);
+    const condition = (useKeys: boolean): JoinCondition => ({
+      type: spec.type,
+      leftKeys: useKeys ? leftKeys : [],
+      rightKeys: useKeys ? rightKeys : [],
+      residual: allOf(useKeys ? residual : [...equalities, ...residual]),
+      rightColumns: table.columns.map(({ name }) => columnKey({ type: 'column', table: qualifier, name })),
+    });
+
+    if (this.joinMethods.includes('index')) {
+      const probe = this.chooseProbe(table, rightKeys);
+      if (probe) {
+        const leftKey = leftKeys[probe.key];
+        const innerFor = (row: Row): Operator | null => {
+          const value = evaluate(leftKey, row, params);
+          if (value === null) return null;
+          const lookup = probe.index === null
+            ? new KeyLookup(this.engine, txn, table, value, qualifier)
+            : new IndexScan(this.engine, txn, table, probe.index, { min: value, max: value }, qualifier);
+          return rightWhere ? new Filter(lookup, rightWhere, params) : lookup;
+        };
+        return new NestedLoopJoin(left, innerFor, condition(false), params);
+      }
+    }
+
+    if (leftKeys.length > 0 && this.joinMethods.includes('hash')) {
+      return new HashJoin(left, scanRight(), condition(true), this.engine, params);
+    }
+    if (leftKeys.length > 0 && this.joinMethods.includes('merge')) {
+      const ascending = (keys: Expression[]) => keys.map(expression => ({ expression, descending: false }));
+      return new MergeJoin(
+        new Sort(left, ascending(leftKeys), this.engine, params),
+        new Sort(scanRight(), ascending(rightKeys), this.engine, params),
+        condition(true),
+        params
+      );
+    }
+    return new NestedLoopJoin(left, () => scanRight(), condition(false), params);
+  }
+
+  /** The grouping over `input`, and whether its rows already come out in ORDER BY order */
+  private aggregate(input: Operator, grouping: Grouping, orderBy: SortKey[], params: any[]): { plan: Operator; sorted: boolean } {
+    const { groups, aggregates, having } = grouping;
+    const order = groupOrder(groups, orderBy);
+    const bySort = this.aggregateMethods.includes('sort') && (order !== null || !this.aggregateMethods.includes('hash'));
+
+    let plan: Operator;
+    if (bySort) {
+      const keys = order ?? groups.map(({ expression }) => ({ expression, descending: false }));
+      plan = new SortAggregate(keys.length > 0 ? new Sort(input, keys, this.engine, params) : input, groups, aggregates, params);
+    } else {
+      plan = new HashAggregate(input, groups, aggregates, params);
+    }
+    if (having) {
+      plan = new Filter(plan, having, params);
+    }
+    return { plan, sorted: bySort && order !== null };
+  }
+
+  /** A join key that is the right table's primary key (index null) or an indexed column */
+  private chooseProbe(table: TableDefinition, rightKeys: Expression[]): { key: number; index: string | null } | null {
+    const indexes = this.indexesOf(table);
+    const columns = rightKeys.map(key => key.type === 'column' ? key.name : null);
+
+    const primary = columns.indexOf(table.primaryKey);
+    if (primary !== -1) {
+      return { key: primary, index: null };
+    }
+    for (let i = 0; i < columns.length; i++) {
+      const index = indexes.find(definition => definition.fieldPath === columns[i]);
+      if (index) {
+        return { key: i, index: index.name };
+      }
+    }
+    return null;
+  }
+
+  private chooseIndex(table: TableDefinition, where: Expression, params: any[]): IndexRange | null {
+    const indexes = this.indexesOf(table);
+    const ranges = new Map<string, IndexRange>();  // column -> bounds so far
+
+    for (const conjunct of conjuncts(where)) {
+      const bound = columnBound(table, conjunct, params);
+      if (!bound) continue;
+      if (bound.column === table.primaryKey && bound.operator === '=') {
+        return { index: null, min: bound.value, max: bound.value, equality: true };
+      }
+      const index = indexes.find(definition => definition.fieldPath === bound.column);
+      if (!index) continue;
+
+      const range = ranges.get(bound.column) ?? { index: index.name, equality: false };
+      const { operator, value } = bound;
+      if (operator !== '<' && operator !== '<=' && (range.min === undefined || compareValues(value, range.min) > 0)) {
+        range.min = value;
+      }
+      if (operator !== '>' && operator !== '>=' && (range.max === undefined || compareValues(value, range.max) < 0)) {
+        range.max = value;
+      }
+      range.equality ||= operator === '=';
+      ranges.set(bound.column, range);
+    }
+
+    const candidates = Array.from(ranges.values());
+    return candidates.find(range => range.equality) ?? candidates[0] ?? null;
+  }
+
+  /** Indexes created for the table; others may hold rows of any table */
+  private indexesOf(table: TableDefinition) {
+    const prefix = tablePrefix(table.name);
+    return this.engine.indexes.list().filter(definition => definition.keyPrefix === prefix);
+  }
+}
+
+/**
+ * Sort keys on the aggregation input that put the groups in ORDER BY order,
+ * or null unless ORDER BY reads only group keys. Group keys ORDER BY
+ * leaves out follow, so each group's rows end up adjacent.
+ */
+function groupOrder(groups: OutputColumn[], orderBy: SortKey[]): SortKey[] | null {
+  if (orderBy.length === 0) return null;
+
+  const keys: SortKey[] = [];
+  for (const { expression, descending } of orderBy) {
+    const group = expression.type === 'column' && expression.table === null
+      ? groups.find(({ name }) => name === expression.name)
+      : undefined;
+    if (!group) return null;
+    keys.push({ expression: group.expression, descending });
+  }
+  for (const group of groups) {
+    if (!keys.some(key => key.expression === group.expression)) {
+      keys.push({ expression: group.expression, descending: false });
+    }
+  }
+  return keys;
+}
+
+/** The expressions ANDed together at the top of a condition */
+function conjuncts(expression: Expression): Expression[] {
+  return expression.type === 'binary' && expression.operator === 'AND'
+    ? [...conjuncts(expression.left), ...conjuncts(expression.right)]
+    : [expression];
+}
+
+/** The conditions ANDed back together; null for none */
+function allOf(conditions: Expression[]): Expression | null {
+  return conditions.reduce<Expression | null>(
+    (all, condition) => all ? { type: 'binary', operator: 'AND', left: all, right: condition } : condition,
+    null
+  );
+}
+
+/** Whether the expression reads columns, and only columns of the given tables */
+function readsOnly(expression: Expression, qualifiers: Array<string | null>): boolean {
+  const columns = columnsOf(expression);
+  return columns.length > 0 && columns.every(column => qualifiers.includes(column.table));
+}
+
+/** [left key, right key] of an equality whose sides each read only one side of the join */
+function sidesOf(
+  equality: Expression & { type: 'binary' },
+  leftQualifiers: Array<string | null>,
+  right: string | null
+): [Expression, Expression] | null {
+  if (readsOnly(equality.left, leftQualifiers) && readsOnly(equality.right, [right])) {
+    return [equality.left, equality.right];
+  }
+  if (readsOnly(equality.right, leftQualifiers) && readsOnly(equality.left, [right])) {
+    return [equality.right, equality.left];
+  }
+  return null;
+}
+
+/**
+ * A comparison of a column with a constant, as `column operator value`.
+ * NULL and values of another type than the column never use an index:
+ * the comparison is left to the filter, which reports type errors.
+ */
+function columnBound(
+  table: TableDefinition,
+  expression: Expression,
+  params: any[]
+): { column: string; operator: RangeOperator; value: any } | null {
+  if (expression.type !== 'binary' || !SWAPPED[expression.operator]) return null;
+
+  let { left, right } = expression;
+  let operator = expression.operator as RangeOperator;
+  if (left.type !== 'column') {
+    [left, right] = [right, left];
+    operator = SWAPPED[operator]!;
+  }
+  if (left.type !== 'column' || (right.type !== 'literal' && right.type !== 'parameter')) return null;
+
+  const name = left.name;
+  const column = table.columns.find(c => c.name === name);
+  const value = evaluate(right, {}, params);
+  if (!column || value === null || typeName(value) !== VALUE_TYPES[column.dataType]) return null;
+  return { column: column.name, operator, value };
+}
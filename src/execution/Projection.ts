@@ -0,0 +1,36 @@
+import { Operator } from './Operator';
+import { Expression } from '../sql/ast';
+import { Row, evaluate } from '../sql/expressions';
+
+export interface OutputColumn {
+  name: string;
+  expression: Expression;
+}
+
+/** Each row of the child turned into the output columns */
+export class Projection implements Operator {
+  constructor(
+    readonly child: Operator,
+    readonly outputs: OutputColumn[],
+    private params: any[]
+  ) {}
+
+  open(): void {
+    this.child.open();
+  }
+
+  next(): Row | null {
+    const row = this.child.next();
+    if (row === null) return null;
+
+    const out: Row = {};
+    for (const { name, expression } of this.outputs) {
+      out[name] = evaluate(expression, row, this.params);
+    }
+    return out;
+  }
+
+  close(): void {
+    this.child.close();
+  }
+}
@@ -0,0 +1,55 @@
+import { Operator, ExecutionEngine } from './Operator';
+import { Row } from '../sql/expressions';
+import { TableDefinition, tablePrefix, tableRow } from '../sql/Catalog';
+import { Transaction } from '../transaction/Transaction';
+import { VersionedRow } from '../mvcc/VersionedRow';
+import { keysOnlyWritten, withOwnWrites } from '../mvcc/ownWrites';
+
+/**
+ * Every row of a table visible to the transaction, in key order. Walks the
+ * table's key range in storage one key at a time, with the transaction's
+ * own pending writes merged in, and returns the version of each key its
+ * snapshot sees.
+ */
+export class SeqScan implements Operator {
+  private entries: Iterator<[string, VersionedRow[]]> | null = null;
+  private readonly prefix: string;
+
+  constructor(
+    private engine: ExecutionEngine,
+    private txn: Transaction,
+    readonly table: TableDefinition,
+    readonly qualifier: string | null = null
+  ) {
+    this.prefix = tablePrefix(table.name);
+  }
+
+  open(): void {
+    const { storage } = this.engine;
+    const ownKeys = keysOnlyWritten(this.txn, storage).filter(key => key.startsWith(this.prefix));
+    this.entries = withOwnWrites(this.txn, storage.entries(this.prefix), ownKeys, false);
+  }
+
+  next(): Row | null {
+    while (this.entries) {
+      const step = this.entries.next();
+      if (step.done || !step.value[0].startsWith(this.prefix)) {
+        this.close();  // past the table's key range
+        break;
+      }
+
+      const [key, versions] = step.value;
+      this.txn.addRead(key);
+      const visible = versions.find(row => this.engine.mvcc.isVisible(row, this.txn.snapshot));
+      if (visible) {
+        return tableRow(this.table, visible.data, this.qualifier);
+      }
+    }
+    return null;
+  }
+
+  close(): void {
+    this.entries?.return?.();
+    this.entries = null;
+  }
+}
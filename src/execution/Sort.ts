@@ -0,0 +1,189 @@
+import { Operator, ExecutionEngine, pull } from './Operator';
+import { SpillFile, rowBytes } from './SpillFile';
+import { BinaryHeap } from './BinaryHeap';
+import { Expression } from '../sql/ast';
+import { Row, evaluate, compareForSort } from '../sql/expressions';
+import { executorLogger } from '../utils/logger';
+import { dbMetrics } from '../monitoring/metrics';
+
+/** Sorted runs merged in one pass; more runs are first merged in groups of this many */
+const MERGE_ORDER = 64;
+
+export interface SortKey {
+  expression: Expression;
+  descending: boolean;
+}
+
+/** A row with its sort key values; seq is its position in the input, or the input it came from when merging */
+interface Entry {
+  row: Row;
+  values: any[];
+  seq: number;
+}
+
+/**
+ * The child's rows ordered by the sort keys. Sorting needs every row, so
+ * open() drains the child before the first row comes out; rows with equal
+ * keys keep the child's order.
+ *
+ * Rows are sorted in memory up to work_mem. Past that, each work_mem of
+ * rows is sorted and written to a temp file as a run, and the runs are
+ * merged as rows are pulled (external merge sort). More than MERGE_ORDER
+ * runs are merged in passes, each writing one longer run.
+ *
+ * With a limit, only the first `limit` rows are kept, in a heap whose top
+ * is the last of them (top-N heapsort). If even those outgrow work_mem the
+ * sort falls back to runs.
+ */
+export class Sort implements Operator {
+  private log = executorLogger;
+  private output: Iterator<Row> | null = null;
+  private runs: SpillFile[] = [];
+
+  /** Bytes written to temp files since open(), merge passes included */
+  spilledBytes = 0;
+
+  constructor(
+    readonly child: Operator,
+    readonly keys: SortKey[],
+    private engine: ExecutionEngine,
+    private params: any[],
+    readonly limit: number | null = null
+  ) {}
+
+  open(): void {
+    this.spilledBytes = 0;
+    this.child.open();
+    try {
+      this.output = this.limit === null ? this.sortAll(pull(this.child)) : this.sortTop(this.limit);
+    } catch (error) {
+      this.close();  // runs written before the failure
+      throw error;
+    } finally {
+      this.child.close();
+    }
+  }
+
+  next(): Row | null {
+    const step = this.output?.next();
+    return !step || step.done ? null : step.value;
+  }
+
+  close(): void {
+    this.output?.return?.();
+    this.output = null;
+    this.runs.forEach(file => file.delete());
+    this.runs = [];
+  }
+
+  private sortAll(rows: Iterable<Row>): Iterator<Row> {
+    let batch: Entry[] = [];
+    let bytes = 0;
+    for (const row of rows) {
+      batch.push({ row, values: this.valuesOf(row), seq: 0 });
+      bytes += rowBytes(row);
+      if (bytes > this.engine.workMem) {
+        this.writeRun(batch.sort((a, b) => this.compare(a.values, b.values)).map(({ row }) => row));
+        batch = [];
+        bytes = 0;
+      }
+    }
+
+    // Array.prototype.sort is stable, and so is merging runs in input order
+    const sorted = batch.sort((a, b) => this.compare(a.values, b.values)).map(({ row }) => row);
+    if (this.runs.length === 0) {
+      return sorted.values();
+    }
+
+    const runCount = this.runs.length;
+    let passes = 0;
+    while (this.runs.length >= MERGE_ORDER) {  // the last batch is one more input
+      const group = this.runs.splice(0, MERGE_ORDER);
+      this.writeRun(this.merge(group.map(file => file.rows())));
+      this.runs.unshift(this.runs.pop()!);  // the merged run replaces the earliest ones
+      group.forEach(file => file.delete());
+      passes++;
+    }
+
+    this.log.info({
+      runs: runCount,
+      mergePasses: passes,
+      spilledBytes: this.spilledBytes,
+      workMem: this.engine.workMem,
+      action: 'sort_spill'
+    }, `Sort spilled to disk`);
+    dbMetrics.querySpills.inc({ operator: 'sort' });
+    dbMetrics.querySpillBytes.inc({ operator: 'sort' }, this.spilledBytes);
+
+    return this.merge([...this.runs.map(file => file.rows()), sorted.values()]);
+  }
+
+  /** The first `limit` rows in order, holding no more than those */
+  private sortTop(limit: number): Iterator<Row> {
+    const order = (a: Entry, b: Entry) => this.compare(a.values, b.values) || a.seq - b.seq;
+    const heap = new BinaryHeap<Entry>((a, b) => order(b, a));  // top: the last row kept
+    let bytes = 0;
+    let seq = 0;
+
+    for (const row of pull(this.child)) {
+      const entry = { row, values: this.valuesOf(row), seq: seq++ };
+      if (heap.size < limit) {
+        heap.push(entry);
+        bytes += rowBytes(row);
+      } else if (limit > 0 && order(entry, heap.peek()!) < 0) {
+        bytes += rowBytes(row) - rowBytes(heap.peek()!.row);
+        heap.replaceTop(entry);
+      }
+
+      if (bytes > this.engine.workMem) {
+        // Rows dropped so far cannot be among the first `limit`; sort the
+        // kept ones, in input order, with the rest of the input
+        const kept = heap.toArray().sort((a, b) => a.seq - b.seq).map(({ row }) => row);
+        return this.sortAll(concat(kept, pull(this.child)));
+      }
+    }
+    return heap.toArray().sort(order).map(({ row }) => row).values();
+  }
+
+  private writeRun(rows: Iterable<Row>): void {
+    const file = new SpillFile(this.engine.tempDir);
+    this.runs.push(file);
+    for (const row of rows) {
+      file.write(row);
+    }
+    this.spilledBytes += file.bytes;
+  }
+
+  /** K-way merge of sorted inputs; ties go to the earlier input, which keeps the sort stable */
+  private *merge(inputs: Array<Iterator<Row>>): IterableIterator<Row> {
+    const heads = new BinaryHeap<Entry>((a, b) => this.compare(a.values, b.values) || a.seq - b.seq);
+    const advance = (input: number) => {
+      const step = inputs[input].next();
+      if (!step.done) heads.push({ row: step.value, values: this.valuesOf(step.value), seq: input });
+    };
+
+    inputs.forEach((_, input) => advance(input));
+    while (heads.size > 0) {
+      const head = heads.pop()!;
+      yield head.row;
+      advance(head.seq);
+    }
+  }
+
+  private compare(a: any[], b: any[]): number {
+    for (let i = 0; i < this.keys.length; i++) {
+      const order = compareForSort(a[i], b[i]);
+      if (order !== 0) return this.keys[i].descending ? -order : order;
+    }
+    return 0;
+  }
+
+  private valuesOf(row: Row): any[] {
+    return this.keys.map(key => evaluate(key.expression, row, this.params));
+  }
+}
+
+function* concat(first: Row[], rest: Iterable<Row>): IterableIterator<Row> {
+  yield* first;
+  yield* rest;
+}
@@ -0,0 +1,59 @@
+import { Operator } from './Operator';
+import { OutputColumn } from './Projection';
+import { AggregateColumn, Group, groupKeys } from './aggregates';
+import { Row } from '../sql/expressions';
+
+/**
+ * One row per group of a child whose rows arrive sorted on the group keys,
+ * so each group's rows are adjacent. Holds one group at a time and returns
+ * it as soon as the next group starts; groups come out in input order.
+ *
+ * Without GROUP BY (no groups) every row is in one group, which exists
+ * even if the child has no rows.
+ */
+export class SortAggregate implements Operator {
+  private pending: Row | null = null;  // first row of the next group
+  private pendingKeys: any[] = [];
+  private started = false;
+
+  constructor(
+    readonly child: Operator,
+    readonly groups: OutputColumn[],
+    readonly aggregates: AggregateColumn[],
+    private params: any[]
+  ) {}
+
+  open(): void {
+    this.child.open();
+    this.started = false;
+    this.advance();
+  }
+
+  next(): Row | null {
+    const first = !this.started;
+    this.started = true;
+    if (this.pending === null) {
+      return first && this.groups.length === 0 ? new Group([], this.aggregates).row(this.groups) : null;
+    }
+
+    const group = new Group(this.pendingKeys, this.aggregates);
+    const hash = JSON.stringify(this.pendingKeys);
+    do {
+      group.add(this.pending!, this.params);
+      this.advance();
+    } while (this.pending !== null && JSON.stringify(this.pendingKeys) === hash);
+    return group.row(this.groups);
+  }
+
+  close(): void {
+    this.pending = null;
+    this.child.close();
+  }
+
+  private advance(): void {
+    this.pending = this.child.next();
+    if (this.pending !== null) {
+      this.pendingKeys = groupKeys(this.groups, this.pending, this.params);
+    }
+  }
+}
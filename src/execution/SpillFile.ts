@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import { StringDecoder } from 'string_decoder';
+import { Row } from '../sql/expressions';
+
+const WRITE_BUFFER_BYTES = 64 * 1024;
+const READ_CHUNK_BYTES = 64 * 1024;
+
+let nextFileId = 0;
+
+/**
+ * A temp file of rows that did not fit in work_mem, one JSON document per
+ * line. Rows are written first and then read back in the order written.
+ * Files are named like PostgreSQL's (pgsql_tmp<pid>.<n>); the operator that
+ * creates one deletes it when it is done, including on errors.
+ */
+export class SpillFile {
+  readonly path: string;
+  /** Bytes of rows written, including those still buffered */
+  bytes = 0;
+  rowCount = 0;
+
+  private fd: number | null;
+  private buffer: string[] = [];
+  private buffered = 0;
+  private flushed = 0;
+
+  constructor(dir: string) {
+    fs.mkdirSync(dir, { recursive: true });
+    this.path = path.join(dir, `pgsql_tmp${process.pid}.${nextFileId++}`);
+    this.fd = fs.openSync(this.path, 'w+');
+  }
+
+  write(row: Row): void {
+    const line = JSON.stringify(row) + '\n';
+    this.buffer.push(line);
+    this.buffered += line.length;
+    this.bytes += Buffer.byteLength(line);
+    this.rowCount++;
+    if (this.buffered >= WRITE_BUFFER_BYTES) {
+      this.flush();
+    }
+  }
+
+  *rows(): IterableIterator<Row> {
+    this.flush();
+    const chunk = Buffer.alloc(READ_CHUNK_BYTES);
+    const decoder = new StringDecoder('utf8');  // a character may straddle two chunks
+    let position = 0;
+    let rest = '';
+
+    while (position < this.flushed) {
+      const read = fs.readSync(this.openFd(), chunk, 0, chunk.length, position);
+      position += read;
+      const lines = (rest + decoder.write(chunk.subarray(0, read))).split('\n');
+      rest = lines.pop()!;
+      for (const line of lines) {
+        yield JSON.parse(line);
+      }
+    }
+  }
+
+  delete(): void {
+    if (this.fd === null) return;
+    fs.closeSync(this.fd);
+    this.fd = null;
+    fs.rmSync(this.path, { force: true });
+  }
+
+  private flush(): void {
+    if (this.buffered === 0) return;
+    const data = Buffer.from(this.buffer.join(''), 'utf8');
+    fs.writeSync(this.openFd(), data, 0, data.length, this.flushed);
+    this.flushed += data.length;
+    this.buffer = [];
+    this.buffered = 0;
+  }
+
+  private openFd(): number {
+    if (this.fd === null) {
+      throw new Error(`Spill file ${this.path} has been deleted`);
+    }
+    return this.fd;
+  }
+}
+
+/** Rough memory a row takes, for work_mem accounting */
+export function rowBytes(row: Row): number {
+  return JSON.stringify(row).length;
+}
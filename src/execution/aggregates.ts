@@ -0,0 +1,95 @@
+import { AggregateExpression } from '../sql/ast';
+import { Row, evaluate, compareValues, typeName } from '../sql/expressions';
+import { OutputColumn } from './Projection';
+
+/** An aggregate call, computed per group and stored in the group's row under `name` */
+export interface AggregateColumn {
+  name: string;
+  call: AggregateExpression;
+}
+
+/** Running state of one aggregate call over the rows of one group */
+interface Accumulator {
+  add(value: any): void;
+  result(): any;
+}
+
+/**
+ * One group of input rows, reduced as they arrive: the group key values
+ * and the state of each aggregate. Both aggregate operators build rows
+ * with it, so they agree on every result.
+ */
+export class Group {
+  private accumulators: Accumulator[];
+
+  constructor(readonly keys: any[], private aggregates: AggregateColumn[]) {
+    this.accumulators = aggregates.map(({ call }) => accumulator(call));
+  }
+
+  add(row: Row, params: any[]): void {
+    this.aggregates.forEach(({ call }, i) => {
+      // count(*) counts rows, whatever they hold
+      this.accumulators[i].add(call.argument === null ? true : evaluate(call.argument, row, params));
+    });
+  }
+
+  /** The group's output row: key values and aggregate results by name */
+  row(groups: OutputColumn[]): Row {
+    const out: Row = {};
+    groups.forEach(({ name }, i) => { out[name] = this.keys[i]; });
+    this.aggregates.forEach(({ name }, i) => { out[name] = this.accumulators[i].result(); });
+    return out;
+  }
+}
+
+/** A row's group key values; NULLs group together */
+export function groupKeys(groups: OutputColumn[], row: Row, params: any[]): any[] {
+  return groups.map(({ expression }) => evaluate(expression, row, params));
+}
+
+/**
+ * Aggregates ignore NULL inputs. Over no values, count is 0 and the others
+ * are NULL, as in PostgreSQL. DISTINCT keeps the first of equal values.
+ */
+function accumulator(call: AggregateExpression): Accumulator {
+  const seen = call.distinct ? new Set<any>() : null;
+  let count = 0;
+  let sum = 0;
+  let extreme: any = null;
+
+  return {
+    add(value: any): void {
+      if (value === null) return;
+      if (seen) {
+        if (seen.has(value)) return;
+        seen.add(value);
+      }
+
+      switch (call.function) {
+        case 'sum':
+        case 'avg':
+          if (typeof value !== 'number') {
+            throw new Error(`Function ${call.function} needs numbers, got ${typeName(value)}`);
+          }
+          sum += value;
+          break;
+        case 'min':
+          if (extreme === null || compareValues(value, extreme) < 0) extreme = value;
+          break;
+        case 'max':
+          if (extreme === null || compareValues(value, extreme) > 0) extreme = value;
+          break;
+      }
+      count++;
+    },
+
+    result(): any {
+      switch (call.function) {
+        case 'count': return count;
+        case 'sum': return count === 0 ? null : sum;
+        case 'avg': return count === 0 ? null : sum / count;
+        default: return extreme;
+      }
+    },
+  };
+}
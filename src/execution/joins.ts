@@ -0,0 +1,52 @@
+import { Expression, JoinType } from '../sql/ast';
+import { Row, evaluate, isTrue } from '../sql/expressions';
+
+/**
+ * What a join operator matches and returns. Every join algorithm produces
+ * the same rows for the same condition; only the way candidate pairs are
+ * found differs.
+ */
+export interface JoinCondition {
+  type: JoinType;
+  /** Equi-join keys: rows match only if leftKeys[i] = rightKeys[i] for every i */
+  leftKeys: Expression[];
+  rightKeys: Expression[];
+  /** The rest of the ON condition, checked on each pair whose keys match */
+  residual: Expression | null;
+  /** Row keys of the right input's columns, NULL in a LEFT join's unmatched rows */
+  rightColumns: string[];
+}
+
+/** A row's join key values, or null if any is NULL: NULL equals nothing */
+export function keyOf(keys: Expression[], row: Row, params: any[]): any[] | null {
+  const values = keys.map(key => evaluate(key, row, params));
+  return values.includes(null) ? null : values;
+}
+
+/**
+ * Output for one left row, given the right rows whose keys equal its own.
+ * Inner and left joins return every pair that satisfies the residual
+ * condition; a left join returns an unmatched left row padded with NULLs.
+ * Semi and anti joins return the left row alone, if it has or lacks a
+ * match; they stop reading candidates at the first one.
+ */
+export function* joinRows(join: JoinCondition, left: Row, candidates: Iterable<Row>, params: any[]): IterableIterator<Row> {
+  let matched = false;
+
+  for (const right of candidates) {
+    const row = { ...left, ...right };
+    if (join.residual && !isTrue(evaluate(join.residual, row, params))) continue;
+
+    matched = true;
+    if (join.type === 'semi' || join.type === 'anti') break;
+    yield row;
+  }
+
+  if (matched ? join.type === 'semi' : join.type === 'anti') {
+    yield left;
+  } else if (!matched && join.type === 'left') {
+    const padded: Row = { ...left };
+    join.rightColumns.forEach(column => { padded[column] = null; });
+    yield padded;
+  }
+}
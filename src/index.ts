@@ -10,10 +10,11 @@ setLogLevel(logLevel as any);
 // Start metrics server FIRST
 const METRICS_PORT = 9090;
 try {
-  startMetricsServer(METRICS_PORT);
+  startMetricsServer(METRICS_PORT, () => db.getLocks());
   logger.info(`Metrics server started on port ${METRICS_PORT}`);
   logger.info(`Access metrics at: http://localhost:${METRICS_PORT}/metrics`);
   logger.info(`Health check at: http://localhost:${METRICS_PORT}/health`);
+  logger.info(`Row locks at: http://localhost:${METRICS_PORT}/locks`);
 } catch (error) {
   // FIXED: Handle unknown error type
   if (error instanceof Error) {
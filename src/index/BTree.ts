@@ -0,0 +1,195 @@
+import { compareKeys } from '../storage/keys';
+
+export type IndexValue = string | number | boolean | null;
+
+/** One index entry per row version: indexed value -> (primary key, xmin) */
+export interface IndexEntry {
+  indexKey: IndexValue;
+  primaryKey: string;
+  xmin: number;
+}
+
+interface LeafNode {
+  leaf: true;
+  entries: IndexEntry[];
+  next: LeafNode | null;  // leaf chain for range scans
+}
+
+interface InternalNode {
+  leaf: false;
+  keys: IndexEntry[];     // keys[i] is the first entry reachable through children[i + 1]
+  children: BTreeNode[];
+}
+
+type BTreeNode = LeafNode | InternalNode;
+
+interface Split {
+  separator: IndexEntry;
+  right: BTreeNode;
+}
+
+const DEFAULT_ORDER = 128;
+
+/**
+ * B+tree over index entries ordered by (indexKey, primaryKey, xmin), so
+ * several versions of the same row and many rows per value can coexist.
+ * Leaves are linked for range scans. Deletes do not rebalance; a leaf may
+ * be left underfull or empty until the index is rebuilt.
+ */
+export class BTree {
+  private root: BTreeNode = { leaf: true, entries: [], next: null };
+  private count = 0;
+
+  constructor(private readonly order: number = DEFAULT_ORDER) {
+    if (order < 3) throw new Error(`B-tree order must be at least 3, got ${order}`);
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  /** Add an entry; inserting an existing entry is a no-op */
+  insert(entry: IndexEntry): void {
+    const split = this.insertInto(this.root, entry);
+    if (split) {
+      this.root = { leaf: false, keys: [split.separator], children: [this.root, split.right] };
+    }
+  }
+
+  delete(entry: IndexEntry): boolean {
+    const leaf = this.findLeaf(entry);
+    const index = lowerBound(leaf.entries, entry);
+    if (index < leaf.entries.length && compareEntries(leaf.entries[index], entry) === 0) {
+      leaf.entries.splice(index, 1);
+      this.count--;
+      return true;
+    }
+    return false;
+  }
+
+  search(value: IndexValue): IndexEntry[] {
+    return Array.from(this.range(value, value));
+  }
+
+  /** Entries with min <= indexKey <= max in order; an undefined bound is open */
+  *range(min?: IndexValue, max?: IndexValue): IterableIterator<IndexEntry> {
+    const start: IndexEntry | null = min === undefined ? null : { indexKey: min, primaryKey: '', xmin: -Infinity };
+    let leaf: LeafNode | null = start ? this.findLeaf(start) : this.firstLeaf();
+    let index = start ? lowerBound(leaf.entries, start) : 0;
+
+    while (leaf) {
+      for (; index < leaf.entries.length; index++) {
+        const entry = leaf.entries[index];
+        if (max !== undefined && compareIndexValues(entry.indexKey, max) > 0) return;
+        yield entry;
+      }
+      leaf = leaf.next;
+      index = 0;
+    }
+  }
+
+  private insertInto(node: BTreeNode, entry: IndexEntry): Split | null {
+    if (node.leaf) {
+      const index = lowerBound(node.entries, entry);
+      if (index < node.entries.length && compareEntries(node.entries[index], entry) === 0) {
+        return null;
+      }
+      node.entries.splice(index, 0, entry);
+      this.count++;
+      if (node.entries.length <= this.order) return null;
+
+      const right: LeafNode = {
+        leaf: true,
+        entries: node.entries.splice(node.entries.length >> 1),
+        next: node.next,
+      };
+      node.next = right;
+      return { separator: right.entries[0], right };
+    }
+
+    const childIndex = upperBound(node.keys, entry);
+    const split = this.insertInto(node.children[childIndex], entry);
+    if (!split) return null;
+
+    node.keys.splice(childIndex, 0, split.separator);
+    node.children.splice(childIndex + 1, 0, split.right);
+    if (node.keys.length <= this.order) return null;
+
+    const mid = node.keys.length >> 1;
+    const separator = node.keys[mid];
+    const right: InternalNode = {
+      leaf: false,
+      keys: node.keys.slice(mid + 1),
+      children: node.children.slice(mid + 1),
+    };
+    node.keys = node.keys.slice(0, mid);
+    node.children = node.children.slice(0, mid + 1);
+    return { separator, right };
+  }
+
+  private findLeaf(entry: IndexEntry): LeafNode {
+    let node = this.root;
+    while (!node.leaf) {
+      node = node.children[upperBound(node.keys, entry)];
+    }
+    return node;
+  }
+
+  private firstLeaf(): LeafNode {
+    let node = this.root;
+    while (!node.leaf) node = node.children[0];
+    return node;
+  }
+}
+
+/**
+ * Total order over indexed values: null < booleans < numbers < strings.
+ * Values of the same type compare naturally.
+ */
+export function compareIndexValues(a: IndexValue, b: IndexValue): number {
+  const rankA = typeRank(a);
+  const rankB = typeRank(b);
+  if (rankA !== rankB) return rankA - rankB;
+  if (a === b || a === null) return 0;
+  if (typeof a === 'string') return compareKeys(a, b as string);
+  return a < b! ? -1 : 1;
+}
+
+export function compareEntries(a: IndexEntry, b: IndexEntry): number {
+  return compareIndexValues(a.indexKey, b.indexKey)
+    || compareKeys(a.primaryKey, b.primaryKey)
+    || a.xmin - b.xmin;
+}
+
+function typeRank(value: IndexValue): number {
+  if (value === null) return 0;
+  switch (typeof value) {
+    case 'boolean': return 1;
+    case 'number': return 2;
+    default: return 3;
+  }
+}
+
+/** First position whose entry is >= target */
+function lowerBound(entries: IndexEntry[], target: IndexEntry): number {
+  let lo = 0;
+  let hi = entries.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (compareEntries(entries[mid], target) < 0) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/** First position whose entry is > target */
+function upperBound(entries: IndexEntry[], target: IndexEntry): number {
+  let lo = 0;
+  let hi = entries.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (compareEntries(entries[mid], target) <= 0) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
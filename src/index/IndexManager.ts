@@ -0,0 +1,279 @@
+import fs from 'fs';
+import path from 'path';
+import { VersionedRow } from '../mvcc/VersionedRow';
+import { MVCCEngine } from '../mvcc/MVCCEngine';
+import { Transaction } from '../transaction/Transaction';
+import { StorageEngine } from '../storage/StorageEngine';
+import { SecondaryIndex, toIndexValue } from './SecondaryIndex';
+import { IndexEntry, IndexValue, compareEntries, compareIndexValues } from './BTree';
+import { UniqueViolationError } from '../db/errors';
+import { indexLogger } from '../utils/logger';
+
+const CATALOG_FILE = 'indexes.json';
+
+export interface IndexDefinition {
+  name: string;
+  fieldPath: string;
+  unique?: boolean;
+  /** Only rows whose keys start with this are indexed */
+  keyPrefix?: string;
+}
+
+export interface IndexRangeOptions {
+  /** Inclusive lower bound on the indexed value */
+  min?: any;
+  /** Inclusive upper bound on the indexed value */
+  max?: any;
+  limit?: number;
+}
+
+/**
+ * Secondary indexes (docs/designs/Indexing.md). Indexes are derived state:
+ * they are not WAL-logged, only their definitions are saved, and each one is
+ * rebuilt from storage when the database opens.
+ *
+ * Entries are added when a version is committed and never updated in place.
+ * Lookups fetch the version an entry points to and keep it only if it is
+ * visible to the caller's snapshot; entries whose version has been garbage
+ * collected are removed as they are found.
+ */
+export class IndexManager {
+  private log = indexLogger;
+  private indexes = new Map<string, SecondaryIndex>();
+
+  constructor(
+    private storage: StorageEngine,
+    private mvcc: MVCCEngine,
+    private dir?: string
+  ) {
+    for (const definition of this.loadCatalog()) {
+      this.build(definition);
+    }
+  }
+
+  /** Build and register an index; a unique index fails if live rows already collide */
+  create(name: string, fieldPath: string, unique: boolean = false, keyPrefix?: string): SecondaryIndex {
+    if (this.indexes.has(name)) {
+      throw new Error(`Index '${name}' already exists`);
+    }
+
+    const index = this.build({ name, fieldPath, unique, keyPrefix });
+    if (unique) {
+      const violation = this.findExistingDuplicate(index);
+      if (violation) {
+        this.indexes.delete(name);
+        throw violation;
+      }
+    }
+
+    this.saveCatalog();
+    return index;
+  }
+
+  get(name: string): SecondaryIndex {
+    const index = this.indexes.get(name);
+    if (!index) {
+      throw new Error(`Index '${name}' does not exist`);
+    }
+    return index;
+  }
+
+  list(): IndexDefinition[] {
+    return Array.from(this.indexes.values(), ({ name, fieldPath, unique, keyPrefix }) => ({ name, fieldPath, unique, keyPrefix }));
+  }
+
+  /** Index the new versions (not tombstones) of a committed transaction */
+  applyWrites(rows: Iterable<VersionedRow>): void {
+    if (this.indexes.size === 0) return;
+
+    for (const row of rows) {
+      if (row.xmax !== null) continue;
+      for (const index of this.indexes.values()) {
+        index.add(row);
+      }
+    }
+  }
+
+  /**
+   * First unique-index violation the transaction's new versions would cause,
+   * checked against live committed rows (visible or not), the transaction's
+   * own other writes, and transactions still waiting on a group fsync.
+   */
+  findUniqueViolation(txn: Transaction, pending: Transaction[]): UniqueViolationError | null {
+    const unique = Array.from(this.indexes.values()).filter(index => index.unique);
+    if (unique.length === 0) return null;
+
+    const newRows = liveWrites(txn);
+
+    for (const index of unique) {
+      const claimed = new Map<IndexValue, string>();  // value -> key within this transaction
+
+      for (const row of newRows) {
+        if (!index.covers(row.key)) continue;
+        const value = index.valueOf(row.data);
+        if (value === null) continue;
+
+        const owner = claimed.get(value);
+        if (owner !== undefined && owner !== row.key) {
+          return new UniqueViolationError(index.name, row.key, value);
+        }
+        claimed.set(value, row.key);
+
+        for (const entry of index.tree.search(value)) {
+          if (entry.primaryKey === row.key || deletedBy(txn, entry.primaryKey, entry.xmin)) continue;
+          const version = this.storage.getAllVersions(entry.primaryKey).find(v => v.xmin === entry.xmin);
+          if (version && version.xmax === null) {
+            return new UniqueViolationError(index.name, row.key, value);
+          }
+        }
+
+        for (const other of pending) {
+          const clash = liveWrites(other).some(
+            pendingRow =>
+              pendingRow.key !== row.key && index.covers(pendingRow.key) && index.valueOf(pendingRow.data) === value
+          );
+          if (clash) {
+            return new UniqueViolationError(index.name, row.key, value);
+          }
+        }
+      }
+    }
+    return null;
+  }
+
+  /** Versions visible to the transaction whose indexed value lies in [min, max], in index order */
+  findVisible(name: string, txn: Transaction, options: IndexRangeOptions = {}): VersionedRow[] {
+    const { limit = Infinity } = options;
+    const visible: VersionedRow[] = [];
+    if (limit <= 0) return visible;
+
+    for (const version of this.candidates(name, txn, options)) {
+      if (this.mvcc.isVisible(version, txn.snapshot)) {
+        visible.push(version);
+        if (visible.length >= limit) break;
+      }
+    }
+    return visible;
+  }
+
+  /**
+   * Versions whose indexed value lies in [min, max], in index order, left
+   * for the caller to check against its snapshot. The tree only holds
+   * committed versions, so the transaction's pending rows are merged in and
+   * the versions it has deleted or updated are left out. Produced lazily;
+   * dead entries met on the way are removed when the walk ends.
+   */
+  *candidates(name: string, txn: Transaction, options: IndexRangeOptions = {}): IterableIterator<VersionedRow> {
+    const index = this.get(name);
+    const min = options.min === undefined ? undefined : toIndexValue(options.min);
+    const max = options.max === undefined ? undefined : toIndexValue(options.max);
+    const inRange = (value: IndexValue) =>
+      (min === undefined || compareIndexValues(value, min) >= 0) &&
+      (max === undefined || compareIndexValues(value, max) <= 0);
+
+    const own = liveWrites(txn)
+      .filter(row => index.covers(row.key))
+      .map(row => ({ row, entry: index.entryFor(row) }))
+      .filter(({ entry }) => inRange(entry.indexKey))
+      .sort((a, b) => compareEntries(a.entry, b.entry));
+    let nextOwn = 0;
+    const dead: IndexEntry[] = [];
+
+    try {
+      for (const entry of index.tree.range(min, max)) {
+        while (nextOwn < own.length && compareEntries(own[nextOwn].entry, entry) < 0) {
+          yield own[nextOwn++].row;
+        }
+
+        const version = this.storage.getAllVersions(entry.primaryKey).find(row => row.xmin === entry.xmin);
+        if (!version) {
+          dead.push(entry);
+        } else if (!deletedBy(txn, entry.primaryKey, entry.xmin)) {
+          yield version;
+        }
+      }
+      for (; nextOwn < own.length; nextOwn++) {
+        yield own[nextOwn].row;
+      }
+    } finally {
+      // Not while the tree is being walked: deletes would shift its cursor
+      dead.forEach(entry => index.tree.delete(entry));
+      if (dead.length > 0) {
+        this.log.debug({ index: name, removed: dead.length, action: 'index_prune' }, `Removed dead index entries`);
+      }
+    }
+  }
+
+  private build(definition: IndexDefinition): SecondaryIndex {
+    const startTime = Date.now();
+    const index = new SecondaryIndex(definition.name, definition.fieldPath, definition.unique, definition.keyPrefix);
+
+    for (const [, versions] of this.storage.entries()) {
+      versions.forEach(row => index.add(row));
+    }
+    this.indexes.set(definition.name, index);
+
+    this.log.info({
+      index: definition.name,
+      fieldPath: definition.fieldPath,
+      entries: index.tree.size,
+      duration: Date.now() - startTime,
+      action: 'index_build'
+    }, `Index built`);
+
+    return index;
+  }
+
+  /** Two live rows already sharing a value of a new unique index */
+  private findExistingDuplicate(index: SecondaryIndex): UniqueViolationError | null {
+    let previous: IndexEntry | null = null;
+
+    for (const entry of index.tree.range()) {
+      if (entry.indexKey === null) continue;
+      const version = this.storage.getAllVersions(entry.primaryKey).find(v => v.xmin === entry.xmin);
+      if (!version || version.xmax !== null) continue;
+
+      if (previous && previous.indexKey === entry.indexKey && previous.primaryKey !== entry.primaryKey) {
+        return new UniqueViolationError(index.name, entry.primaryKey, entry.indexKey);
+      }
+      previous = entry;
+    }
+    return null;
+  }
+
+  private loadCatalog(): IndexDefinition[] {
+    if (!this.dir) return [];
+    const catalogPath = path.join(this.dir, CATALOG_FILE);
+    if (!fs.existsSync(catalogPath)) return [];
+    return JSON.parse(fs.readFileSync(catalogPath, 'utf8'));
+  }
+
+  private saveCatalog(): void {
+    if (!this.dir) return;
+
+    const catalogPath = path.join(this.dir, CATALOG_FILE);
+    const tmpPath = catalogPath + '.tmp';
+    const fd = fs.openSync(tmpPath, 'w');
+    try {
+      fs.writeSync(fd, JSON.stringify(this.list()));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, catalogPath);
+  }
+}
+
+/** Whether the transaction has a pending delete (or update) of the version (key, xmin) */
+function deletedBy(txn: Transaction, key: string, xmin: number): boolean {
+  return txn.getWrites().get(key)?.some(row => row.xmin === xmin && row.xmax === txn.id) ?? false;
+}
+
+/** New versions (not tombstones) in a transaction's write set */
+function liveWrites(txn: Transaction): VersionedRow[] {
+  const rows: VersionedRow[] = [];
+  for (const versions of txn.getWrites().values()) {
+    rows.push(...versions.filter(row => row.xmax === null));
+  }
+  return rows;
+}
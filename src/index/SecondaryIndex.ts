@@ -0,0 +1,70 @@
+import { VersionedRow } from '../mvcc/VersionedRow';
+import { BTree, IndexEntry, IndexValue } from './BTree';
+
+/**
+ * Index over one field of row data, addressed by a dotted path such as
+ * 'address.city'. Every row version gets an entry (missing fields index as
+ * null), so older snapshots can still find the versions they see.
+ *
+ * A unique index allows at most one live row per non-null value; NULLs
+ * never conflict with each other.
+ *
+ * An index with a key prefix (such as a SQL table's) covers only the rows
+ * whose keys start with it; the rest get no entries.
+ */
+export class SecondaryIndex {
+  readonly tree: BTree;
+  private readonly path: string[];
+
+  constructor(
+    readonly name: string,
+    readonly fieldPath: string,
+    readonly unique: boolean = false,
+    readonly keyPrefix?: string,
+    order?: number
+  ) {
+    if (!fieldPath || fieldPath.split('.').some(part => part === '')) {
+      throw new Error(`Invalid index field path '${fieldPath}'`);
+    }
+    this.path = fieldPath.split('.');
+    this.tree = new BTree(order);
+  }
+
+  /** Indexed value of a row's data */
+  valueOf(data: any): IndexValue {
+    let value = data;
+    for (const part of this.path) {
+      if (value === null || typeof value !== 'object') return null;
+      value = value[part];
+    }
+    return toIndexValue(value);
+  }
+
+  /** Whether rows with this key belong in the index */
+  covers(key: string): boolean {
+    return this.keyPrefix === undefined || key.startsWith(this.keyPrefix);
+  }
+
+  add(row: VersionedRow): void {
+    if (this.covers(row.key)) {
+      this.tree.insert(this.entryFor(row));
+    }
+  }
+
+  entryFor(row: VersionedRow): IndexEntry {
+    return { indexKey: this.valueOf(row.data), primaryKey: row.key, xmin: row.xmin };
+  }
+}
+
+/** Scalars index as themselves; objects and arrays by their JSON text */
+export function toIndexValue(value: any): IndexValue {
+  if (value === undefined || value === null) return null;
+  switch (typeof value) {
+    case 'string':
+    case 'number':
+    case 'boolean':
+      return value;
+    default:
+      return JSON.stringify(value);
+  }
+}
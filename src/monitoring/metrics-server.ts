@@ -1,8 +1,10 @@
 import http from 'http';
 import { logger } from '../utils/logger';
 import { register } from './metrics';
+import { LockInfo } from '../transaction/LockManager';
 
-export function startMetricsServer(port: number = 9090) {
+/** lockView supplies the /locks endpoint, typically () => db.getLocks() */
+export function startMetricsServer(port: number = 9090, lockView?: () => LockInfo[]) {
   const server = http.createServer(async (req, res) => {
     // Only handle /metrics endpoint
     if (req.url === '/metrics' && req.method === 'GET') {
@@ -30,6 +32,20 @@ export function startMetricsServer(port: number = 9090) {
       return;
     }
     
+    // Row lock holders and waiters
+    if (req.url === '/locks' && req.method === 'GET' && lockView) {
+      try {
+        const locks = lockView();
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ locks, timestamp: new Date().toISOString() }));
+      } catch (error) {
+        logger.error({ error }, 'Failed to get locks');
+        res.writeHead(500);
+        res.end('Error getting locks');
+      }
+      return;
+    }
+    
     // Everything else gets 404
     res.writeHead(404);
     res.end();
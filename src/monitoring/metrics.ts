@@ -45,6 +45,146 @@ export const dbMetrics = {
   memoryUsage: new client.Gauge({
     name: 'db_memory_bytes',
     help: 'Memory used by database in bytes'
+  }),
+
+  // WAL flush (write + fsync) latency
+  walFsyncTime: new client.Histogram({
+    name: 'db_wal_fsync_duration_seconds',
+    help: 'How long WAL flushes take, including fsync',
+    buckets: [0.0005, 0.001, 0.005, 0.01, 0.05, 0.1, 0.5] // seconds
+  }),
+
+  // Bytes appended to the WAL
+  walBytesWritten: new client.Counter({
+    name: 'db_wal_bytes_written_total',
+    help: 'Bytes written to the write-ahead log'
+  }),
+
+  // Records replayed during crash recovery
+  walRecordsReplayed: new client.Counter({
+    name: 'db_wal_records_replayed_total',
+    help: 'WAL records replayed during recovery'
+  }),
+
+  // Completed checkpoints
+  checkpointsTotal: new client.Counter({
+    name: 'db_checkpoints_total',
+    help: 'Checkpoints written'
+  }),
+
+  // Time to write a checkpoint and truncate the WAL
+  checkpointTime: new client.Histogram({
+    name: 'db_checkpoint_duration_seconds',
+    help: 'How long checkpoints take',
+    buckets: [0.001, 0.01, 0.1, 0.5, 1, 5] // seconds
+  }),
+
+  // Transactions sharing one group-commit fsync
+  groupCommitBatchSize: new client.Histogram({
+    name: 'db_group_commit_batch_size',
+    help: 'Transactions flushed per group commit',
+    buckets: [1, 2, 4, 8, 16, 32, 64, 128]
+  }),
+
+  // Time from commitAsync() to durable
+  groupCommitLatency: new client.Histogram({
+    name: 'db_group_commit_latency_seconds',
+    help: 'How long transactions wait for their group commit fsync',
+    buckets: [0.0005, 0.001, 0.005, 0.01, 0.05, 0.1, 0.5] // seconds
+  }),
+
+  // SERIALIZABLE commits rejected by SSI
+  serializationFailures: new client.Counter({
+    name: 'db_serialization_failures_total',
+    help: 'Serializable transactions aborted for rw-antidependency cycles'
+  }),
+
+  // Row lock requests (SELECT FOR UPDATE / FOR SHARE) that had to queue
+  lockWaits: new client.Counter({
+    name: 'db_lock_waits_total',
+    help: 'Row lock requests that waited behind a conflicting holder',
+    labelNames: ['mode']
+  }),
+
+  deadlocks: new client.Counter({
+    name: 'db_deadlocks_total',
+    help: 'Lock wait cycles broken by aborting a victim transaction'
+  }),
+
+  lockTimeouts: new client.Counter({
+    name: 'db_lock_timeouts_total',
+    help: 'Row lock requests that gave up after lockTimeoutMs'
+  }),
+
+  transactionsTerminated: new client.Counter({
+    name: 'db_transactions_terminated_total',
+    help: 'Transactions aborted by the reaper for exceeding a timeout',
+    labelNames: ['reason']
+  }),
+
+  // Pages held by the transaction status table
+  commitTablePages: new client.Gauge({
+    name: 'db_commit_table_pages',
+    help: 'Transaction status pages currently retained'
+  }),
+
+  // LSM storage: MemTable flushes to level-0 SSTables
+  lsmFlushesTotal: new client.Counter({
+    name: 'db_lsm_memtable_flushes_total',
+    help: 'MemTable flushes to SSTables'
+  }),
+
+  lsmMemTableBytes: new client.Gauge({
+    name: 'db_lsm_memtable_bytes',
+    help: 'Estimated size of the active MemTable in bytes'
+  }),
+
+  lsmSSTables: new client.Gauge({
+    name: 'db_lsm_sstables',
+    help: 'Live SSTables across all levels'
+  }),
+
+  // LSM compaction
+  lsmCompactionsTotal: new client.Counter({
+    name: 'db_lsm_compactions_total',
+    help: 'SSTable compactions completed',
+    labelNames: ['strategy']
+  }),
+
+  lsmCompactionBytes: new client.Counter({
+    name: 'db_lsm_compaction_bytes_total',
+    help: 'Bytes read and written by compaction',
+    labelNames: ['direction']
+  }),
+
+  lsmCompactionVersionsDropped: new client.Counter({
+    name: 'db_lsm_compaction_versions_dropped_total',
+    help: 'Obsolete row versions removed by compaction'
+  }),
+
+  lsmWriteAmplification: new client.Gauge({
+    name: 'db_lsm_write_amplification',
+    help: 'SSTable bytes written (flush + compaction) per byte flushed'
+  }),
+
+  // SSTable bloom filters: miss = block read skipped, false_positive = read found nothing
+  lsmBloomFilterChecks: new client.Counter({
+    name: 'db_lsm_bloom_filter_checks_total',
+    help: 'SSTable point lookups checked against a bloom filter, by outcome',
+    labelNames: ['result']
+  }),
+
+  // Query operators that outgrew work_mem: operator = sort | hash_join
+  querySpills: new client.Counter({
+    name: 'db_query_spills_total',
+    help: 'Times a query operator spilled rows to temp files',
+    labelNames: ['operator']
+  }),
+
+  querySpillBytes: new client.Counter({
+    name: 'db_query_spill_bytes_total',
+    help: 'Bytes query operators wrote to temp files',
+    labelNames: ['operator']
   })
 };
 
@@ -55,5 +195,28 @@ register.registerMetric(dbMetrics.transactionsAborted);
 register.registerMetric(dbMetrics.queryTime);
 register.registerMetric(dbMetrics.activeTransactions);
 register.registerMetric(dbMetrics.memoryUsage);
+register.registerMetric(dbMetrics.walFsyncTime);
+register.registerMetric(dbMetrics.walBytesWritten);
+register.registerMetric(dbMetrics.walRecordsReplayed);
+register.registerMetric(dbMetrics.checkpointsTotal);
+register.registerMetric(dbMetrics.checkpointTime);
+register.registerMetric(dbMetrics.groupCommitBatchSize);
+register.registerMetric(dbMetrics.groupCommitLatency);
+register.registerMetric(dbMetrics.serializationFailures);
+register.registerMetric(dbMetrics.lockWaits);
+register.registerMetric(dbMetrics.deadlocks);
+register.registerMetric(dbMetrics.lockTimeouts);
+register.registerMetric(dbMetrics.transactionsTerminated);
+register.registerMetric(dbMetrics.commitTablePages);
+register.registerMetric(dbMetrics.lsmFlushesTotal);
+register.registerMetric(dbMetrics.lsmMemTableBytes);
+register.registerMetric(dbMetrics.lsmSSTables);
+register.registerMetric(dbMetrics.lsmCompactionsTotal);
+register.registerMetric(dbMetrics.lsmCompactionBytes);
+register.registerMetric(dbMetrics.lsmCompactionVersionsDropped);
+register.registerMetric(dbMetrics.lsmWriteAmplification);
+register.registerMetric(dbMetrics.lsmBloomFilterChecks);
+register.registerMetric(dbMetrics.querySpills);
+register.registerMetric(dbMetrics.querySpillBytes);
 
 export { register };
\ No newline at end of file
@@ -1,10 +1,10 @@
 // import { Transaction } from '../transaction/Transaction';
 // import { CommitTable } from '../transaction/CommitTable';
-// import { SimpleStorage } from '../storage/SimpleStorage';
+// import { StorageEngine } from '../storage/StorageEngine';
 
 // export class ConflictDetector {
 //   constructor(
-//     private storage: SimpleStorage,
+//     private storage: StorageEngine,
 //     private commitTable: CommitTable
 //   ) {}
 
@@ -37,12 +37,12 @@
 // }
 
 
-import { CommitTable } from '../transaction/CommitTable';
+import { CommitTable, TxnStatus } from '../transaction/CommitTable';
 import { Transaction } from '../transaction/Transaction';
-import { SimpleStorage } from '../storage/SimpleStorage';
+import { StorageEngine } from '../storage/StorageEngine';
 
 export class ConflictDetector {
-  constructor(private storage: SimpleStorage, private commitTable: CommitTable) {}
+  constructor(private storage: StorageEngine, private commitTable: CommitTable) {}
 
 //   detectConflict(txn: Transaction): string | null {
 //     for (const key of txn.getWrites().keys()) {
@@ -89,7 +89,7 @@ detectConflict(txn: Transaction): string | null {
         if (row.xmin === txn.id) continue;
   
         if (
-          this.commitTable.isCommitted(row.xmin) &&
+          this.commitTable.getStatus(row.xmin) === TxnStatus.COMMITTED &&
           row.xmin >= txn.snapshot.xmin
         ) {
           return `Write-write conflict on key '${key}'`;
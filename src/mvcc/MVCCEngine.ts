@@ -51,7 +51,7 @@
 // mvcc/MVCCEngine.ts
 import { VersionedRow } from './VersionedRow';
 import { Snapshot } from '../transaction/Snapshot';
-import { CommitTable } from '../transaction/CommitTable';
+import { CommitTable, TxnStatus } from '../transaction/CommitTable';
 import { mvccLogger } from '../utils/logger';  // Add this import
 
 export class MVCCEngine {
@@ -145,7 +145,7 @@ export class MVCCEngine {
         txnId,
         snapshotXmax: snapshot.xmax,
         activeTxns: Array.from(snapshot.activeTxns),
-        commitStatus: this.commitTable.isCommitted(txnId)
+        commitStatus: TxnStatus[this.commitTable.getStatus(txnId)]
       }, `Checking transaction visibility`);
     }
 
@@ -175,8 +175,8 @@ export class MVCCEngine {
       return false; // Was active/uncommitted
     }
     
-    // 3. It's COMMITTED
-    const isCommitted = this.commitTable.isCommitted(txnId);
+    // 3. It's COMMITTED according to the commit table
+    const isCommitted = this.commitTable.getStatus(txnId) === TxnStatus.COMMITTED;
     
     if (this.log.level === 'debug') {
       this.log.debug({
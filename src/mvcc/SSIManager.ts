@@ -0,0 +1,124 @@
+import { Transaction, IsolationLevel } from '../transaction/Transaction';
+import { mvccLogger } from '../utils/logger';
+
+interface SerializableTxn {
+  txn: Transaction;
+  /** Some concurrent transaction read a key this one wrote (T' -rw-> T) */
+  inConflict: boolean;
+  /** This transaction read a key that a concurrent, committed one wrote (T -rw-> T') */
+  outConflict: boolean;
+  /** nextTxnId when it committed; unset while running */
+  commitSeq?: number;
+}
+
+/**
+ * Serializable Snapshot Isolation (Cahill et al.). Tracks rw-antidependencies
+ * between concurrent SERIALIZABLE transactions using their read sets
+ * (Transaction.addRead) and write sets, and rejects a commit that would
+ * complete a dangerous structure T1 -rw-> T2 -rw-> T3 in which T3 committed
+ * first:
+ *   - the committer has an incoming rw edge and an outgoing one to a
+ *     committed transaction, or
+ *   - it reads from an already committed pivot with such an outgoing edge.
+ * Waiting for T3 to commit means the first committer of a write skew wins.
+ *
+ * Committed transactions are kept until no transaction that overlapped them
+ * is still running. Reads are tracked per key, so phantoms (rows inserted
+ * into a scanned range) are not detected.
+ */
+export class SSIManager {
+  private log = mvccLogger;
+  private txns = new Map<number, SerializableTxn>();
+
+  register(txn: Transaction): void {
+    if (txn.isolationLevel !== IsolationLevel.SERIALIZABLE) return;
+    this.txns.set(txn.id, { txn, inConflict: false, outConflict: false });
+  }
+
+  /**
+   * Check a committing transaction. Returns a failure message, or records
+   * its rw edges and marks it committed as of commitSeq.
+   */
+  validateCommit(txn: Transaction, commitSeq: number): string | null {
+    const self = this.txns.get(txn.id);
+    if (!self) return null;
+
+    const incoming: SerializableTxn[] = [];
+    const outgoing: SerializableTxn[] = [];
+
+    for (const other of this.txns.values()) {
+      if (other === self || !this.overlaps(self, other)) continue;
+      if (intersects(txn.getReads(), other.txn.getWrites())) outgoing.push(other);
+      if (intersects(other.txn.getReads(), txn.getWrites())) incoming.push(other);
+    }
+
+    const inConflict = self.inConflict || incoming.length > 0;
+    const outConflict = self.outConflict || outgoing.some(other => other.commitSeq !== undefined);
+    const pivot = outgoing.find(other => other.commitSeq !== undefined && other.outConflict);
+
+    if ((inConflict && outConflict) || pivot) {
+      this.log.warn({
+        txId: txn.id,
+        inConflict,
+        outConflict,
+        pivot: pivot?.txn.id,
+        action: 'ssi_abort'
+      }, `Dangerous structure of rw-antidependencies`);
+      return `Could not serialize access due to read/write dependencies among transactions (txn ${txn.id})`;
+    }
+
+    self.inConflict = inConflict;
+    self.outConflict = outConflict;
+    self.commitSeq = commitSeq;
+    incoming.forEach(other => { other.outConflict = true; });
+    outgoing.forEach(other => { other.inConflict = true; });
+    return null;
+  }
+
+  /**
+   * Whether a read-only transaction's snapshot is safe, given the read-write
+   * SERIALIZABLE transactions that were running when it was taken, all of
+   * which have since finished. It is unless one of them committed with an rw
+   * edge out to a committed transaction, the only way a reader could still
+   * end up in a dangerous structure. Edges are not kept per target, so any
+   * such edge counts.
+   */
+  isSafeSnapshot(concurrent: Transaction[]): boolean {
+    return concurrent.every(txn => {
+      const entry = this.txns.get(txn.id);
+      return !entry || !entry.outConflict;  // aborted ones are released
+    });
+  }
+
+  /** Forget an aborted transaction */
+  release(txn: Transaction): void {
+    this.txns.delete(txn.id);
+  }
+
+  /** Drop committed transactions that no running transaction overlaps */
+  prune(oldestActiveTxnId: number): void {
+    for (const [id, entry] of this.txns) {
+      if (entry.commitSeq !== undefined && entry.commitSeq <= oldestActiveTxnId) {
+        this.txns.delete(id);
+      }
+    }
+  }
+
+  getTrackedCount(): number {
+    return this.txns.size;
+  }
+
+  /** A committed transaction overlaps another if it committed after that one began */
+  private overlaps(a: SerializableTxn, b: SerializableTxn): boolean {
+    if (a.commitSeq !== undefined && a.commitSeq <= b.txn.id) return false;
+    if (b.commitSeq !== undefined && b.commitSeq <= a.txn.id) return false;
+    return true;
+  }
+}
+
+function intersects(reads: Set<string>, writes: Map<string, unknown>): boolean {
+  for (const key of reads) {
+    if (writes.has(key)) return true;
+  }
+  return false;
+}
@@ -0,0 +1,45 @@
+import { VersionedRow } from './VersionedRow';
+import { Transaction } from '../transaction/Transaction';
+import { StorageEngine } from '../storage/StorageEngine';
+import { compareKeys } from '../storage/keys';
+
+/**
+ * Committed versions of key as the transaction sees them with its own
+ * pending writes applied: versions it deleted or updated are left out and
+ * its new row comes first, where isVisible's self rule accepts it.
+ */
+export function versionsFor(txn: Transaction, key: string, committed: VersionedRow[]): VersionedRow[] {
+  const own = txn.getWrites().get(key);
+  if (!own) return committed;
+
+  const kept = committed.filter(row => !own.some(write => write.xmin === row.xmin));
+  return [...own.filter(write => write.xmin === txn.id), ...kept];
+}
+
+/** Keys the transaction has written that storage does not hold yet */
+export function keysOnlyWritten(txn: Transaction, storage: StorageEngine): string[] {
+  return Array.from(txn.getWrites().keys()).filter(key => storage.getAllVersions(key).length === 0);
+}
+
+/** Storage entries in scan order, overlaid with own writes and merged with ownKeys */
+export function* withOwnWrites(
+  txn: Transaction,
+  entries: Iterable<[string, VersionedRow[]]>,
+  ownKeys: string[],
+  reverse: boolean
+): IterableIterator<[string, VersionedRow[]]> {
+  const direction = reverse ? -1 : 1;
+  const pending = [...ownKeys].sort((a, b) => direction * compareKeys(a, b));
+  let next = 0;
+
+  for (const [key, versions] of entries) {
+    while (next < pending.length && direction * compareKeys(pending[next], key) < 0) {
+      const ownKey = pending[next++];
+      yield [ownKey, versionsFor(txn, ownKey, [])];
+    }
+    yield [key, versionsFor(txn, key, versions)];
+  }
+  for (; next < pending.length; next++) {
+    yield [pending[next], versionsFor(txn, pending[next], [])];
+  }
+}
@@ -0,0 +1,117 @@
+import fs from 'fs';
+import path from 'path';
+import { ColumnDefinition } from './ast';
+import { Row, columnKey } from './expressions';
+import { sqlLogger } from '../utils/logger';
+
+const CATALOG_FILE = 'tables.json';
+
+export interface TableDefinition {
+  name: string;
+  columns: ColumnDefinition[];
+  primaryKey: string;
+}
+
+/**
+ * Table definitions for the SQL layer. A table is a key range: each row is
+ * stored under `<table>/<primary key>` with its columns as the row data.
+ * Like index definitions, tables are created outside any transaction and
+ * saved as soon as they are created.
+ */
+export class TableCatalog {
+  private log = sqlLogger;
+  private tables = new Map<string, TableDefinition>();
+
+  constructor(private dir?: string) {
+    for (const table of this.loadCatalog()) {
+      this.tables.set(table.name, table);
+    }
+  }
+
+  /** Register a table; returns false if it exists and ifNotExists is set */
+  create(name: string, columns: ColumnDefinition[], ifNotExists: boolean = false): boolean {
+    if (this.tables.has(name)) {
+      if (ifNotExists) return false;
+      throw new Error(`Table '${name}' already exists`);
+    }
+
+    const seen = new Set<string>();
+    for (const column of columns) {
+      if (seen.has(column.name)) {
+        throw new Error(`Column '${column.name}' specified more than once`);
+      }
+      seen.add(column.name);
+    }
+    const keys = columns.filter(column => column.primaryKey);
+    if (keys.length !== 1) {
+      throw new Error(`Table '${name}' needs exactly one PRIMARY KEY column, got ${keys.length}`);
+    }
+
+    this.tables.set(name, { name, columns, primaryKey: keys[0].name });
+    this.saveCatalog();
+
+    this.log.info({
+      table: name,
+      columns: columns.length,
+      primaryKey: keys[0].name,
+      action: 'create_table'
+    }, `Table created`);
+    return true;
+  }
+
+  get(name: string): TableDefinition {
+    const table = this.tables.get(name);
+    if (!table) {
+      throw new Error(`Table '${name}' does not exist`);
+    }
+    return table;
+  }
+
+  list(): TableDefinition[] {
+    return Array.from(this.tables.values());
+  }
+
+  private loadCatalog(): TableDefinition[] {
+    if (!this.dir) return [];
+    const catalogPath = path.join(this.dir, CATALOG_FILE);
+    if (!fs.existsSync(catalogPath)) return [];
+    return JSON.parse(fs.readFileSync(catalogPath, 'utf8'));
+  }
+
+  private saveCatalog(): void {
+    if (!this.dir) return;
+
+    const catalogPath = path.join(this.dir, CATALOG_FILE);
+    const tmpPath = catalogPath + '.tmp';
+    const fd = fs.openSync(tmpPath, 'w');
+    try {
+      fs.writeSync(fd, JSON.stringify(this.list()));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, catalogPath);
+  }
+}
+
+/** Key prefix shared by every row of a table */
+export function tablePrefix(table: string): string {
+  return `${table}/`;
+}
+
+/** Storage key of the row with the given primary key value */
+export function rowKey(table: string, primaryKey: unknown): string {
+  return tablePrefix(table) + String(primaryKey);
+}
+
+/**
+ * A stored row's data as a row of the table, with absent columns as NULL.
+ * With a qualifier the columns are keyed `qualifier.column`.
+ */
+export function tableRow(table: TableDefinition, data: Record<string, any>, qualifier: string | null = null): Row {
+  const row: Row = {};
+  table.columns.forEach(({ name }) => {
+    row[columnKey({ type: 'column', table: qualifier, name })] = data[name] ?? null;
+  });
+  return row;
+}
@@ -0,0 +1,169 @@
+import { SqlSyntaxError } from '../db/errors';
+
+export enum TokenType {
+  IDENTIFIER = 'identifier',
+  KEYWORD = 'keyword',
+  NUMBER = 'number',
+  STRING = 'string',
+  PARAMETER = 'parameter',
+  OPERATOR = 'operator',
+  PUNCTUATION = 'punctuation',
+  EOF = 'eof',
+}
+
+export interface Token {
+  type: TokenType;
+  /** Keywords are upper-cased, unquoted identifiers lower-cased */
+  value: string;
+  /** Source text, for error messages */
+  text: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Reserved words, which cannot name a table or column unless quoted. Other
+ * words the grammar uses (VALUES, SET, KEY, ...) are identifiers the parser
+ * recognizes where it expects them, as in PostgreSQL.
+ */
+const RESERVED = new Set([
+  'AND', 'AS', 'ASC', 'CREATE', 'DESC', 'DISTINCT', 'FALSE', 'FROM', 'GROUP',
+  'HAVING', 'IN', 'INNER', 'INTO', 'IS', 'JOIN', 'LEFT', 'LIMIT', 'NOT', 'NULL',
+  'ON', 'OR', 'ORDER', 'OUTER', 'PRIMARY', 'SELECT', 'TABLE', 'TRUE', 'WHERE',
+]);
+
+const OPERATORS = ['<>', '!=', '<=', '>=', '=', '<', '>', '+', '-', '*', '/'];
+const PUNCTUATION = new Set(['(', ')', ',', ';', '.']);
+
+/**
+ * Split SQL text into tokens, tracking the line and column each starts at.
+ * Whitespace and comments (-- to end of line, /* ... *\/) are skipped.
+ * Unquoted identifiers fold to lower case; "quoted" ones keep their case.
+ */
+export function tokenize(sql: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+  let line = 1;
+  let lineStart = 0;
+
+  function fail(detail: string, at: number): never {
+    throw new SqlSyntaxError(detail, line, at - lineStart + 1);
+  }
+
+  // Move past sql[pos, end), counting newlines
+  function advance(end: number): void {
+    for (; pos < end; pos++) {
+      if (sql[pos] === '\n') {
+        line++;
+        lineStart = pos + 1;
+      }
+    }
+  }
+
+  while (pos < sql.length) {
+    const ch = sql[pos];
+
+    if (/\s/.test(ch)) {
+      advance(pos + 1);
+      continue;
+    }
+    if (sql.startsWith('--', pos)) {
+      const end = sql.indexOf('\n', pos);
+      advance(end === -1 ? sql.length : end);
+      continue;
+    }
+    if (sql.startsWith('/*', pos)) {
+      const end = sql.indexOf('*/', pos + 2);
+      if (end === -1) fail('Unterminated comment', pos);
+      advance(end + 2);
+      continue;
+    }
+
+    const start = pos;
+    const startLine = line;
+    const column = pos - lineStart + 1;
+    const push = (type: TokenType, value: string, end: number) => {
+      const text = sql.slice(start, end);
+      advance(end);
+      tokens.push({ type, value, text, line: startLine, column });
+    };
+
+    if (/[A-Za-z_]/.test(ch)) {
+      let end = pos + 1;
+      while (end < sql.length && /[A-Za-z0-9_]/.test(sql[end])) end++;
+      const word = sql.slice(pos, end);
+      if (RESERVED.has(word.toUpperCase())) {
+        push(TokenType.KEYWORD, word.toUpperCase(), end);
+      } else {
+        push(TokenType.IDENTIFIER, word.toLowerCase(), end);
+      }
+      continue;
+    }
+
+    if (ch === '"') {
+      const { value, end } = readQuoted(sql, pos, '"');
+      if (end === -1) fail('Unterminated quoted identifier', pos);
+      if (value === '') fail('Zero-length quoted identifier', pos);
+      push(TokenType.IDENTIFIER, value, end);
+      continue;
+    }
+
+    if (ch === "'") {
+      const { value, end } = readQuoted(sql, pos, "'");
+      if (end === -1) fail('Unterminated string literal', pos);
+      push(TokenType.STRING, value, end);
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(sql[pos + 1] ?? ''))) {
+      const match = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(sql.slice(pos))!;
+      const end = pos + match[0].length;
+      if (/[A-Za-z_]/.test(sql[end] ?? '')) fail('Trailing junk after numeric literal', end);
+      push(TokenType.NUMBER, match[0], end);
+      continue;
+    }
+
+    if (ch === '$') {
+      const match = /^\$(\d+)/.exec(sql.slice(pos));
+      if (!match) fail('Expected a parameter number after "$"', pos);
+      push(TokenType.PARAMETER, match[1], pos + match[0].length);
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => sql.startsWith(op, pos));
+    if (operator) {
+      push(TokenType.OPERATOR, operator === '!=' ? '<>' : operator, pos + operator.length);
+      continue;
+    }
+
+    if (PUNCTUATION.has(ch)) {
+      push(TokenType.PUNCTUATION, ch, pos + 1);
+      continue;
+    }
+
+    fail(`Unexpected character "${ch}"`, pos);
+  }
+
+  tokens.push({ type: TokenType.EOF, value: '', text: '', line, column: pos - lineStart + 1 });
+  return tokens;
+}
+
+/** Whether the token is the given word, reserved or not; a quoted identifier never is */
+export function isWord(token: Token, word: string): boolean {
+  if (token.type === TokenType.KEYWORD) return token.value === word;
+  return token.type === TokenType.IDENTIFIER && !token.text.startsWith('"') && token.value === word.toLowerCase();
+}
+
+/** Read a quoted run starting at `start`; a doubled quote stands for one. end is -1 if unterminated. */
+function readQuoted(sql: string, start: number, quote: string): { value: string; end: number } {
+  let value = '';
+  let pos = start + 1;
+  while (pos < sql.length) {
+    if (sql[pos] === quote) {
+      if (sql[pos + 1] !== quote) return { value, end: pos + 1 };
+      pos++;
+    }
+    value += sql[pos++];
+  }
+  return { value, end: -1 };
+}
@@ -0,0 +1,557 @@
+import { SqlSyntaxError } from '../db/errors';
+import { IsolationLevel } from '../transaction/Transaction';
+import { Token, TokenType, tokenize, isWord } from './Lexer';
+import {
+  Statement,
+  BeginStatement,
+  CreateTableStatement,
+  ColumnDefinition,
+  DataType,
+  InsertStatement,
+  UpdateStatement,
+  DeleteStatement,
+  SelectStatement,
+  SelectItem,
+  TableReference,
+  JoinClause,
+  JoinType,
+  OrderByItem,
+  Expression,
+  BinaryOperator,
+  AggregateExpression,
+  AggregateFunction,
+} from './ast';
+
+/** Type names accepted by CREATE TABLE, by the storage type they map to */
+const TYPE_NAMES: Record<string, DataType> = {
+  int: 'integer', integer: 'integer', bigint: 'integer', smallint: 'integer',
+  real: 'real', float: 'real', double: 'real', numeric: 'real', decimal: 'real',
+  text: 'text', varchar: 'text', char: 'text', character: 'text',
+  boolean: 'boolean', bool: 'boolean',
+};
+
+const COMPARISONS = new Set(['=', '<>', '<', '<=', '>', '>=']);
+
+/** The functions there are: name(...) is an aggregate call or an error */
+const AGGREGATES = new Set<string>(['count', 'sum', 'avg', 'min', 'max']);
+
+/** Parse one SQL statement (an optional trailing semicolon is allowed) */
+export function parse(sql: string): Statement {
+  return new Parser(tokenize(sql)).parseStatement();
+}
+
+/**
+ * Recursive-descent parser over the lexer's tokens. Expression precedence,
+ * loosest first: OR, AND, NOT, comparisons / IS NULL / IN, + and -, * and
+ * /, unary minus. Comparisons do not chain.
+ */
+class Parser {
+  private pos = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parseStatement(): Statement {
+    const statement = this.statement();
+    this.acceptPunctuation(';');
+    if (this.peek().type !== TokenType.EOF) {
+      this.fail('Expected end of statement');
+    }
+    return statement;
+  }
+
+  private statement(): Statement {
+    const token = this.peek();
+    if (isWord(token, 'BEGIN')) return this.begin();
+    if (isWord(token, 'START')) {
+      this.next();
+      this.expectWord('TRANSACTION');
+      return this.transactionModes();
+    }
+    if (isWord(token, 'COMMIT') || isWord(token, 'END')) {
+      this.next();
+      this.acceptTransactionNoise();
+      return { type: 'commit' };
+    }
+    if (isWord(token, 'ROLLBACK') || isWord(token, 'ABORT')) {
+      this.next();
+      this.acceptTransactionNoise();
+      return { type: 'rollback' };
+    }
+    if (isWord(token, 'CREATE')) return this.createTable();
+    if (isWord(token, 'INSERT')) return this.insert();
+    if (isWord(token, 'UPDATE')) return this.update();
+    if (isWord(token, 'DELETE')) return this.delete();
+    if (isWord(token, 'SELECT')) return this.select();
+    return this.fail('Expected a statement');
+  }
+
+  private begin(): BeginStatement {
+    this.expectWord('BEGIN');
+    this.acceptTransactionNoise();
+    return this.transactionModes();
+  }
+
+  /** [ISOLATION LEVEL level] [READ ONLY | READ WRITE], in any order, optionally comma-separated */
+  private transactionModes(): BeginStatement {
+    const statement: BeginStatement = { type: 'begin' };
+    let first = true;
+
+    while (this.peek().type !== TokenType.EOF && !this.isPunctuation(';')) {
+      if (!first) this.acceptPunctuation(',');
+      first = false;
+
+      if (this.acceptWord('ISOLATION')) {
+        this.expectWord('LEVEL');
+        statement.isolationLevel = this.isolationLevel();
+      } else if (this.acceptWord('READ')) {
+        if (this.acceptWord('ONLY')) {
+          statement.readOnly = true;
+        } else {
+          this.expectWord('WRITE');
+          statement.readOnly = false;
+        }
+      } else {
+        this.fail('Expected ISOLATION LEVEL, READ ONLY or READ WRITE');
+      }
+    }
+    return statement;
+  }
+
+  private isolationLevel(): IsolationLevel {
+    if (this.acceptWord('SERIALIZABLE')) return IsolationLevel.SERIALIZABLE;
+    if (this.acceptWord('SNAPSHOT')) return IsolationLevel.SNAPSHOT;
+    if (this.acceptWord('REPEATABLE')) {
+      this.expectWord('READ');
+      return IsolationLevel.SNAPSHOT;  // PostgreSQL's REPEATABLE READ is snapshot isolation
+    }
+    if (this.acceptWord('READ')) {
+      this.expectWord('COMMITTED');
+      return IsolationLevel.READ_COMMITTED;
+    }
+    return this.fail('Expected an isolation level');
+  }
+
+  private acceptTransactionNoise(): void {
+    if (!this.acceptWord('WORK')) this.acceptWord('TRANSACTION');
+  }
+
+  private createTable(): CreateTableStatement {
+    this.expectWord('CREATE');
+    this.expectWord('TABLE');
+    let ifNotExists = false;
+    if (this.acceptWord('IF')) {
+      this.expectWord('NOT');
+      this.expectWord('EXISTS');
+      ifNotExists = true;
+    }
+    const table = this.identifier('table name');
+    this.expectPunctuation('(');
+
+    const columns: ColumnDefinition[] = [];
+    do {
+      if (isWord(this.peek(), 'PRIMARY')) {
+        // Table constraint: PRIMARY KEY (column)
+        const token = this.next();
+        this.expectWord('KEY');
+        this.expectPunctuation('(');
+        const name = this.identifier('column name');
+        this.expectPunctuation(')');
+        const column = columns.find(c => c.name === name);
+        if (!column) {
+          throw new SqlSyntaxError(`Primary key column "${name}" is not defined`, token.line, token.column);
+        }
+        column.primaryKey = true;
+        column.notNull = true;
+      } else {
+        columns.push(this.columnDefinition());
+      }
+    } while (this.acceptPunctuation(','));
+
+    this.expectPunctuation(')');
+    return { type: 'create_table', table, columns, ifNotExists };
+  }
+
+  private columnDefinition(): ColumnDefinition {
+    const name = this.identifier('column name');
+    const typeToken = this.peek();
+    const typeName = typeToken.type === TokenType.IDENTIFIER ? TYPE_NAMES[typeToken.value] : undefined;
+    if (!typeName) {
+      this.fail('Expected a column type (INTEGER, REAL, TEXT or BOOLEAN)');
+    }
+    this.next();
+    if (typeToken.value === 'double') this.acceptWord('PRECISION');
+    if (typeToken.value === 'character') this.acceptWord('VARYING');
+    if (this.acceptPunctuation('(')) {
+      // Length or precision: accepted and ignored
+      this.expect(TokenType.NUMBER, 'a type modifier');
+      if (this.acceptPunctuation(',')) this.expect(TokenType.NUMBER, 'a type modifier');
+      this.expectPunctuation(')');
+    }
+
+    const column: ColumnDefinition = { name, dataType: typeName!, primaryKey: false, notNull: false };
+    for (;;) {
+      if (this.acceptWord('PRIMARY')) {
+        this.expectWord('KEY');
+        column.primaryKey = true;
+        column.notNull = true;
+      } else if (this.acceptWord('NOT')) {
+        this.expectWord('NULL');
+        column.notNull = true;
+      } else if (!this.acceptWord('NULL')) {
+        return column;
+      }
+    }
+  }
+
+  private insert(): InsertStatement {
+    this.expectWord('INSERT');
+    this.expectWord('INTO');
+    const table = this.identifier('table name');
+
+    let columns: string[] | null = null;
+    if (this.acceptPunctuation('(')) {
+      columns = [];
+      do {
+        columns.push(this.identifier('column name'));
+      } while (this.acceptPunctuation(','));
+      this.expectPunctuation(')');
+    }
+
+    this.expectWord('VALUES');
+    const values: Expression[][] = [];
+    do {
+      this.expectPunctuation('(');
+      const row: Expression[] = [];
+      do {
+        row.push(this.expression());
+      } while (this.acceptPunctuation(','));
+      this.expectPunctuation(')');
+      values.push(row);
+    } while (this.acceptPunctuation(','));
+
+    return { type: 'insert', table, columns, values };
+  }
+
+  private update(): UpdateStatement {
+    this.expectWord('UPDATE');
+    const table = this.identifier('table name');
+    this.expectWord('SET');
+
+    const assignments = [];
+    do {
+      const column = this.identifier('column name');
+      this.expectOperator('=');
+      assignments.push({ column, value: this.expression() });
+    } while (this.acceptPunctuation(','));
+
+    return { type: 'update', table, assignments, where: this.where() };
+  }
+
+  private delete(): DeleteStatement {
+    this.expectWord('DELETE');
+    this.expectWord('FROM');
+    const table = this.identifier('table name');
+    return { type: 'delete', table, where: this.where() };
+  }
+
+  private select(): SelectStatement {
+    this.expectWord('SELECT');
+
+    const columns: SelectItem[] = [];
+    do {
+      if (this.acceptOperator('*')) {
+        columns.push({ type: 'star' });
+        continue;
+      }
+      const expression = this.expression();
+      let alias: string | null = null;
+      if (this.acceptWord('AS')) {
+        alias = this.identifier('column alias');
+      } else if (this.peek().type === TokenType.IDENTIFIER) {
+        alias = this.identifier('column alias');
+      }
+      columns.push({ type: 'expression', expression, alias });
+    } while (this.acceptPunctuation(','));
+
+    this.expectWord('FROM');
+    const from = this.tableReference();
+    const joins: JoinClause[] = [];
+    for (let type = this.joinType(); type !== null; type = this.joinType()) {
+      const table = this.tableReference();
+      this.expectWord('ON');
+      joins.push({ type, table, on: this.expression() });
+    }
+    const where = this.where();
+
+    const groupBy: Expression[] = [];
+    if (this.acceptWord('GROUP')) {
+      this.expectWord('BY');
+      do {
+        groupBy.push(this.expression());
+      } while (this.acceptPunctuation(','));
+    }
+    const having = this.acceptWord('HAVING') ? this.expression() : null;
+
+    const orderBy: OrderByItem[] = [];
+    if (this.acceptWord('ORDER')) {
+      this.expectWord('BY');
+      do {
+        const expression = this.expression();
+        const descending = this.acceptWord('DESC');
+        if (!descending) this.acceptWord('ASC');
+        orderBy.push({ expression, descending });
+      } while (this.acceptPunctuation(','));
+    }
+
+    const limit = this.acceptWord('LIMIT') ? this.expression() : null;
+    return { type: 'select', columns, from, joins, where, groupBy, having, orderBy, limit };
+  }
+
+  /** table [[AS] alias] */
+  private tableReference(): TableReference {
+    const table = this.identifier('table name');
+    let alias: string | null = null;
+    if (this.acceptWord('AS')) {
+      alias = this.identifier('table alias');
+    } else if (this.peek().type === TokenType.IDENTIFIER) {
+      alias = this.identifier('table alias');
+    }
+    return { table, alias };
+  }
+
+  /** [INNER] JOIN, LEFT [OUTER] JOIN, LEFT SEMI JOIN or LEFT ANTI JOIN; null if no join follows */
+  private joinType(): JoinType | null {
+    let type: JoinType;
+    if (this.acceptWord('LEFT')) {
+      type = this.acceptWord('SEMI') ? 'semi' : this.acceptWord('ANTI') ? 'anti' : 'left';
+      if (type === 'left') this.acceptWord('OUTER');
+    } else if (this.acceptWord('INNER')) {
+      type = 'inner';
+    } else if (isWord(this.peek(), 'JOIN')) {
+      type = 'inner';
+    } else {
+      return null;
+    }
+    this.expectWord('JOIN');
+    return type;
+  }
+
+  private where(): Expression | null {
+    return this.acceptWord('WHERE') ? this.expression() : null;
+  }
+
+  // Expressions
+
+  private expression(): Expression {
+    return this.or();
+  }
+
+  private or(): Expression {
+    let left = this.and();
+    while (this.acceptWord('OR')) {
+      left = { type: 'binary', operator: 'OR', left, right: this.and() };
+    }
+    return left;
+  }
+
+  private and(): Expression {
+    let left = this.not();
+    while (this.acceptWord('AND')) {
+      left = { type: 'binary', operator: 'AND', left, right: this.not() };
+    }
+    return left;
+  }
+
+  private not(): Expression {
+    if (this.acceptWord('NOT')) {
+      return { type: 'unary', operator: 'NOT', operand: this.not() };
+    }
+    return this.comparison();
+  }
+
+  private comparison(): Expression {
+    const left = this.additive();
+    const token = this.peek();
+
+    if (token.type === TokenType.OPERATOR && COMPARISONS.has(token.value)) {
+      this.next();
+      return { type: 'binary', operator: token.value as BinaryOperator, left, right: this.additive() };
+    }
+    if (this.acceptWord('IS')) {
+      const negated = this.acceptWord('NOT');
+      this.expectWord('NULL');
+      return { type: 'is_null', operand: left, negated };
+    }
+
+    const negated = isWord(token, 'NOT') && isWord(this.peek(1), 'IN');
+    if (negated) this.next();
+    if (this.acceptWord('IN')) {
+      this.expectPunctuation('(');
+      const list: Expression[] = [];
+      do {
+        list.push(this.expression());
+      } while (this.acceptPunctuation(','));
+      this.expectPunctuation(')');
+      return { type: 'in', operand: left, list, negated };
+    }
+    return left;
+  }
+
+  private additive(): Expression {
+    let left = this.multiplicative();
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== TokenType.OPERATOR || (token.value !== '+' && token.value !== '-')) return left;
+      this.next();
+      left = { type: 'binary', operator: token.value, left, right: this.multiplicative() };
+    }
+  }
+
+  private multiplicative(): Expression {
+    let left = this.unary();
+    for (;;) {
+      const token = this.peek();
+      if (token.type !== TokenType.OPERATOR || (token.value !== '*' && token.value !== '/')) return left;
+      this.next();
+      left = { type: 'binary', operator: token.value, left, right: this.unary() };
+    }
+  }
+
+  private unary(): Expression {
+    if (this.acceptOperator('-')) {
+      const operand = this.unary();
+      if (operand.type === 'literal' && typeof operand.value === 'number') {
+        return { type: 'literal', value: -operand.value };
+      }
+      return { type: 'unary', operator: '-', operand };
+    }
+    if (this.acceptOperator('+')) return this.unary();
+    return this.primary();
+  }
+
+  private primary(): Expression {
+    const token = this.peek();
+
+    switch (token.type) {
+      case TokenType.NUMBER:
+        this.next();
+        return { type: 'literal', value: Number(token.value) };
+      case TokenType.STRING:
+        this.next();
+        return { type: 'literal', value: token.value };
+      case TokenType.PARAMETER: {
+        this.next();
+        const index = Number(token.value);
+        if (index < 1) {
+          throw new SqlSyntaxError(`Invalid parameter $${token.value}`, token.line, token.column);
+        }
+        return { type: 'parameter', index };
+      }
+      case TokenType.IDENTIFIER: {
+        this.next();
+        if (this.isPunctuation('(')) {
+          return this.aggregate(token);
+        }
+        if (this.acceptPunctuation('.')) {
+          return { type: 'column', table: token.value, name: this.identifier('column name') };
+        }
+        return { type: 'column', table: null, name: token.value };
+      }
+    }
+
+    if (this.acceptWord('TRUE')) return { type: 'literal', value: true };
+    if (this.acceptWord('FALSE')) return { type: 'literal', value: false };
+    if (this.acceptWord('NULL')) return { type: 'literal', value: null };
+    if (this.acceptPunctuation('(')) {
+      const expression = this.expression();
+      this.expectPunctuation(')');
+      return expression;
+    }
+    return this.fail('Expected an expression');
+  }
+
+  /** name(expression), name(DISTINCT expression) or count(*), after the name */
+  private aggregate(name: Token): AggregateExpression {
+    if (!AGGREGATES.has(name.value)) {
+      throw new SqlSyntaxError(`Function ${name.text} does not exist`, name.line, name.column);
+    }
+    this.expectPunctuation('(');
+    let argument: Expression | null = null;
+    let distinct = false;
+    if (name.value !== 'count' || !this.acceptOperator('*')) {
+      distinct = this.acceptWord('DISTINCT');
+      argument = this.expression();
+    }
+    this.expectPunctuation(')');
+    return { type: 'aggregate', function: name.value as AggregateFunction, argument, distinct };
+  }
+
+  // Token helpers
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    if (token.type !== TokenType.EOF) this.pos++;
+    return token;
+  }
+
+  private identifier(what: string): string {
+    if (this.peek().type !== TokenType.IDENTIFIER) {
+      this.fail(`Expected ${what}`);
+    }
+    return this.next().value;
+  }
+
+  private expect(type: TokenType, what: string): Token {
+    if (this.peek().type !== type) {
+      this.fail(`Expected ${what}`);
+    }
+    return this.next();
+  }
+
+  private acceptWord(word: string): boolean {
+    if (!isWord(this.peek(), word)) return false;
+    this.next();
+    return true;
+  }
+
+  private expectWord(word: string): void {
+    if (!this.acceptWord(word)) this.fail(`Expected ${word}`);
+  }
+
+  private isPunctuation(value: string): boolean {
+    const token = this.peek();
+    return token.type === TokenType.PUNCTUATION && token.value === value;
+  }
+
+  private acceptPunctuation(value: string): boolean {
+    if (!this.isPunctuation(value)) return false;
+    this.next();
+    return true;
+  }
+
+  private expectPunctuation(value: string): void {
+    if (!this.acceptPunctuation(value)) this.fail(`Expected "${value}"`);
+  }
+
+  private acceptOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type !== TokenType.OPERATOR || token.value !== value) return false;
+    this.next();
+    return true;
+  }
+
+  private expectOperator(value: string): void {
+    if (!this.acceptOperator(value)) this.fail(`Expected "${value}"`);
+  }
+
+  /** Report what was expected at the current token */
+  private fail(expected: string): never {
+    const token = this.peek();
+    const found = token.type === TokenType.EOF ? 'end of input' : `"${token.text}"`;
+    throw new SqlSyntaxError(`${expected} but found ${found}`, token.line, token.column);
+  }
+}
@@ -0,0 +1,465 @@
+import { DatabaseService } from '../db/DatabaseService';
+import { Transaction } from '../transaction/Transaction';
+import {
+  Statement,
+  Expression,
+  InsertStatement,
+  UpdateStatement,
+  DeleteStatement,
+  SelectStatement,
+  ColumnDefinition,
+  ColumnExpression,
+  TableReference,
+} from './ast';
+import { TableCatalog, TableDefinition, rowKey } from './Catalog';
+import { Row, evaluate, isTrue, columnsOf, columnKey, mapColumns, mapExpression, hasAggregate, typeName } from './expressions';
+import { collect } from '../execution/Operator';
+import { Planner, TableSource, JoinSpec, Grouping } from '../execution/Planner';
+import { OutputColumn } from '../execution/Projection';
+import { SortKey } from '../execution/Sort';
+import { AggregateColumn } from '../execution/aggregates';
+import { SerializationFailureError } from '../db/errors';
+import { sqlLogger } from '../utils/logger';
+
+/** Taken before each statement of an explicit transaction; the newest savepoint of a name wins, so it cannot clash */
+const STATEMENT_SAVEPOINT = 'statement';
+
+/** A table of the statement, by the name column references qualify it with */
+interface ScopeTable extends TableSource {
+  name: string;
+}
+
+export interface QueryResult {
+  /** Statement tag, e.g. 'SELECT' or 'INSERT' */
+  command: string;
+  /** Result rows keyed by output column name; empty for other statements */
+  rows: Row[];
+  /** Rows returned, inserted, updated or deleted */
+  rowCount: number;
+  /** The transaction a BEGIN started */
+  transaction?: Transaction;
+}
+
+/**
+ * Runs parsed statements against DatabaseService. Names are checked
+ * against the catalog before any row is touched; values are checked
+ * against column types as rows are written. Rows are read by operator
+ * plans (src/execution) that stream them straight from storage.
+ *
+ * A data statement run without a transaction gets its own, committed when
+ * the statement succeeds and aborted when it fails (autocommit). An error
+ * inside an explicit transaction undoes that statement's writes and leaves
+ * the transaction open.
+ */
+export class StatementDispatcher {
+  private log = sqlLogger;
+
+  constructor(private db: DatabaseService, private catalog: TableCatalog, private planner: Planner) {}
+
+  execute(txn: Transaction | null, statement: Statement, params: any[]): QueryResult {
+    const startTime = Date.now();
+    const result = this.dispatch(txn, statement, params);
+
+    this.log.info({
+      txId: (result.transaction ?? txn)?.id,
+      command: result.command,
+      rowCount: result.rowCount,
+      duration: Date.now() - startTime,
+      action: 'query'
+    }, `Statement executed`);
+
+    return result;
+  }
+
+  private dispatch(txn: Transaction | null, statement: Statement, params: any[]): QueryResult {
+    switch (statement.type) {
+      case 'begin': {
+        if (txn) {
+          throw new Error(`Transaction ${txn.id} is already in progress`);
+        }
+        const transaction = this.db.begin({
+          isolationLevel: statement.isolationLevel,
+          readOnly: statement.readOnly,
+        });
+        return { command: 'BEGIN', rows: [], rowCount: 0, transaction };
+      }
+
+      case 'commit':
+        this.db.commit(this.requireTransaction(txn, 'COMMIT'));
+        return { command: 'COMMIT', rows: [], rowCount: 0 };
+
+      case 'rollback':
+        this.db.abort(this.requireTransaction(txn, 'ROLLBACK'));
+        return { command: 'ROLLBACK', rows: [], rowCount: 0 };
+
+      case 'create_table':
+        this.catalog.create(statement.table, statement.columns, statement.ifNotExists);
+        return { command: 'CREATE TABLE', rows: [], rowCount: 0 };
+
+      default:
+        return txn
+          ? this.atomically(txn, () => this.executeData(txn, statement, params))
+          : this.autocommit(txn => this.executeData(txn, statement, params));
+    }
+  }
+
+  private executeData(
+    txn: Transaction,
+    statement: InsertStatement | UpdateStatement | DeleteStatement | SelectStatement,
+    params: any[]
+  ): QueryResult {
+    switch (statement.type) {
+      case 'insert': return this.insert(txn, statement, params);
+      case 'update': return this.update(txn, statement, params);
+      case 'delete': return this.delete(txn, statement, params);
+      case 'select': return this.select(txn, statement, params);
+    }
+  }
+
+  /** Run a statement of an explicit transaction under an implicit savepoint, rolled back to if it fails */
+  private atomically(txn: Transaction, run: () => QueryResult): QueryResult {
+    txn.savepoint(STATEMENT_SAVEPOINT);
+    try {
+      return run();
+    } catch (error) {
+      txn.rollbackTo(STATEMENT_SAVEPOINT);
+      throw error;
+    } finally {
+      txn.releaseSavepoint(STATEMENT_SAVEPOINT);
+    }
+  }
+
+  private autocommit(run: (txn: Transaction) => QueryResult): QueryResult {
+    const txn = this.db.begin();
+    try {
+      const result = run(txn);
+      this.db.commit(txn);
+      return result;
+    } catch (error) {
+      this.db.abort(txn);  // no-op if the failed commit already aborted it
+      throw error;
+    }
+  }
+
+  private insert(txn: Transaction, statement: InsertStatement, params: any[]): QueryResult {
+    const table = this.catalog.get(statement.table);
+    const columns = statement.columns ?? table.columns.map(column => column.name);
+    columns.forEach((name, i) => {
+      findColumn(table, name);
+      if (columns.indexOf(name) !== i) {
+        throw new Error(`Column '${name}' specified more than once`);
+      }
+    });
+
+    for (const values of statement.values) {
+      if (values.length !== columns.length) {
+        throw new Error(`INSERT has ${values.length} expressions for ${columns.length} target columns`);
+      }
+      values.forEach(value => noAggregates(value, 'VALUES'));
+      for (const column of values.flatMap(columnsOf)) {
+        throw new Error(`Cannot reference column '${column.name}' in VALUES`);
+      }
+    }
+
+    for (const values of statement.values) {
+      const row: Row = {};
+      for (const column of table.columns) {
+        const i = columns.indexOf(column.name);
+        row[column.name] = checkValue(column, i === -1 ? null : evaluate(values[i], {}, params));
+      }
+      this.db.insert(txn, rowKey(table.name, row[table.primaryKey]), row);
+    }
+    return { command: 'INSERT', rows: [], rowCount: statement.values.length };
+  }
+
+  private update(txn: Transaction, statement: UpdateStatement, params: any[]): QueryResult {
+    const table = this.catalog.get(statement.table);
+    const scope = [{ name: table.name, table, qualifier: null }];
+    const assignments = statement.assignments.map(({ column, value }) => ({
+      column: findColumn(table, column),
+      value: bind(scope, noAggregates(value, 'UPDATE')),
+    }));
+    const where = statement.where && bind(scope, noAggregates(statement.where, 'WHERE'));
+
+    // Every assignment sees the row as it was before the update
+    const changesTo = (row: Row): Row => {
+      const changes: Row = {};
+      for (const { column, value } of assignments) {
+        changes[column.name] = checkValue(column, evaluate(value, row, params));
+      }
+      return changes;
+    };
+    const moves = (row: Row, changes: Row) =>
+      table.primaryKey in changes && changes[table.primaryKey] !== row[table.primaryKey];
+
+    const moved: Array<{ from: Row; to: Row }> = [];
+    const matches = this.matchingRows(txn, table, where, params);
+
+    for (const row of matches) {
+      const changes = changesTo(row);
+      if (moves(row, changes)) {
+        moved.push({ from: row, to: { ...row, ...changes } });
+        continue;
+      }
+
+      // READ COMMITTED redoes the statement on a row committed since
+      const key = rowKey(table.name, row[table.primaryKey]);
+      this.db.update(txn, key, changes, latest => {
+        if (!matchesWhere(where, latest, params)) return null;
+        const redone = changesTo(latest);
+        if (moves(latest, redone)) throw concurrentUpdate(key);
+        return redone;
+      });
+    }
+
+    // A changed primary key moves the row. Delete every old key before
+    // inserting, so keys can shift (SET id = id + 1) without colliding.
+    // A move is not redone on a row committed since: the statement fails.
+    for (const { from } of moved) {
+      const key = rowKey(table.name, from[table.primaryKey]);
+      this.db.delete(txn, key, () => { throw concurrentUpdate(key); });
+    }
+    for (const { to } of moved) {
+      this.db.insert(txn, rowKey(table.name, to[table.primaryKey]), to);
+    }
+
+    return { command: 'UPDATE', rows: [], rowCount: matches.length };
+  }
+
+  private delete(txn: Transaction, statement: DeleteStatement, params: any[]): QueryResult {
+    const table = this.catalog.get(statement.table);
+    const where = statement.where && bind([{ name: table.name, table, qualifier: null }], noAggregates(statement.where, 'WHERE'));
+
+    const matches = this.matchingRows(txn, table, where, params);
+    for (const row of matches) {
+      // READ COMMITTED deletes a row committed since only if it still matches
+      this.db.delete(txn, rowKey(table.name, row[table.primaryKey]), latest => latest !== null && matchesWhere(where, latest, params));
+    }
+    return { command: 'DELETE', rows: [], rowCount: matches.length };
+  }
+
+  private select(txn: Transaction, statement: SelectStatement, params: any[]): QueryResult {
+    // Without joins, rows are keyed by bare column names
+    const qualified = statement.joins.length > 0;
+    const from = this.source(statement.from, qualified);
+    const sources = [from];
+    const visible = [from];  // tables whose columns the select list and WHERE can read
+
+    const joins: JoinSpec[] = statement.joins.map(join => {
+      const source = this.source(join.table, qualified);
+      if (sources.some(other => other.name === source.name)) {
+        throw new Error(`Table name '${source.name}' specified more than once`);
+      }
+      sources.push(source);
+      const on = bind([...visible, source], noAggregates(join.on, 'JOIN conditions'));
+      if (join.type !== 'semi' && join.type !== 'anti') {
+        visible.push(source);
+      }
+      return { type: join.type, source, on };
+    });
+
+    // Output columns: * expands to the columns of every visible table
+    let outputs: OutputColumn[] = [];
+    for (const item of statement.columns) {
+      if (item.type === 'star') {
+        for (const { table, qualifier } of visible) {
+          table.columns.forEach(({ name }) => outputs.push({ name, expression: { type: 'column', table: qualifier, name } }));
+        }
+      } else {
+        outputs.push({ name: item.alias ?? outputName(item.expression), expression: bind(visible, item.expression) });
+      }
+    }
+    outputs = uniqueNames(outputs);
+    const where = statement.where && bind(visible, noAggregates(statement.where, 'WHERE'));
+
+    // ORDER BY and GROUP BY may name an output column by its alias
+    const bindOrOutput = (expression: Expression): Expression => {
+      if (expression.type === 'column' && expression.table === null &&
+          !visible.some(({ table }) => table.columns.some(c => c.name === expression.name))) {
+        const output = outputs.find(o => o.name === expression.name);
+        if (output) return output.expression;
+      }
+      return bind(visible, expression);
+    };
+    let orderBy: SortKey[] = statement.orderBy.map(({ expression, descending }) => ({ expression: bindOrOutput(expression), descending }));
+    const groupBy = statement.groupBy.map(expression => noAggregates(bindOrOutput(expression), 'GROUP BY'));
+    const having = statement.having && bind(visible, statement.having);
+
+    let grouping: Grouping | null = null;
+    if (groupBy.length > 0 || having || [...outputs, ...orderBy].some(({ expression }) => hasAggregate(expression))) {
+      ({ grouping, outputs, orderBy } = aggregation(groupBy, having, outputs, orderBy));
+    }
+
+    let limit: number | null = null;
+    if (statement.limit) {
+      limit = evaluate(statement.limit, {}, params);
+      if (limit !== null && (!Number.isInteger(limit) || limit < 0)) {
+        throw new Error(`LIMIT must be a non-negative integer, got ${JSON.stringify(limit)}`);
+      }
+    }
+
+    const plan = this.planner.select(txn, { from, joins, outputs, where, grouping, orderBy, limit }, params);
+    const rows = collect(plan);
+    return { command: 'SELECT', rows, rowCount: rows.length };
+  }
+
+  /** A FROM-clause table; column references name it by its alias if it has one */
+  private source(reference: TableReference, qualified: boolean): ScopeTable {
+    const name = reference.alias ?? reference.table;
+    return { name, table: this.catalog.get(reference.table), qualifier: qualified ? name : null };
+  }
+
+  /** Visible rows of the table for which `where` is true */
+  private matchingRows(txn: Transaction, table: TableDefinition, where: Expression | null, params: any[]): Row[] {
+    return collect(this.planner.scan(txn, table, where, params));
+  }
+
+  private requireTransaction(txn: Transaction | null, command: string): Transaction {
+    if (!txn) {
+      throw new Error(`${command} needs a transaction: none is in progress`);
+    }
+    return txn;
+  }
+}
+
+function findColumn(table: TableDefinition, name: string): ColumnDefinition {
+  const column = table.columns.find(c => c.name === name);
+  if (!column) {
+    throw new Error(`Column '${name}' of table '${table.name}' does not exist`);
+  }
+  return column;
+}
+
+/**
+ * The expression with every column reference resolved against the FROM
+ * tables and rewritten to the row key the plan stores it under.
+ */
+function bind(scope: ScopeTable[], expression: Expression): Expression {
+  return mapColumns(expression, column => {
+    const source = resolve(scope, column);
+    return { type: 'column', table: source.qualifier, name: column.name };
+  });
+}
+
+function resolve(scope: ScopeTable[], column: ColumnExpression): ScopeTable {
+  if (column.table !== null) {
+    const source = scope.find(({ name }) => name === column.table);
+    if (!source) {
+      throw new Error(`Missing FROM-clause entry for table '${column.table}'`);
+    }
+    findColumn(source.table, column.name);
+    return source;
+  }
+
+  const matches = scope.filter(({ table }) => table.columns.some(c => c.name === column.name));
+  if (matches.length > 1) {
+    throw new Error(`Column reference '${column.name}' is ambiguous`);
+  }
+  if (matches.length === 0) {
+    if (scope.length === 1) findColumn(scope[0].table, column.name);
+    throw new Error(`Column '${column.name}' does not exist`);
+  }
+  return matches[0];
+}
+
+/** The expression, checked to call no aggregate function: they belong in the select list, HAVING and ORDER BY */
+function noAggregates(expression: Expression, clause: string): Expression {
+  if (hasAggregate(expression)) {
+    throw new Error(`Aggregate functions are not allowed in ${clause}`);
+  }
+  return expression;
+}
+
+/**
+ * A grouped SELECT split at the aggregation. GROUP BY expressions and
+ * aggregate calls become columns of the aggregated rows, and HAVING, ORDER
+ * BY and the outputs are rewritten to read those; any other column they
+ * read is an error, as its value could differ between a group's rows.
+ */
+function aggregation(
+  groupBy: Expression[],
+  having: Expression | null,
+  outputs: OutputColumn[],
+  orderBy: SortKey[]
+): { grouping: Grouping; outputs: OutputColumn[]; orderBy: SortKey[] } {
+  const groups: OutputColumn[] = groupBy.map((expression, i) => ({ name: `group:${i}`, expression }));
+  const aggregates: AggregateColumn[] = [];
+  const same = (a: Expression, b: Expression) => JSON.stringify(a) === JSON.stringify(b);
+
+  const ungroup = (expression: Expression): Expression => mapExpression(expression, part => {
+    const group = groups.find(({ expression }) => same(expression, part));
+    if (group) {
+      return { type: 'column', table: null, name: group.name };
+    }
+    if (part.type === 'aggregate') {
+      if (part.argument && hasAggregate(part.argument)) {
+        throw new Error('Aggregate function calls cannot be nested');
+      }
+      let aggregate = aggregates.find(({ call }) => same(call, part));
+      if (!aggregate) {
+        aggregate = { name: `aggregate:${aggregates.length}`, call: part };
+        aggregates.push(aggregate);
+      }
+      return { type: 'column', table: null, name: aggregate.name };
+    }
+    if (part.type === 'column') {
+      throw new Error(`Column '${columnKey(part)}' must appear in the GROUP BY clause or be used in an aggregate function`);
+    }
+    return null;
+  });
+
+  return {
+    grouping: { groups, aggregates, having: having && ungroup(having) },
+    outputs: outputs.map(({ name, expression }) => ({ name, expression: ungroup(expression) })),
+    orderBy: orderBy.map(({ expression, descending }) => ({ expression: ungroup(expression), descending })),
+  };
+}
+
+/** Whether a row of a single-table statement passes its WHERE clause */
+function matchesWhere(where: Expression | null, row: Row, params: any[]): boolean {
+  return where === null || isTrue(evaluate(where, row, params));
+}
+
+function concurrentUpdate(key: string): SerializationFailureError {
+  return new SerializationFailureError(`Could not serialize access due to concurrent update of '${key}'`);
+}
+
+/** A value about to be stored in the column, checked against its type and NOT NULL */
+function checkValue(column: ColumnDefinition, value: any): any {
+  if (value === null || value === undefined) {
+    if (column.notNull) {
+      throw new Error(`Null value in column '${column.name}' violates not-null constraint`);
+    }
+    return null;
+  }
+
+  const ok =
+    column.dataType === 'integer' ? Number.isInteger(value) :
+    column.dataType === 'real' ? typeof value === 'number' && Number.isFinite(value) :
+    column.dataType === 'text' ? typeof value === 'string' :
+    typeof value === 'boolean';
+  if (!ok) {
+    throw new Error(`Column '${column.name}' is of type ${column.dataType} but got ${typeName(value)} ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+/** Rows are keyed by output name, so a repeated name gets the first free suffix: count, count_1, count_2 */
+function uniqueNames(outputs: OutputColumn[]): OutputColumn[] {
+  const taken = new Set<string>();
+  return outputs.map(output => {
+    let name = output.name;
+    for (let i = 1; taken.has(name); i++) {
+      name = `${output.name}_${i}`;
+    }
+    taken.add(name);
+    return { ...output, name };
+  });
+}
+
+/** Name of an unaliased output column, as PostgreSQL picks it */
+function outputName(expression: Expression): string {
+  if (expression.type === 'column') return expression.name;
+  if (expression.type === 'aggregate') return expression.function;
+  return '?column?';
+}
@@ -0,0 +1,171 @@
+import { IsolationLevel } from '../transaction/Transaction';
+
+export type Statement =
+  | BeginStatement
+  | CommitStatement
+  | RollbackStatement
+  | CreateTableStatement
+  | InsertStatement
+  | UpdateStatement
+  | DeleteStatement
+  | SelectStatement;
+
+export interface BeginStatement {
+  type: 'begin';
+  isolationLevel?: IsolationLevel;
+  readOnly?: boolean;
+}
+
+export interface CommitStatement {
+  type: 'commit';
+}
+
+export interface RollbackStatement {
+  type: 'rollback';
+}
+
+export type DataType = 'integer' | 'real' | 'text' | 'boolean';
+
+export interface ColumnDefinition {
+  name: string;
+  dataType: DataType;
+  primaryKey: boolean;
+  notNull: boolean;
+}
+
+export interface CreateTableStatement {
+  type: 'create_table';
+  table: string;
+  columns: ColumnDefinition[];
+  ifNotExists: boolean;
+}
+
+export interface InsertStatement {
+  type: 'insert';
+  table: string;
+  /** Null when the statement lists no columns: values follow table order */
+  columns: string[] | null;
+  values: Expression[][];
+}
+
+export interface Assignment {
+  column: string;
+  value: Expression;
+}
+
+export interface UpdateStatement {
+  type: 'update';
+  table: string;
+  assignments: Assignment[];
+  where: Expression | null;
+}
+
+export interface DeleteStatement {
+  type: 'delete';
+  table: string;
+  where: Expression | null;
+}
+
+export type SelectItem =
+  | { type: 'star' }
+  | { type: 'expression'; expression: Expression; alias: string | null };
+
+export interface OrderByItem {
+  expression: Expression;
+  descending: boolean;
+}
+
+/** A table in FROM; the alias, when given, replaces the table name as qualifier */
+export interface TableReference {
+  table: string;
+  alias: string | null;
+}
+
+/** LEFT SEMI and LEFT ANTI keep left rows that have (or lack) a match, as in Spark SQL */
+export type JoinType = 'inner' | 'left' | 'semi' | 'anti';
+
+export interface JoinClause {
+  type: JoinType;
+  table: TableReference;
+  on: Expression;
+}
+
+export interface SelectStatement {
+  type: 'select';
+  columns: SelectItem[];
+  from: TableReference;
+  joins: JoinClause[];
+  where: Expression | null;
+  groupBy: Expression[];
+  having: Expression | null;
+  orderBy: OrderByItem[];
+  limit: Expression | null;
+}
+
+export type Expression =
+  | LiteralExpression
+  | ParameterExpression
+  | ColumnExpression
+  | UnaryExpression
+  | BinaryExpression
+  | IsNullExpression
+  | InExpression
+  | AggregateExpression;
+
+export interface LiteralExpression {
+  type: 'literal';
+  value: number | string | boolean | null;
+}
+
+/** $1, $2, ...: index is 1-based, as written */
+export interface ParameterExpression {
+  type: 'parameter';
+  index: number;
+}
+
+export interface ColumnExpression {
+  type: 'column';
+  table: string | null;
+  name: string;
+}
+
+export interface UnaryExpression {
+  type: 'unary';
+  operator: 'NOT' | '-';
+  operand: Expression;
+}
+
+export type BinaryOperator =
+  | 'AND' | 'OR'
+  | '=' | '<>' | '<' | '<=' | '>' | '>='
+  | '+' | '-' | '*' | '/';
+
+export interface BinaryExpression {
+  type: 'binary';
+  operator: BinaryOperator;
+  left: Expression;
+  right: Expression;
+}
+
+export interface IsNullExpression {
+  type: 'is_null';
+  operand: Expression;
+  negated: boolean;
+}
+
+export interface InExpression {
+  type: 'in';
+  operand: Expression;
+  list: Expression[];
+  negated: boolean;
+}
+
+export type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+/** count(*) has no argument; DISTINCT aggregates each distinct non-NULL value once */
+export interface AggregateExpression {
+  type: 'aggregate';
+  function: AggregateFunction;
+  argument: Expression | null;
+  distinct: boolean;
+}
@@ -0,0 +1,212 @@
+import { Expression, ColumnExpression } from './ast';
+
+/**
+ * A row as the SQL layer sees it: column name -> value. Rows that may hold
+ * several tables' columns key them as `qualifier.column` instead.
+ */
+export type Row = Record<string, any>;
+
+/**
+ * Evaluate an expression against a row with SQL semantics: NULL (null)
+ * propagates through comparisons and arithmetic, and AND / OR / NOT use
+ * three-valued logic. Values of different types do not compare.
+ */
+export function evaluate(expression: Expression, row: Row, params: any[]): any {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+
+    case 'parameter':
+      if (expression.index > params.length) {
+        throw new Error(`There is no parameter $${expression.index}`);
+      }
+      return params[expression.index - 1] ?? null;
+
+    case 'column':
+      return row[columnKey(expression)] ?? null;
+
+    case 'unary': {
+      const value = evaluate(expression.operand, row, params);
+      if (value === null) return null;
+      if (expression.operator === 'NOT') return !asBoolean(value, 'NOT');
+      return -asNumber(value, '-');
+    }
+
+    case 'binary': {
+      const { operator } = expression;
+      if (operator === 'AND' || operator === 'OR') {
+        return logical(operator, evaluate(expression.left, row, params), evaluate(expression.right, row, params));
+      }
+
+      const left = evaluate(expression.left, row, params);
+      const right = evaluate(expression.right, row, params);
+      if (left === null || right === null) return null;
+
+      switch (operator) {
+        case '=': return compareValues(left, right) === 0;
+        case '<>': return compareValues(left, right) !== 0;
+        case '<': return compareValues(left, right) < 0;
+        case '<=': return compareValues(left, right) <= 0;
+        case '>': return compareValues(left, right) > 0;
+        case '>=': return compareValues(left, right) >= 0;
+        case '+': return asNumber(left, operator) + asNumber(right, operator);
+        case '-': return asNumber(left, operator) - asNumber(right, operator);
+        case '*': return asNumber(left, operator) * asNumber(right, operator);
+        case '/': {
+          const divisor = asNumber(right, operator);
+          if (divisor === 0) throw new Error('Division by zero');
+          return asNumber(left, operator) / divisor;
+        }
+      }
+      throw new Error(`Unknown operator ${operator}`);
+    }
+
+    case 'is_null': {
+      const isNull = evaluate(expression.operand, row, params) === null;
+      return expression.negated ? !isNull : isNull;
+    }
+
+    case 'in': {
+      const value = evaluate(expression.operand, row, params);
+      if (value === null) return null;
+      let sawNull = false;
+      for (const item of expression.list) {
+        const candidate = evaluate(item, row, params);
+        if (candidate === null) {
+          sawNull = true;
+        } else if (compareValues(value, candidate) === 0) {
+          return !expression.negated;
+        }
+      }
+      return sawNull ? null : expression.negated;
+    }
+
+    case 'aggregate':
+      // Aggregate operators compute calls; the plan above them reads the results as columns
+      throw new Error(`Aggregate function ${expression.function} is not allowed here`);
+  }
+}
+
+/** WHERE keeps a row only when its condition is true, not false or NULL */
+export function isTrue(value: any): boolean {
+  if (value !== null && typeof value !== 'boolean') {
+    throw new Error(`Condition must be boolean, got ${typeName(value)}`);
+  }
+  return value === true;
+}
+
+/** Order two non-null values of the same type */
+export function compareValues(a: any, b: any): number {
+  if (typeof a !== typeof b) {
+    throw new Error(`Cannot compare ${typeName(a)} with ${typeName(b)}`);
+  }
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/** Sort order for ORDER BY: NULLs sort after every value, as in PostgreSQL */
+export function compareForSort(a: any, b: any): number {
+  if (a === null || b === null) {
+    return a === b ? 0 : a === null ? 1 : -1;
+  }
+  return compareValues(a, b);
+}
+
+/** Every column an expression reads, including inside aggregate calls */
+export function columnsOf(expression: Expression): ColumnExpression[] {
+  return expression.type === 'column' ? [expression] : operandsOf(expression).flatMap(columnsOf);
+}
+
+/** Whether the expression calls an aggregate function anywhere */
+export function hasAggregate(expression: Expression): boolean {
+  return expression.type === 'aggregate' || operandsOf(expression).some(hasAggregate);
+}
+
+/** The same expression with every column reference replaced */
+export function mapColumns(expression: Expression, replace: (column: ColumnExpression) => Expression): Expression {
+  return mapExpression(expression, part => part.type === 'column' ? replace(part) : null);
+}
+
+/**
+ * The same expression with parts replaced, outermost first: where `replace`
+ * returns an expression it takes the part's place, and where it returns
+ * null the part's operands are visited instead.
+ */
+export function mapExpression(expression: Expression, replace: (part: Expression) => Expression | null): Expression {
+  const replaced = replace(expression);
+  if (replaced) return replaced;
+
+  switch (expression.type) {
+    case 'unary':
+      return { ...expression, operand: mapExpression(expression.operand, replace) };
+    case 'binary':
+      return { ...expression, left: mapExpression(expression.left, replace), right: mapExpression(expression.right, replace) };
+    case 'is_null':
+      return { ...expression, operand: mapExpression(expression.operand, replace) };
+    case 'in':
+      return {
+        ...expression,
+        operand: mapExpression(expression.operand, replace),
+        list: expression.list.map(item => mapExpression(item, replace)),
+      };
+    case 'aggregate':
+      return { ...expression, argument: expression.argument && mapExpression(expression.argument, replace) };
+    default:
+      return expression;
+  }
+}
+
+/** Row key a column reference reads: its name, qualified when it names a table */
+export function columnKey(column: ColumnExpression): string {
+  return column.table === null ? column.name : `${column.table}.${column.name}`;
+}
+
+export function typeName(value: any): string {
+  if (value === null) return 'null';
+  switch (typeof value) {
+    case 'number': return 'number';
+    case 'string': return 'text';
+    case 'boolean': return 'boolean';
+    default: return typeof value;
+  }
+}
+
+function operandsOf(expression: Expression): Expression[] {
+  switch (expression.type) {
+    case 'unary':
+    case 'is_null':
+      return [expression.operand];
+    case 'binary':
+      return [expression.left, expression.right];
+    case 'in':
+      return [expression.operand, ...expression.list];
+    case 'aggregate':
+      return expression.argument ? [expression.argument] : [];
+    default:
+      return [];
+  }
+}
+
+function logical(operator: 'AND' | 'OR', left: any, right: any): boolean | null {
+  const a = left === null ? null : asBoolean(left, operator);
+  const b = right === null ? null : asBoolean(right, operator);
+  if (operator === 'AND') {
+    if (a === false || b === false) return false;
+    return a === null || b === null ? null : true;
+  }
+  if (a === true || b === true) return true;
+  return a === null || b === null ? null : false;
+}
+
+function asBoolean(value: any, operator: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new Error(`Argument of ${operator} must be boolean, got ${typeName(value)}`);
+  }
+  return value;
+}
+
+function asNumber(value: any, operator: string): number {
+  if (typeof value !== 'number') {
+    throw new Error(`Operator ${operator} needs numbers, got ${typeName(value)}`);
+  }
+  return value;
+}
@@ -1,16 +1,21 @@
 import { VersionedRow } from '../mvcc/VersionedRow';
 import { MVCCEngine } from '../mvcc/MVCCEngine';
+import { StorageEngine } from './StorageEngine';
+import { SkipList } from './SkipList';
+import { compareKeys } from './keys';
 
-export class SimpleStorage {
-  private data = new Map<string, VersionedRow[]>();
+export class SimpleStorage implements StorageEngine {
+  readonly durable = false;
+  // Sorted by key so range scans and getAllKeys come back in key order
+  private data = new SkipList<string, VersionedRow[]>(compareKeys);
 
 insert(row: VersionedRow): void {
-    if (!this.data.has(row.key)) {
-      this.data.set(row.key, []);
+    let versions = this.data.get(row.key);
+    if (!versions) {
+      versions = [];
+      this.data.set(row.key, versions);
     }
     
-    const versions = this.data.get(row.key)!;
-    
     // Check if this row is updating an existing version
     // A tombstone (xmax !== null) should replace the version with same xmin and xmax:null
     if (row.xmax !== null) {
@@ -39,13 +44,18 @@ insert(row: VersionedRow): void {
   }
 
   getAllKeys(): string[] {
-    return Array.from(this.data.keys());
+    return Array.from(this.data.entries(), ([key]) => key);
+  }
+
+  entries(from?: string, reverse: boolean = false): IterableIterator<[string, VersionedRow[]]> {
+    return this.data.entries(from, reverse);
   }
 
   garbageCollect(globalOldestXmin: number, mvcc: MVCCEngine): number {
     let collected = 0;
+    const emptied: string[] = [];
 
-    for (const [key, versions] of this.data) {
+    for (const [key, versions] of this.data.entries()) {
       const kept = versions.filter(
         (row) => !mvcc.canGarbageCollect(row, globalOldestXmin)
       );
@@ -53,12 +63,19 @@ insert(row: VersionedRow): void {
       collected += versions.length - kept.length;
 
       if (kept.length === 0) {
-        this.data.delete(key);
+        emptied.push(key);
       } else {
         this.data.set(key, kept);
       }
     }
 
+    emptied.forEach(key => this.data.delete(key));
     return collected;
   }
+
+  flush(): void {
+    // Memory-only: checkpoints copy rows out instead
+  }
+
+  close(): void {}
 }
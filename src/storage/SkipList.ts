@@ -0,0 +1,135 @@
+const MAX_LEVEL = 16;
+const P = 0.5;
+
+/** Forward pointers, one per level; the head has nothing else */
+interface Links<K, V> {
+  next: Array<SkipNode<K, V> | null>;
+}
+
+interface SkipNode<K, V> extends Links<K, V> {
+  key: K;
+  value: V;
+}
+
+/**
+ * Ordered map backed by a skip list: O(log n) insert, lookup and delete,
+ * and in-order iteration in either direction from any key (used by the
+ * MemTable and SimpleStorage).
+ */
+export class SkipList<K, V> {
+  private head: Links<K, V>;
+  private level = 1;
+  private count = 0;
+
+  constructor(private compare: (a: K, b: K) => number) {
+    this.head = { next: new Array(MAX_LEVEL).fill(null) };
+  }
+
+  get size(): number {
+    return this.count;
+  }
+
+  get(key: K): V | undefined {
+    const node = this.findGreaterOrEqual(key, null);
+    return node && this.compare(node.key, key) === 0 ? node.value : undefined;
+  }
+
+  set(key: K, value: V): void {
+    const update = new Array<Links<K, V>>(MAX_LEVEL);
+    const node = this.findGreaterOrEqual(key, update);
+
+    if (node && this.compare(node.key, key) === 0) {
+      node.value = value;
+      return;
+    }
+
+    const level = this.randomLevel();
+    if (level > this.level) {
+      for (let i = this.level; i < level; i++) update[i] = this.head;
+      this.level = level;
+    }
+
+    const created: SkipNode<K, V> = { key, value, next: new Array(level).fill(null) };
+    for (let i = 0; i < level; i++) {
+      created.next[i] = update[i].next[i];
+      update[i].next[i] = created;
+    }
+    this.count++;
+  }
+
+  delete(key: K): boolean {
+    const update = new Array<Links<K, V>>(MAX_LEVEL);
+    const node = this.findGreaterOrEqual(key, update);
+    if (!node || this.compare(node.key, key) !== 0) return false;
+
+    for (let i = 0; i < node.next.length; i++) {
+      update[i].next[i] = node.next[i];
+    }
+    while (this.level > 1 && this.head.next[this.level - 1] === null) this.level--;
+    this.count--;
+    return true;
+  }
+
+  /**
+   * Entries in ascending key order starting at the first key >= from, or
+   * with reverse in descending order starting at the last key <= from.
+   */
+  *entries(from?: K, reverse: boolean = false): IterableIterator<[K, V]> {
+    if (reverse) {
+      // No back links: each step is a fresh O(log n) search below the last key
+      let node = this.findLastAtOrBelow(from, true);
+      while (node) {
+        yield [node.key, node.value];
+        node = this.findLastAtOrBelow(node.key, false);
+      }
+      return;
+    }
+
+    let node = from === undefined ? this.head.next[0] : this.findGreaterOrEqual(from, null);
+    while (node) {
+      yield [node.key, node.value];
+      node = node.next[0];
+    }
+  }
+
+  /** Last node with key <= bound (or < bound when not inclusive); no bound means the last node */
+  private findLastAtOrBelow(bound: K | undefined, inclusive: boolean): SkipNode<K, V> | null {
+    let node: Links<K, V> = this.head;
+    let last: SkipNode<K, V> | null = null;
+    for (let i = this.level - 1; i >= 0; i--) {
+      let next = node.next[i];
+      while (next && (bound === undefined || this.isBelow(next.key, bound, inclusive))) {
+        node = last = next;
+        next = node.next[i];
+      }
+    }
+    return last;
+  }
+
+  private isBelow(key: K, bound: K, inclusive: boolean): boolean {
+    const cmp = this.compare(key, bound);
+    return inclusive ? cmp <= 0 : cmp < 0;
+  }
+
+  private findGreaterOrEqual(
+    key: K,
+    update: Array<Links<K, V>> | null
+  ): SkipNode<K, V> | null {
+    let node: Links<K, V> = this.head;
+    for (let i = this.level - 1; i >= 0; i--) {
+      let next = node.next[i];
+      while (next && this.compare(next.key, key) < 0) {
+        node = next;
+        next = node.next[i];
+      }
+      if (update) update[i] = node;
+    }
+    return node.next[0];
+  }
+
+  private randomLevel(): number {
+    let level = 1;
+    while (level < MAX_LEVEL && Math.random() < P) level++;
+    return level;
+  }
+}
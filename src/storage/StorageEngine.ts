@@ -0,0 +1,32 @@
+import { VersionedRow } from '../mvcc/VersionedRow';
+import { MVCCEngine } from '../mvcc/MVCCEngine';
+
+/**
+ * Row-version store used by DatabaseService. Versions of a key are returned
+ * oldest first; inserting a tombstone (xmax set) replaces the live version
+ * with the same xmin.
+ */
+export interface StorageEngine {
+  /**
+   * True when the engine keeps its own data on disk. Checkpoints copy rows
+   * out of non-durable engines and only flush durable ones.
+   */
+  readonly durable: boolean;
+
+  insert(row: VersionedRow): void;
+  getAllVersions(key: string): VersionedRow[];
+  getLatestVersion(key: string): VersionedRow | null;
+  getAllKeys(): string[];
+
+  /**
+   * Keys with their versions in ascending key order, starting at the first
+   * key >= from; with reverse, descending from the last key <= from.
+   */
+  entries(from?: string, reverse?: boolean): IterableIterator<[string, VersionedRow[]]>;
+
+  garbageCollect(globalOldestXmin: number, mvcc: MVCCEngine): number;
+
+  /** Make everything inserted so far durable (no-op for memory engines) */
+  flush(): void;
+  close(): void;
+}
@@ -0,0 +1,4 @@
+/** Byte-order comparison used for every sorted key structure in storage */
+export function compareKeys(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
@@ -0,0 +1,73 @@
+export const DEFAULT_BLOOM_FP_RATE = 0.01;
+
+/**
+ * Probabilistic key set: mightContain() never returns false for an added
+ * key, and returns true for a missing key with roughly the configured
+ * false-positive rate. Probe positions use double hashing (h1 + i * h2).
+ */
+export class BloomFilter {
+  private constructor(
+    readonly bits: Buffer,
+    readonly numHashes: number
+  ) {}
+
+  /** Size a filter for expectedKeys at the given false-positive rate */
+  static create(expectedKeys: number, falsePositiveRate: number = DEFAULT_BLOOM_FP_RATE): BloomFilter {
+    if (!(falsePositiveRate > 0 && falsePositiveRate < 1)) {
+      throw new Error(`Bloom filter false-positive rate must be between 0 and 1, got ${falsePositiveRate}`);
+    }
+
+    const keys = Math.max(1, expectedKeys);
+    const numBits = Math.max(8, Math.ceil(-keys * Math.log(falsePositiveRate) / (Math.LN2 * Math.LN2)));
+    const numHashes = Math.max(1, Math.round((numBits / keys) * Math.LN2));
+    return new BloomFilter(Buffer.alloc(Math.ceil(numBits / 8)), numHashes);
+  }
+
+  static fromBuffer(bits: Buffer, numHashes: number): BloomFilter {
+    return new BloomFilter(bits, numHashes);
+  }
+
+  get sizeBytes(): number {
+    return this.bits.length;
+  }
+
+  add(key: string): void {
+    for (const bit of this.positions(key)) {
+      this.bits[bit >> 3] |= 1 << (bit & 7);
+    }
+  }
+
+  mightContain(key: string): boolean {
+    for (const bit of this.positions(key)) {
+      if ((this.bits[bit >> 3] & (1 << (bit & 7))) === 0) return false;
+    }
+    return true;
+  }
+
+  private positions(key: string): number[] {
+    const numBits = this.bits.length * 8;
+    const h1 = hash(key, 0);
+    const h2 = (hash(key, 0x9747b28c) | 1) >>> 0;  // odd, so probes never collapse onto h1
+
+    const positions = new Array<number>(this.numHashes);
+    for (let i = 0; i < this.numHashes; i++) {
+      positions[i] = (h1 + i * h2) % numBits;
+    }
+    return positions;
+  }
+}
+
+/** FNV-1a over UTF-16 code units with a murmur3 finalizer */
+function hash(key: string, seed: number): number {
+  let h = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    h ^= key.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  h ^= h >>> 16;
+  h = Math.imul(h, 0x85ebca6b);
+  h ^= h >>> 13;
+  h = Math.imul(h, 0xc2b2ae35);
+  h ^= h >>> 16;
+  return h >>> 0;
+}
@@ -0,0 +1,139 @@
+import { SSTable } from './SSTable';
+import { compareKeys } from '../keys';
+
+export type CompactionStrategy = 'size-tiered' | 'leveled';
+
+export interface CompactionOptions {
+  /** 'size-tiered' (default) merges runs of similar-sized tables; 'leveled' keeps L1+ non-overlapping */
+  strategy?: CompactionStrategy;
+  /** Size-tiered: similar-sized tables needed before they are merged */
+  minThreshold?: number;
+  /** Leveled: level-0 tables that trigger a merge into level 1 */
+  level0Trigger?: number;
+  /** Leveled: byte budget of level 1; each deeper level gets levelRatio times more */
+  levelBaseBytes?: number;
+  levelRatio?: number;
+  /** Leveled: outputs are split into files of roughly this size */
+  targetFileBytes?: number;
+  /** Period of the background compaction check; 0 only compacts after flushes */
+  intervalMs?: number;
+}
+
+export interface CompactionJob {
+  inputs: SSTable[];
+  targetLevel: number;
+  /** Split outputs once a file reaches this many bytes */
+  targetFileBytes: number;
+}
+
+/** Chooses which SSTables to merge next, given the live tables oldest first */
+export interface CompactionPolicy {
+  readonly strategy: CompactionStrategy;
+  pick(tables: readonly SSTable[]): CompactionJob | null;
+}
+
+const DEFAULT_MIN_THRESHOLD = 4;
+const DEFAULT_LEVEL0_TRIGGER = 4;
+const DEFAULT_LEVEL_BASE_BYTES = 10 * 1024 * 1024; // 10MB
+const DEFAULT_LEVEL_RATIO = 10;
+const DEFAULT_TARGET_FILE_BYTES = 2 * 1024 * 1024; // 2MB
+const MAX_LEVEL = 6;
+
+/** Tables within this factor of the run's average size count as one tier */
+const BUCKET_LOW = 0.5;
+const BUCKET_HIGH = 1.5;
+
+export function createCompactionPolicy(options: CompactionOptions = {}): CompactionPolicy {
+  return options.strategy === 'leveled'
+    ? new LeveledPolicy(options)
+    : new SizeTieredPolicy(options);
+}
+
+/**
+ * Size-tiered compaction: merge the oldest run of adjacent level-0 tables
+ * with similar sizes into one table. Only adjacent tables are merged so the
+ * output can take their place in the age order that reads rely on.
+ */
+export class SizeTieredPolicy implements CompactionPolicy {
+  readonly strategy = 'size-tiered';
+  private readonly minThreshold: number;
+
+  constructor(options: CompactionOptions = {}) {
+    this.minThreshold = Math.max(2, options.minThreshold ?? DEFAULT_MIN_THRESHOLD);
+  }
+
+  pick(tables: readonly SSTable[]): CompactionJob | null {
+    const level0 = tables.filter(table => table.level === 0);
+
+    for (let start = 0; start + this.minThreshold <= level0.length; start++) {
+      let end = start + this.minThreshold;
+      if (!isSimilar(level0.slice(start, end))) continue;
+
+      // Grow the run while the next table still belongs to the tier
+      while (end < level0.length && isSimilar(level0.slice(start, end + 1))) end++;
+
+      return { inputs: level0.slice(start, end), targetLevel: 0, targetFileBytes: Infinity };
+    }
+    return null;
+  }
+}
+
+/**
+ * Leveled compaction: level 0 holds overlapping flush output; every deeper
+ * level holds non-overlapping tables and a byte budget. A full level 0 is
+ * merged with the overlapping part of level 1, and a level over budget
+ * pushes its oldest table into the next one.
+ */
+export class LeveledPolicy implements CompactionPolicy {
+  readonly strategy = 'leveled';
+  private readonly level0Trigger: number;
+  private readonly levelBaseBytes: number;
+  private readonly levelRatio: number;
+  private readonly targetFileBytes: number;
+
+  constructor(options: CompactionOptions = {}) {
+    this.level0Trigger = options.level0Trigger ?? DEFAULT_LEVEL0_TRIGGER;
+    this.levelBaseBytes = options.levelBaseBytes ?? DEFAULT_LEVEL_BASE_BYTES;
+    this.levelRatio = options.levelRatio ?? DEFAULT_LEVEL_RATIO;
+    this.targetFileBytes = options.targetFileBytes ?? DEFAULT_TARGET_FILE_BYTES;
+  }
+
+  pick(tables: readonly SSTable[]): CompactionJob | null {
+    const level0 = tables.filter(table => table.level === 0);
+    if (level0.length >= this.level0Trigger) {
+      return this.job(level0, tables, 1);
+    }
+
+    for (let level = 1; level < MAX_LEVEL; level++) {
+      const inLevel = tables.filter(table => table.level === level);
+      const bytes = inLevel.reduce((sum, table) => sum + table.sizeBytes, 0);
+      if (bytes > this.levelBaseBytes * Math.pow(this.levelRatio, level - 1)) {
+        return this.job([inLevel[0]], tables, level + 1);
+      }
+    }
+    return null;
+  }
+
+  private job(sources: SSTable[], tables: readonly SSTable[], targetLevel: number): CompactionJob {
+    const overlapping = tables.filter(table =>
+      table.level === targetLevel && sources.some(source => overlaps(source, table))
+    );
+    return {
+      inputs: [...overlapping, ...sources],
+      targetLevel,
+      targetFileBytes: this.targetFileBytes,
+    };
+  }
+}
+
+function isSimilar(run: SSTable[]): boolean {
+  const average = run.reduce((sum, table) => sum + table.sizeBytes, 0) / run.length;
+  return run.every(table =>
+    table.sizeBytes >= average * BUCKET_LOW && table.sizeBytes <= average * BUCKET_HIGH
+  );
+}
+
+function overlaps(a: SSTable, b: SSTable): boolean {
+  if (a.minKey === null || b.minKey === null) return false;
+  return compareKeys(a.minKey, b.maxKey!) <= 0 && compareKeys(b.minKey, a.maxKey!) <= 0;
+}
@@ -0,0 +1,401 @@
+import fs from 'fs';
+import path from 'path';
+import { VersionedRow } from '../../mvcc/VersionedRow';
+import { MVCCEngine } from '../../mvcc/MVCCEngine';
+import { StorageEngine } from '../StorageEngine';
+import { MemTable } from './MemTable';
+import { SSTable, SSTableEntry, DEFAULT_BLOCK_SIZE } from './SSTable';
+import { DEFAULT_BLOOM_FP_RATE } from './BloomFilter';
+import { mergeEntries, mergeVersions } from './merge';
+import { CompactionJob, CompactionOptions, CompactionPolicy, createCompactionPolicy } from './Compaction';
+import { storageLogger } from '../../utils/logger';
+import { dbMetrics } from '../../monitoring/metrics';
+
+const MANIFEST_FILE = 'manifest.json';
+const SSTABLE_SUFFIX = '.sst';
+const DEFAULT_MEMTABLE_SIZE = 4 * 1024 * 1024; // 4MB
+const DEFAULT_COMPACTION_INTERVAL_MS = 60_000;
+
+export interface LSMOptions {
+  memTableSizeBytes?: number;
+  blockSizeBytes?: number;
+  /** Target false-positive rate of each SSTable's bloom filter */
+  bloomFalsePositiveRate?: number;
+  compaction?: CompactionOptions;
+}
+
+export interface CompactionStats {
+  compactions: number;
+  bytesRead: number;
+  bytesWritten: number;
+  versionsDropped: number;
+  /** (flushed + compacted bytes) / flushed bytes since open */
+  writeAmplification: number;
+}
+
+interface Manifest {
+  nextFileId: number;
+  sstables: Array<{ file: string; level: number }>;  // oldest first
+}
+
+/**
+ * Log-structured merge storage (docs/designs/LSM-Tree.md): writes go to a
+ * sorted MemTable that is flushed to immutable SSTables once it is full.
+ * Reads merge the MemTable with every SSTable, newer sources overriding
+ * older copies of the same version (matched by xmin).
+ *
+ * The manifest lists live SSTables and is replaced atomically; files not in
+ * it are leftovers of an interrupted flush or compaction and are removed on
+ * open.
+ *
+ * Compaction runs in the background after flushes and on a timer. It merges
+ * the tables picked by the CompactionPolicy and drops versions that
+ * MVCCEngine.canGarbageCollect approves for the horizon last passed to
+ * garbageCollect().
+ */
+export class LSMStorage implements StorageEngine {
+  readonly durable = true;
+
+  private log = storageLogger;
+  private readonly memTableSizeBytes: number;
+  private readonly blockSizeBytes: number;
+  private readonly bloomFalsePositiveRate: number;
+
+  private memTable = new MemTable();
+  private sstables: SSTable[] = [];  // oldest first
+  private nextFileId = 1;
+
+  private readonly policy: CompactionPolicy;
+  private compactionTimer: NodeJS.Timeout | null = null;
+  private pendingCompaction: NodeJS.Immediate | null = null;
+  private closed = false;
+
+  // Pruning horizon, refreshed by garbageCollect() after every commit
+  private gcHorizon = 0;
+  private mvcc: MVCCEngine | null = null;
+
+  private stats = { compactions: 0, bytesRead: 0, bytesWritten: 0, versionsDropped: 0, bytesFlushed: 0 };
+
+  constructor(private dir: string, options: LSMOptions = {}) {
+    this.memTableSizeBytes = options.memTableSizeBytes ?? DEFAULT_MEMTABLE_SIZE;
+    this.blockSizeBytes = options.blockSizeBytes ?? DEFAULT_BLOCK_SIZE;
+    this.bloomFalsePositiveRate = options.bloomFalsePositiveRate ?? DEFAULT_BLOOM_FP_RATE;
+    this.policy = createCompactionPolicy(options.compaction);
+
+    fs.mkdirSync(dir, { recursive: true });
+    this.loadManifest();
+
+    const intervalMs = options.compaction?.intervalMs ?? DEFAULT_COMPACTION_INTERVAL_MS;
+    if (intervalMs > 0) {
+      this.compactionTimer = setInterval(() => this.runBackgroundCompaction(), intervalMs);
+      this.compactionTimer.unref();
+    }
+  }
+
+  insert(row: VersionedRow): void {
+    this.memTable.insert(row);
+    dbMetrics.lsmMemTableBytes.set(this.memTable.sizeBytes);
+
+    if (this.memTable.sizeBytes >= this.memTableSizeBytes) {
+      this.flushMemTable();
+    }
+  }
+
+  getAllVersions(key: string): VersionedRow[] {
+    const merged: VersionedRow[] = [];
+
+    for (const table of this.sstables) {
+      const versions = table.get(key);
+      if (versions) mergeVersions(merged, versions);
+    }
+
+    const recent = this.memTable.get(key);
+    if (recent) mergeVersions(merged, recent);
+
+    return merged;
+  }
+
+  getLatestVersion(key: string): VersionedRow | null {
+    const versions = this.getAllVersions(key);
+    return versions.length > 0 ? versions[versions.length - 1] : null;
+  }
+
+  getAllKeys(): string[] {
+    const keys: string[] = [];
+    for (const [key] of this.entries()) {
+      keys.push(key);
+    }
+    return keys;
+  }
+
+  /** Merged view of every source in key order from `from` */
+  entries(from?: string, reverse: boolean = false): IterableIterator<SSTableEntry> {
+    // Oldest source first so newer versions override on merge
+    return mergeEntries([
+      ...this.sstables.map(table => table.entries(from, reverse)),
+      this.memTable.entries(from, reverse),
+    ], reverse);
+  }
+
+  /**
+   * SSTables are immutable, so obsolete versions cannot be dropped in place.
+   * Record the horizon for the compactor, which reclaims them when tables
+   * are rewritten.
+   */
+  garbageCollect(globalOldestXmin: number, mvcc: MVCCEngine): number {
+    this.gcHorizon = Math.max(this.gcHorizon, globalOldestXmin);
+    this.mvcc = mvcc;
+    return 0;
+  }
+
+  /** Run compactions until the policy has nothing left to merge */
+  compact(): number {
+    let runs = 0;
+    let job = this.policy.pick(this.sstables);
+    while (job && !this.closed) {
+      this.runCompaction(job);
+      runs++;
+      job = this.policy.pick(this.sstables);
+    }
+    return runs;
+  }
+
+  getCompactionStats(): CompactionStats {
+    const { bytesFlushed, ...stats } = this.stats;
+    return { ...stats, writeAmplification: this.writeAmplification() };
+  }
+
+  flush(): void {
+    if (this.memTable.keyCount > 0) {
+      this.flushMemTable();
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.compactionTimer) clearInterval(this.compactionTimer);
+    if (this.pendingCompaction) clearImmediate(this.pendingCompaction);
+    this.compactionTimer = null;
+    this.pendingCompaction = null;
+
+    for (const table of this.sstables) {
+      table.close();
+    }
+    this.sstables = [];
+  }
+
+  getSSTableCount(): number {
+    return this.sstables.length;
+  }
+
+  /** Write the MemTable to a new level-0 SSTable and start a fresh one */
+  private flushMemTable(): void {
+    const startTime = Date.now();
+    const file = this.allocateFile();
+
+    const table = SSTable.write(file, this.memTable.entries(), 0, this.blockSizeBytes, this.bloomFalsePositiveRate);
+    this.sstables.push(table);
+    this.writeManifest();
+
+    const flushedBytes = this.memTable.sizeBytes;
+    this.memTable = new MemTable();
+
+    this.stats.bytesFlushed += table.sizeBytes;
+
+    dbMetrics.lsmFlushesTotal.inc();
+    dbMetrics.lsmMemTableBytes.set(0);
+    dbMetrics.lsmSSTables.set(this.sstables.length);
+    dbMetrics.lsmWriteAmplification.set(this.writeAmplification());
+
+    this.log.info({
+      sstable: path.basename(file),
+      entries: table.entryCount,
+      memTableBytes: flushedBytes,
+      fileBytes: table.sizeBytes,
+      duration: Date.now() - startTime,
+      action: 'memtable_flush'
+    }, `MemTable flushed to SSTable`);
+
+    this.scheduleCompaction();
+  }
+
+  private scheduleCompaction(): void {
+    if (this.pendingCompaction || this.closed) return;
+
+    this.pendingCompaction = setImmediate(() => {
+      this.pendingCompaction = null;
+      this.runBackgroundCompaction();
+    });
+    this.pendingCompaction.unref();
+  }
+
+  private runBackgroundCompaction(): void {
+    if (this.closed) return;
+    try {
+      this.compact();
+    } catch (error) {
+      // Inputs stay live until the manifest swap, so a failed run loses nothing
+      this.log.error({
+        error: (error as Error).message,
+        action: 'compaction_failed'
+      }, `Background compaction failed`);
+    }
+  }
+
+  /**
+   * Merge the job's inputs into new tables at the target level, swap them
+   * into the manifest, then delete the inputs.
+   *
+   * A version is only dropped if no older table outside the job still holds
+   * a copy of it; otherwise dropping the tombstone would resurrect that copy.
+   */
+  private runCompaction(job: CompactionJob): void {
+    const startTime = Date.now();
+    const inputs = new Set(job.inputs);
+    const ordered = this.sstables.filter(table => inputs.has(table));
+    const newestIndex = this.sstables.indexOf(ordered[ordered.length - 1]);
+    const older = this.sstables.slice(0, newestIndex).filter(table => !inputs.has(table));
+
+    const horizon = this.gcHorizon;
+    const mvcc = this.mvcc;
+    let dropped = 0;
+
+    const isGarbage = (row: VersionedRow): boolean => {
+      if (!mvcc || !mvcc.canGarbageCollect(row, horizon)) return false;
+      return !older.some(table => table.get(row.key)?.some(v => v.xmin === row.xmin));
+    };
+
+    const merged = mergeEntries(ordered.map(table => table.entries()));
+    let next = merged.next();
+    const pruneNext = () => {
+      while (!next.done) {
+        const kept = next.value[1].filter(row => !isGarbage(row));
+        dropped += next.value[1].length - kept.length;
+        if (kept.length > 0) {
+          next.value = [next.value[0], kept];
+          return;
+        }
+        next = merged.next();
+      }
+    };
+    pruneNext();
+
+    // Each output takes entries until it reaches the target file size
+    const outputs: SSTable[] = [];
+    while (!next.done) {
+      let bytes = 0;
+      const chunk = function* (): IterableIterator<SSTableEntry> {
+        while (!next.done && bytes < job.targetFileBytes) {
+          const entry = next.value;
+          bytes += entry[0].length + JSON.stringify(entry[1]).length;
+          yield entry;
+          next = merged.next();
+          pruneNext();
+        }
+      };
+      outputs.push(SSTable.write(
+        this.allocateFile(), chunk(), job.targetLevel, this.blockSizeBytes, this.bloomFalsePositiveRate
+      ));
+    }
+
+    this.replaceSSTables(ordered, outputs);
+
+    const bytesRead = ordered.reduce((sum, table) => sum + table.sizeBytes, 0);
+    const bytesWritten = outputs.reduce((sum, table) => sum + table.sizeBytes, 0);
+    this.stats.compactions++;
+    this.stats.bytesRead += bytesRead;
+    this.stats.bytesWritten += bytesWritten;
+    this.stats.versionsDropped += dropped;
+
+    dbMetrics.lsmCompactionsTotal.inc({ strategy: this.policy.strategy });
+    dbMetrics.lsmCompactionBytes.inc({ direction: 'read' }, bytesRead);
+    dbMetrics.lsmCompactionBytes.inc({ direction: 'written' }, bytesWritten);
+    dbMetrics.lsmCompactionVersionsDropped.inc(dropped);
+    dbMetrics.lsmWriteAmplification.set(this.writeAmplification());
+    dbMetrics.lsmSSTables.set(this.sstables.length);
+
+    this.log.info({
+      strategy: this.policy.strategy,
+      inputs: ordered.map(table => path.basename(table.file)),
+      outputs: outputs.map(table => path.basename(table.file)),
+      targetLevel: job.targetLevel,
+      bytesRead,
+      bytesWritten,
+      versionsDropped: dropped,
+      oldestXmin: horizon,
+      duration: Date.now() - startTime,
+      action: 'compaction_complete'
+    }, `SSTables compacted`);
+  }
+
+  /**
+   * Put outputs where their inputs were in the age order, keeping deeper
+   * (older) levels first, and retire the inputs.
+   */
+  private replaceSSTables(inputs: SSTable[], outputs: SSTable[]): void {
+    const removed = new Set(inputs);
+    const firstIndex = this.sstables.indexOf(inputs[0]);
+
+    this.sstables = [
+      ...this.sstables.slice(0, firstIndex),
+      ...outputs,
+      ...this.sstables.slice(firstIndex).filter(table => !removed.has(table)),
+    ].sort((a, b) => b.level - a.level);
+    this.writeManifest();
+
+    for (const table of inputs) {
+      table.close();
+      fs.unlinkSync(table.file);
+    }
+  }
+
+  private writeAmplification(): number {
+    const { bytesFlushed, bytesWritten } = this.stats;
+    return bytesFlushed > 0 ? (bytesFlushed + bytesWritten) / bytesFlushed : 1;
+  }
+
+  private allocateFile(): string {
+    const name = String(this.nextFileId++).padStart(6, '0') + SSTABLE_SUFFIX;
+    return path.join(this.dir, name);
+  }
+
+  private loadManifest(): void {
+    const manifestPath = path.join(this.dir, MANIFEST_FILE);
+    if (fs.existsSync(manifestPath)) {
+      const manifest: Manifest = JSON.parse(fs.readFileSync(manifestPath, 'utf8'));
+      this.nextFileId = manifest.nextFileId;
+      this.sstables = manifest.sstables.map(entry => SSTable.open(path.join(this.dir, entry.file)));
+    }
+
+    const live = new Set(this.sstables.map(table => path.basename(table.file)));
+    for (const name of fs.readdirSync(this.dir)) {
+      if (name.endsWith(SSTABLE_SUFFIX) && !live.has(name)) {
+        this.log.warn({ sstable: name, action: 'sstable_orphan' }, 'Removing SSTable not in manifest');
+        fs.unlinkSync(path.join(this.dir, name));
+      }
+    }
+
+    dbMetrics.lsmSSTables.set(this.sstables.length);
+  }
+
+  private writeManifest(): void {
+    const manifest: Manifest = {
+      nextFileId: this.nextFileId,
+      sstables: this.sstables.map(table => ({
+        file: path.basename(table.file),
+        level: table.level,
+      })),
+    };
+
+    const manifestPath = path.join(this.dir, MANIFEST_FILE);
+    const tmpPath = manifestPath + '.tmp';
+    const fd = fs.openSync(tmpPath, 'w');
+    try {
+      fs.writeSync(fd, JSON.stringify(manifest));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmpPath, manifestPath);
+  }
+}
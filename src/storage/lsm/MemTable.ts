@@ -0,0 +1,55 @@
+import { VersionedRow } from '../../mvcc/VersionedRow';
+import { SkipList } from '../SkipList';
+import { compareKeys } from '../keys';
+
+/**
+ * Mutable, sorted in-memory buffer for recent writes. Versions of a key keep
+ * SimpleStorage semantics: a tombstone replaces the live version with the
+ * same xmin if that version is also in the MemTable. Otherwise the tombstone
+ * is kept and shadows the older copy in an SSTable on read.
+ */
+export class MemTable {
+  private rows = new SkipList<string, VersionedRow[]>(compareKeys);
+  private bytes = 0;
+
+  insert(row: VersionedRow): void {
+    let versions = this.rows.get(row.key);
+    if (!versions) {
+      versions = [];
+      this.rows.set(row.key, versions);
+    }
+
+    this.bytes += estimateRowSize(row);
+
+    if (row.xmax !== null) {
+      const index = versions.findIndex(v => v.xmin === row.xmin && v.xmax === null);
+      if (index !== -1) {
+        versions[index] = row;
+        return;
+      }
+    }
+
+    versions.push(row);
+  }
+
+  get(key: string): VersionedRow[] | undefined {
+    return this.rows.get(key);
+  }
+
+  /** Entries in key order from `from` (see SkipList.entries) */
+  entries(from?: string, reverse: boolean = false): IterableIterator<[string, VersionedRow[]]> {
+    return this.rows.entries(from, reverse);
+  }
+
+  get sizeBytes(): number {
+    return this.bytes;
+  }
+
+  get keyCount(): number {
+    return this.rows.size;
+  }
+}
+
+export function estimateRowSize(row: VersionedRow): number {
+  return row.key.length + JSON.stringify(row.data ?? null).length + 16;
+}
@@ -0,0 +1,264 @@
+import fs from 'fs';
+import path from 'path';
+import { VersionedRow } from '../../mvcc/VersionedRow';
+import { crc32 } from '../../wal/crc32';
+import { compareKeys } from '../keys';
+import { BloomFilter, DEFAULT_BLOOM_FP_RATE } from './BloomFilter';
+import { dbMetrics } from '../../monitoring/metrics';
+
+// File layout (see docs/designs/LSM-Tree.md):
+//   [data block 0][data block 1]...[bloom filter][index block][footer]
+// Each data block is a JSON array of [key, versions] entries in key order.
+// The bloom filter is raw bits; the index records where it is.
+// The footer is [index offset: u32][index length: u32][crc32(index): u32][magic: u32].
+const FOOTER_BYTES = 16;
+const MAGIC = 0x4c534d31; // "LSM1"
+
+export const DEFAULT_BLOCK_SIZE = 4096;
+
+export type SSTableEntry = [string, VersionedRow[]];
+
+interface BlockHandle {
+  firstKey: string;
+  lastKey: string;
+  offset: number;
+  length: number;
+  crc: number;
+}
+
+interface BloomHandle {
+  offset: number;
+  length: number;
+  crc: number;
+  numHashes: number;
+}
+
+interface IndexBlock {
+  level: number;
+  entryCount: number;
+  blocks: BlockHandle[];
+  bloom?: BloomHandle;  // absent in tables written before filters existed
+}
+
+/**
+ * Immutable sorted file of row versions. Only the block index and bloom
+ * filter are kept in memory; point lookups skip the table when the filter
+ * rules the key out, otherwise binary-search the index and read one block.
+ */
+export class SSTable {
+  private constructor(
+    readonly file: string,
+    readonly level: number,
+    readonly entryCount: number,
+    readonly sizeBytes: number,
+    private blocks: BlockHandle[],
+    private bloom: BloomFilter | null,
+    private fd: number
+  ) {}
+
+  /** Write entries (already in key order) to a new SSTable and open it */
+  static write(
+    file: string,
+    entries: Iterable<SSTableEntry>,
+    level: number,
+    blockSizeBytes: number = DEFAULT_BLOCK_SIZE,
+    bloomFalsePositiveRate: number = DEFAULT_BLOOM_FP_RATE
+  ): SSTable {
+    const fd = fs.openSync(file, 'w');
+    const blocks: BlockHandle[] = [];
+    const keys: string[] = [];
+    let offset = 0;
+    let entryCount = 0;
+
+    let pending: SSTableEntry[] = [];
+    let pendingBytes = 0;
+
+    const sealBlock = () => {
+      if (pending.length === 0) return;
+      const buf = Buffer.from(JSON.stringify(pending), 'utf8');
+      fs.writeSync(fd, buf);
+      blocks.push({
+        firstKey: pending[0][0],
+        lastKey: pending[pending.length - 1][0],
+        offset,
+        length: buf.length,
+        crc: crc32(buf),
+      });
+      offset += buf.length;
+      pending = [];
+      pendingBytes = 0;
+    };
+
+    try {
+      for (const [key, versions] of entries) {
+        if (versions.length === 0) continue;
+        pending.push([key, versions]);
+        keys.push(key);
+        pendingBytes += key.length + JSON.stringify(versions).length;
+        entryCount++;
+        if (pendingBytes >= blockSizeBytes) sealBlock();
+      }
+      sealBlock();
+
+      // The filter is sized once the key count is known
+      const bloom = BloomFilter.create(keys.length, bloomFalsePositiveRate);
+      keys.forEach(key => bloom.add(key));
+      fs.writeSync(fd, bloom.bits);
+      const bloomHandle: BloomHandle = {
+        offset,
+        length: bloom.sizeBytes,
+        crc: crc32(bloom.bits),
+        numHashes: bloom.numHashes,
+      };
+      offset += bloom.sizeBytes;
+
+      const index: IndexBlock = { level, entryCount, blocks, bloom: bloomHandle };
+      const indexBuf = Buffer.from(JSON.stringify(index), 'utf8');
+      fs.writeSync(fd, indexBuf);
+
+      const footer = Buffer.alloc(FOOTER_BYTES);
+      footer.writeUInt32LE(offset, 0);
+      footer.writeUInt32LE(indexBuf.length, 4);
+      footer.writeUInt32LE(crc32(indexBuf), 8);
+      footer.writeUInt32LE(MAGIC, 12);
+      fs.writeSync(fd, footer);
+
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    return SSTable.open(file);
+  }
+
+  static open(file: string): SSTable {
+    const fd = fs.openSync(file, 'r');
+    try {
+      const size = fs.fstatSync(fd).size;
+      if (size < FOOTER_BYTES) throw new Error(`SSTable ${path.basename(file)} is truncated`);
+
+      const footer = Buffer.alloc(FOOTER_BYTES);
+      fs.readSync(fd, footer, 0, FOOTER_BYTES, size - FOOTER_BYTES);
+      if (footer.readUInt32LE(12) !== MAGIC) {
+        throw new Error(`SSTable ${path.basename(file)} has a bad footer`);
+      }
+
+      const indexOffset = footer.readUInt32LE(0);
+      const indexLength = footer.readUInt32LE(4);
+      const indexBuf = Buffer.alloc(indexLength);
+      fs.readSync(fd, indexBuf, 0, indexLength, indexOffset);
+      if (crc32(indexBuf) !== footer.readUInt32LE(8)) {
+        throw new Error(`SSTable ${path.basename(file)} index checksum mismatch`);
+      }
+
+      const index: IndexBlock = JSON.parse(indexBuf.toString('utf8'));
+      let bloom: BloomFilter | null = null;
+      if (index.bloom) {
+        const bits = Buffer.alloc(index.bloom.length);
+        fs.readSync(fd, bits, 0, bits.length, index.bloom.offset);
+        if (crc32(bits) !== index.bloom.crc) {
+          throw new Error(`SSTable ${path.basename(file)} bloom filter checksum mismatch`);
+        }
+        bloom = BloomFilter.fromBuffer(bits, index.bloom.numHashes);
+      }
+
+      return new SSTable(file, index.level, index.entryCount, size, index.blocks, bloom, fd);
+    } catch (error) {
+      fs.closeSync(fd);
+      throw error;
+    }
+  }
+
+  get minKey(): string | null {
+    return this.blocks.length > 0 ? this.blocks[0].firstKey : null;
+  }
+
+  get maxKey(): string | null {
+    return this.blocks.length > 0 ? this.blocks[this.blocks.length - 1].lastKey : null;
+  }
+
+  /** Versions stored for key, or undefined if the table does not hold it */
+  get(key: string): VersionedRow[] | undefined {
+    const blockIndex = this.findBlock(key);
+    if (blockIndex === -1) return undefined;
+
+    if (this.bloom && !this.bloom.mightContain(key)) {
+      dbMetrics.lsmBloomFilterChecks.inc({ result: 'miss' });
+      return undefined;
+    }
+
+    const versions = this.searchBlock(this.blocks[blockIndex], key);
+    if (this.bloom) {
+      dbMetrics.lsmBloomFilterChecks.inc({ result: versions ? 'hit' : 'false_positive' });
+    }
+    return versions;
+  }
+
+  /**
+   * Entries in key order, starting at the first key >= from; with reverse,
+   * in descending order starting at the last key <= from.
+   */
+  *entries(from?: string, reverse: boolean = false): IterableIterator<SSTableEntry> {
+    if (reverse) {
+      for (let i = this.blocks.length - 1; i >= 0; i--) {
+        const block = this.blocks[i];
+        if (from !== undefined && compareKeys(block.firstKey, from) > 0) continue;
+        const entries = this.readBlock(block);
+        for (let j = entries.length - 1; j >= 0; j--) {
+          if (from !== undefined && compareKeys(entries[j][0], from) > 0) continue;
+          yield entries[j];
+        }
+      }
+      return;
+    }
+
+    for (const block of this.blocks) {
+      if (from !== undefined && compareKeys(block.lastKey, from) < 0) continue;
+      for (const entry of this.readBlock(block)) {
+        if (from !== undefined && compareKeys(entry[0], from) < 0) continue;
+        yield entry;
+      }
+    }
+  }
+
+  close(): void {
+    fs.closeSync(this.fd);
+  }
+
+  private searchBlock(block: BlockHandle, key: string): VersionedRow[] | undefined {
+    const entries = this.readBlock(block);
+    let lo = 0;
+    let hi = entries.length - 1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      const cmp = compareKeys(entries[mid][0], key);
+      if (cmp === 0) return entries[mid][1];
+      if (cmp < 0) lo = mid + 1;
+      else hi = mid - 1;
+    }
+    return undefined;
+  }
+
+  /** Index of the only block that can contain key, or -1 */
+  private findBlock(key: string): number {
+    let lo = 0;
+    let hi = this.blocks.length - 1;
+    while (lo <= hi) {
+      const mid = (lo + hi) >> 1;
+      const block = this.blocks[mid];
+      if (compareKeys(key, block.firstKey) < 0) hi = mid - 1;
+      else if (compareKeys(key, block.lastKey) > 0) lo = mid + 1;
+      else return mid;
+    }
+    return -1;
+  }
+
+  private readBlock(block: BlockHandle): SSTableEntry[] {
+    const buf = Buffer.alloc(block.length);
+    fs.readSync(this.fd, buf, 0, block.length, block.offset);
+    if (crc32(buf) !== block.crc) {
+      throw new Error(`SSTable ${path.basename(this.file)} block at ${block.offset} is corrupt`);
+    }
+    return JSON.parse(buf.toString('utf8'));
+  }
+}
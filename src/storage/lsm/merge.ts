@@ -0,0 +1,49 @@
+import { VersionedRow } from '../../mvcc/VersionedRow';
+import { compareKeys } from '../keys';
+import { SSTableEntry } from './SSTable';
+
+/** Merge newer versions into older ones; a newer copy of an xmin replaces the older */
+export function mergeVersions(into: VersionedRow[], newer: VersionedRow[]): void {
+  for (const row of newer) {
+    const index = into.findIndex(v => v.xmin === row.xmin);
+    if (index !== -1) {
+      into[index] = row;
+    } else {
+      into.push(row);
+    }
+  }
+}
+
+/**
+ * K-way merge of sorted sources, ordered oldest first. Yields each key once
+ * with the versions of every source merged in age order. With reverse the
+ * sources must be descending and so is the output.
+ */
+export function* mergeEntries(
+  sources: Array<Iterator<SSTableEntry>>,
+  reverse: boolean = false
+): IterableIterator<SSTableEntry> {
+  const heads = sources.map(source => source.next());
+  const direction = reverse ? -1 : 1;
+
+  while (true) {
+    let nextKey: string | null = null;
+    for (const head of heads) {
+      if (!head.done && (nextKey === null || direction * compareKeys(head.value[0], nextKey) < 0)) {
+        nextKey = head.value[0];
+      }
+    }
+    if (nextKey === null) return;
+
+    const merged: VersionedRow[] = [];
+    for (let i = 0; i < heads.length; i++) {
+      const head = heads[i];
+      if (!head.done && head.value[0] === nextKey) {
+        mergeVersions(merged, head.value[1]);
+        heads[i] = sources[i].next();
+      }
+    }
+
+    if (merged.length > 0) yield [nextKey, merged];
+  }
+}
@@ -1,24 +1,217 @@
+import fs from 'fs';
+import path from 'path';
+import { transactionLogger } from '../utils/logger';
+import { dbMetrics } from '../monitoring/metrics';
+
+export enum TxnStatus {
+  IN_PROGRESS = 0,
+  COMMITTED = 1,
+  ABORTED = 2,
+  SUB_COMMITTED = 3,
+}
+
+export interface CommitTableOptions {
+  /** Directory for page files. Without it the table is memory-only. */
+  dir?: string;
+  /** Transactions per page (4 per byte). Defaults to 32768 (8KB pages). */
+  xidsPerPage?: number;
+}
+
+const STATUS_BITS = 2;
+const XIDS_PER_BYTE = 8 / STATUS_BITS;
+const DEFAULT_XIDS_PER_PAGE = 8192 * XIDS_PER_BYTE;
+const META_FILE = 'meta.json';
+
+/**
+ * Transaction status store, the pg_xact equivalent: 2 bits per transaction
+ * id, grouped into fixed-size pages that are written to disk on flush().
+ *
+ * Statuses for transactions after the last flush are rebuilt from the WAL
+ * during recovery, so pages only need to reach disk at checkpoints.
+ *
+ * Pages wholly below the global oldest xmin can be truncated. Only
+ * committed transactions ever write to storage, so any id older than the
+ * truncation horizon is reported as COMMITTED (frozen).
+ */
 export class CommitTable {
-    private committed = new Set<number>();
-    private aborted = new Set<number>();
-  
-    markCommitted(txnId: number): void {
-      this.committed.add(txnId);
+  private log = transactionLogger;
+  private readonly dir: string | null;
+  private readonly xidsPerPage: number;
+
+  private pages = new Map<number, Uint8Array>();
+  private dirty = new Set<number>();
+  private truncatedBefore = 0; // First transaction id that still has a page
+
+  constructor(options: CommitTableOptions = {}) {
+    this.dir = options.dir ?? null;
+    this.xidsPerPage = options.xidsPerPage ?? DEFAULT_XIDS_PER_PAGE;
+
+    if (this.dir) {
+      fs.mkdirSync(this.dir, { recursive: true });
+      this.load();
     }
-  
-    markAborted(txnId: number): void {
-      this.aborted.add(txnId);
+  }
+
+  getStatus(txnId: number): TxnStatus {
+    if (txnId < this.truncatedBefore) return TxnStatus.COMMITTED;
+
+    const page = this.pages.get(this.pageOf(txnId));
+    if (!page) return TxnStatus.IN_PROGRESS;
+
+    const { byte, shift } = this.slotOf(txnId);
+    return (page[byte] >> shift) & 0b11;
+  }
+
+  markCommitted(txnId: number): void {
+    this.setStatus(txnId, TxnStatus.COMMITTED);
+  }
+
+  markAborted(txnId: number): void {
+    this.setStatus(txnId, TxnStatus.ABORTED);
+  }
+
+  markSubCommitted(txnId: number): void {
+    this.setStatus(txnId, TxnStatus.SUB_COMMITTED);
+  }
+
+  isCommitted(txnId: number): boolean {
+    return this.getStatus(txnId) === TxnStatus.COMMITTED;
+  }
+
+  isAborted(txnId: number): boolean {
+    return this.getStatus(txnId) === TxnStatus.ABORTED;
+  }
+
+  isInProgress(txnId: number): boolean {
+    return this.getStatus(txnId) === TxnStatus.IN_PROGRESS;
+  }
+
+  /** Write every dirty page to disk (no-op for memory-only tables) */
+  flush(): void {
+    if (!this.dir) {
+      this.dirty.clear();
+      return;
     }
-  
-    isCommitted(txnId: number): boolean {
-      return this.committed.has(txnId);
+
+    for (const pageNo of this.dirty) {
+      const page = this.pages.get(pageNo);
+      if (page) this.writeFileAtomic(this.pagePath(pageNo), page);
     }
-  
-    isAborted(txnId: number): boolean {
-      return this.aborted.has(txnId);
+
+    this.log.debug({
+      pagesWritten: this.dirty.size,
+      action: 'commit_table_flush'
+    }, `Commit table flushed`);
+
+    this.dirty.clear();
+  }
+
+  /**
+   * Drop pages whose transactions are all older than oldestXmin. Returns
+   * the number of pages removed.
+   */
+  truncate(oldestXmin: number): number {
+    const horizonPage = this.pageOf(oldestXmin);
+    const newTruncatedBefore = horizonPage * this.xidsPerPage;
+    if (newTruncatedBefore <= this.truncatedBefore) return 0;
+
+    const stale = Array.from(this.pages.keys()).filter(pageNo => pageNo < horizonPage);
+    this.truncatedBefore = newTruncatedBefore;
+
+    // Persist the horizon before deleting pages, so a crash in between
+    // never leaves ids without a status
+    if (this.dir) {
+      this.writeMeta();
     }
-  
-    isInProgress(txnId: number): boolean {
-      return !this.committed.has(txnId) && !this.aborted.has(txnId);
+
+    for (const pageNo of stale) {
+      this.pages.delete(pageNo);
+      this.dirty.delete(pageNo);
+      if (this.dir) {
+        fs.rmSync(this.pagePath(pageNo), { force: true });
+      }
     }
-  }
\ No newline at end of file
+
+    dbMetrics.commitTablePages.set(this.pages.size);
+
+    if (stale.length > 0) {
+      this.log.info({
+        oldestXmin,
+        truncatedBefore: this.truncatedBefore,
+        pagesRemoved: stale.length,
+        action: 'commit_table_truncate'
+      }, `Commit table truncated`);
+    }
+
+    return stale.length;
+  }
+
+  getPageCount(): number {
+    return this.pages.size;
+  }
+
+  private setStatus(txnId: number, status: TxnStatus): void {
+    if (txnId < this.truncatedBefore) return;
+
+    const pageNo = this.pageOf(txnId);
+    let page = this.pages.get(pageNo);
+    if (!page) {
+      page = new Uint8Array(this.xidsPerPage / XIDS_PER_BYTE);
+      this.pages.set(pageNo, page);
+      dbMetrics.commitTablePages.set(this.pages.size);
+    }
+
+    const { byte, shift } = this.slotOf(txnId);
+    page[byte] = (page[byte] & ~(0b11 << shift)) | (status << shift);
+    this.dirty.add(pageNo);
+  }
+
+  private pageOf(txnId: number): number {
+    return Math.floor(txnId / this.xidsPerPage);
+  }
+
+  private slotOf(txnId: number): { byte: number; shift: number } {
+    const offset = txnId % this.xidsPerPage;
+    return {
+      byte: Math.floor(offset / XIDS_PER_BYTE),
+      shift: (offset % XIDS_PER_BYTE) * STATUS_BITS,
+    };
+  }
+
+  private load(): void {
+    const metaPath = path.join(this.dir!, META_FILE);
+    if (fs.existsSync(metaPath)) {
+      this.truncatedBefore = JSON.parse(fs.readFileSync(metaPath, 'utf8')).truncatedBefore;
+    }
+
+    for (const name of fs.readdirSync(this.dir!)) {
+      if (!/^\d+$/.test(name)) continue;
+      const pageNo = Number(name);
+      if (pageNo * this.xidsPerPage < this.truncatedBefore) continue;
+      this.pages.set(pageNo, new Uint8Array(fs.readFileSync(path.join(this.dir!, name))));
+    }
+
+    dbMetrics.commitTablePages.set(this.pages.size);
+  }
+
+  private writeMeta(): void {
+    const meta = JSON.stringify({ truncatedBefore: this.truncatedBefore });
+    this.writeFileAtomic(path.join(this.dir!, META_FILE), Buffer.from(meta, 'utf8'));
+  }
+
+  private pagePath(pageNo: number): string {
+    return path.join(this.dir!, String(pageNo).padStart(4, '0'));
+  }
+
+  private writeFileAtomic(file: string, data: Uint8Array): void {
+    const tmp = file + '.tmp';
+    const fd = fs.openSync(tmp, 'w');
+    try {
+      fs.writeSync(fd, data);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+    fs.renameSync(tmp, file);
+  }
+}
@@ -0,0 +1,300 @@
+import { transactionLogger } from '../utils/logger';
+import { dbMetrics } from '../monitoring/metrics';
+import { DeadlockError, LockTimeoutError } from '../db/errors';
+
+/** SHARE (SELECT FOR SHARE) locks are compatible with each other only */
+export enum LockMode {
+  SHARE = 'SHARE',
+  EXCLUSIVE = 'EXCLUSIVE',
+}
+
+export interface LockManagerOptions {
+  /** Give up on a lock wait after this long (0 = wait forever) */
+  lockTimeoutMs?: number;
+  /** How often to look for wait cycles while anyone is waiting */
+  deadlockCheckIntervalMs?: number;
+}
+
+/** One row's lock as reported by the /locks view */
+export interface LockInfo {
+  key: string;
+  holders: { txnId: number; mode: LockMode }[];
+  waiters: { txnId: number; mode: LockMode; waitingMs: number }[];
+}
+
+interface LockRequest {
+  txnId: number;
+  mode: LockMode;
+  since: number;
+  timer?: NodeJS.Timeout;
+  grant: () => void;
+  fail: (error: Error) => void;
+}
+
+interface RowLock {
+  holders: Map<number, LockMode>;
+  waiters: LockRequest[];  // FIFO
+}
+
+const DEFAULT_DEADLOCK_CHECK_INTERVAL_MS = 1000;
+
+/**
+ * Row-level locks keyed by primary key, held until the owning transaction
+ * commits or aborts. Waiters queue in arrival order, so a stream of SHARE
+ * requests cannot starve an EXCLUSIVE one; a holder upgrading its own lock
+ * only waits for the other holders.
+ *
+ * While any request is waiting, a timer builds the wait-for graph and fails
+ * the youngest transaction in each cycle with DeadlockError. The caller is
+ * expected to abort it, which releases its locks.
+ */
+export class LockManager {
+  private log = transactionLogger;
+  private locks = new Map<string, RowLock>();
+  private held = new Map<number, Set<string>>();  // txn -> keys it holds
+  private lockTimeoutMs: number;
+  private deadlockCheckIntervalMs: number;
+  private deadlockTimer: NodeJS.Timeout | null = null;
+
+  constructor(options: LockManagerOptions = {}) {
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 0;
+    this.deadlockCheckIntervalMs = options.deadlockCheckIntervalMs ?? DEFAULT_DEADLOCK_CHECK_INTERVAL_MS;
+  }
+
+  /** Take the lock if it can be granted now */
+  tryAcquire(txnId: number, key: string, mode: LockMode): boolean {
+    const lock = this.locks.get(key);
+    if (lock && (!this.isCompatible(lock, txnId, mode) || (!lock.holders.has(txnId) && lock.waiters.length > 0))) {
+      return false;
+    }
+    this.grant(txnId, key, mode);
+    return true;
+  }
+
+  /**
+   * Take the lock, queueing behind conflicting holders; resolves once granted.
+   * Rejects with DeadlockError or LockTimeoutError if the wait is given up.
+   */
+  acquire(txnId: number, key: string, mode: LockMode): Promise<void> {
+    if (this.tryAcquire(txnId, key, mode)) {
+      return Promise.resolve();
+    }
+
+    dbMetrics.lockWaits.inc({ mode });
+    this.log.debug({ txId: txnId, key, mode, holders: this.holdersOf(key), action: 'lock_wait' }, `Waiting for row lock`);
+
+    return new Promise<void>((resolve, reject) => {
+      const lock = this.locks.get(key)!;
+      const request: LockRequest = {
+        txnId,
+        mode,
+        since: Date.now(),
+        grant: () => {
+          clearTimeout(request.timer);
+          this.grant(txnId, key, mode);
+          resolve();
+        },
+        fail: (error: Error) => {
+          clearTimeout(request.timer);
+          reject(error);
+        },
+      };
+
+      if (this.lockTimeoutMs > 0) {
+        request.timer = setTimeout(() => {
+          dbMetrics.lockTimeouts.inc();
+          this.log.warn({ txId: txnId, key, timeoutMs: this.lockTimeoutMs, action: 'lock_timeout' }, `Lock wait timed out`);
+          this.cancelWait(key, request, new LockTimeoutError(key, this.lockTimeoutMs));
+        }, this.lockTimeoutMs);
+        request.timer.unref();
+      }
+
+      // An upgrade only waits for the other holders, so it goes ahead of
+      // requests from transactions that do not hold the lock yet
+      const outsider = lock.holders.has(txnId)
+        ? lock.waiters.findIndex(waiter => !lock.holders.has(waiter.txnId))
+        : -1;
+      if (outsider >= 0) {
+        lock.waiters.splice(outsider, 0, request);
+      } else {
+        lock.waiters.push(request);
+      }
+      this.scheduleDeadlockCheck();
+    });
+  }
+
+  /** Transactions other than txnId holding a lock on key */
+  holdersOf(key: string, txnId?: number): number[] {
+    const holders = this.locks.get(key)?.holders.keys() ?? [];
+    return Array.from(holders).filter(id => id !== txnId);
+  }
+
+  /**
+   * Release every lock a transaction holds and fail any request it is still
+   * waiting on, then grant queued requests that have become compatible.
+   */
+  releaseAll(txnId: number): void {
+    const cancelled = new Error(`Transaction ${txnId} ended while waiting for a row lock`);
+    this.failWaits(txnId, cancelled);
+
+    const keys = this.held.get(txnId) ?? new Set<string>();
+    this.held.delete(txnId);
+    for (const key of keys) {
+      const lock = this.locks.get(key);
+      if (!lock) continue;
+      lock.holders.delete(txnId);
+      this.grantWaiters(key, lock);
+    }
+  }
+
+  /** Every lock with holders or waiters, for the /locks view */
+  getLocks(): LockInfo[] {
+    const now = Date.now();
+    return Array.from(this.locks, ([key, lock]) => ({
+      key,
+      holders: Array.from(lock.holders, ([txnId, mode]) => ({ txnId, mode })),
+      waiters: lock.waiters.map(({ txnId, mode, since }) => ({ txnId, mode, waitingMs: now - since })),
+    }));
+  }
+
+  /**
+   * Break every cycle in the wait-for graph by failing the waits of its
+   * youngest (highest id) transaction. Returns the victims.
+   */
+  detectDeadlocks(): number[] {
+    const victims: number[] = [];
+
+    for (let cycle = findCycle(this.waitsFor()); cycle; cycle = findCycle(this.waitsFor())) {
+      const victim = Math.max(...cycle);
+      victims.push(victim);
+      dbMetrics.deadlocks.inc();
+      this.log.warn({ txId: victim, cycle, action: 'deadlock' }, `Deadlock detected, aborting youngest transaction`);
+      this.failWaits(victim, new DeadlockError(victim, cycle));
+    }
+    return victims;
+  }
+
+  close(): void {
+    if (this.deadlockTimer) {
+      clearInterval(this.deadlockTimer);
+      this.deadlockTimer = null;
+    }
+  }
+
+  /** Edges from each waiting transaction to the holders and earlier waiters it conflicts with */
+  private waitsFor(): Map<number, Set<number>> {
+    const graph = new Map<number, Set<number>>();
+
+    for (const lock of this.locks.values()) {
+      lock.waiters.forEach((request, position) => {
+        const blockers = graph.get(request.txnId) ?? new Set<number>();
+        for (const [holder, mode] of lock.holders) {
+          if (holder !== request.txnId && conflicts(mode, request.mode)) blockers.add(holder);
+        }
+        for (const earlier of lock.waiters.slice(0, position)) {
+          if (earlier.txnId !== request.txnId && conflicts(earlier.mode, request.mode)) blockers.add(earlier.txnId);
+        }
+        graph.set(request.txnId, blockers);
+      });
+    }
+    return graph;
+  }
+
+  private failWaits(txnId: number, error: Error): void {
+    for (const [key, lock] of this.locks) {
+      for (const request of lock.waiters.filter(waiter => waiter.txnId === txnId)) {
+        this.cancelWait(key, request, error);
+      }
+    }
+  }
+
+  private cancelWait(key: string, request: LockRequest, error: Error): void {
+    const lock = this.locks.get(key);
+    if (!lock || !lock.waiters.includes(request)) return;
+
+    lock.waiters = lock.waiters.filter(waiter => waiter !== request);
+    request.fail(error);
+    // Requests queued behind this one may be grantable now
+    this.grantWaiters(key, lock);
+  }
+
+  private grantWaiters(key: string, lock: RowLock): void {
+    while (lock.waiters.length > 0 && this.isCompatible(lock, lock.waiters[0].txnId, lock.waiters[0].mode)) {
+      lock.waiters.shift()!.grant();
+    }
+    if (lock.holders.size === 0 && lock.waiters.length === 0) {
+      this.locks.delete(key);
+    }
+    this.scheduleDeadlockCheck();
+  }
+
+  private grant(txnId: number, key: string, mode: LockMode): void {
+    let lock = this.locks.get(key);
+    if (!lock) {
+      lock = { holders: new Map(), waiters: [] };
+      this.locks.set(key, lock);
+    }
+    if (lock.holders.get(txnId) !== LockMode.EXCLUSIVE) {
+      lock.holders.set(txnId, mode);
+    }
+
+    let keys = this.held.get(txnId);
+    if (!keys) {
+      keys = new Set();
+      this.held.set(txnId, keys);
+    }
+    keys.add(key);
+  }
+
+  private isCompatible(lock: RowLock, txnId: number, mode: LockMode): boolean {
+    for (const [holder, held] of lock.holders) {
+      if (holder !== txnId && conflicts(held, mode)) return false;
+    }
+    return true;
+  }
+
+  /** Run the deadlock check only while some request is waiting */
+  private scheduleDeadlockCheck(): void {
+    const waiting = Array.from(this.locks.values()).some(lock => lock.waiters.length > 0);
+
+    if (waiting && !this.deadlockTimer && this.deadlockCheckIntervalMs > 0) {
+      this.deadlockTimer = setInterval(() => this.detectDeadlocks(), this.deadlockCheckIntervalMs);
+      this.deadlockTimer.unref();
+    } else if (!waiting) {
+      this.close();
+    }
+  }
+}
+
+function conflicts(a: LockMode, b: LockMode): boolean {
+  return a === LockMode.EXCLUSIVE || b === LockMode.EXCLUSIVE;
+}
+
+/** Some cycle in the graph as a list of transaction ids, or null */
+function findCycle(graph: Map<number, Set<number>>): number[] | null {
+  const done = new Set<number>();
+  const path: number[] = [];
+  const onPath = new Set<number>();
+
+  const visit = (txnId: number): number[] | null => {
+    if (onPath.has(txnId)) return path.slice(path.indexOf(txnId));
+    if (done.has(txnId)) return null;
+
+    path.push(txnId);
+    onPath.add(txnId);
+    for (const next of graph.get(txnId) ?? []) {
+      const cycle = visit(next);
+      if (cycle) return cycle;
+    }
+    path.pop();
+    onPath.delete(txnId);
+    done.add(txnId);
+    return null;
+  };
+
+  for (const txnId of graph.keys()) {
+    const cycle = visit(txnId);
+    if (cycle) return cycle;
+  }
+  return null;
+}
@@ -33,33 +33,173 @@
 import { Snapshot } from './Snapshot';
 import { VersionedRow } from '../mvcc/VersionedRow';
 
+/**
+ * READ_COMMITTED takes a new snapshot for every statement and redoes an
+ * update or delete on the latest committed version instead of failing.
+ * SNAPSHOT prevents lost updates (first committer wins) but allows write
+ * skew; SERIALIZABLE additionally aborts transactions whose reads and
+ * writes could not have happened in any serial order (SSI).
+ */
+export enum IsolationLevel {
+  READ_COMMITTED = 'READ_COMMITTED',
+  SNAPSHOT = 'SNAPSHOT',
+  SERIALIZABLE = 'SERIALIZABLE',
+}
+
+/**
+ * Lifecycle: ACTIVE -> COMMITTING -> COMMITTED, or ACTIVE/COMMITTING ->
+ * ABORTED. Only an ACTIVE transaction accepts statements.
+ */
+export enum TransactionState {
+  ACTIVE = 'ACTIVE',
+  COMMITTING = 'COMMITTING',
+  COMMITTED = 'COMMITTED',
+  ABORTED = 'ABORTED',
+}
+
+/** Why the database ended a transaction itself; the next call using it reports this */
+export enum TerminationReason {
+  IDLE_TIMEOUT = 'idle_in_transaction_timeout',
+  STATEMENT_TIMEOUT = 'statement_timeout',
+}
+
+/**
+ * One write to a row, redone by READ COMMITTED on a version committed after
+ * the statement ran. Given that version's data (null once the row is gone)
+ * it returns the data to write, null to delete the row, or undefined when
+ * the write no longer applies.
+ */
+export type RowRecheck = (data: any | null) => any | null | undefined;
+
+/** Buffered work at the time a savepoint was taken */
+interface Savepoint {
+  name: string;
+  writes: Map<string, VersionedRow[]>;
+  rechecks: Map<string, RowRecheck[]>;
+}
+
 export class Transaction {
   public readonly id: number;
-  public readonly snapshot: Snapshot;
+  /** Fixed at begin, except under READ_COMMITTED where each statement replaces it */
+  public snapshot: Snapshot;
+  public readonly isolationLevel: IsolationLevel;
+  /** Rejects writes and row locks; see DatabaseService.begin */
+  public readonly readOnly: boolean;
+  /** Moved along only by TransactionManager */
+  public state = TransactionState.ACTIVE;
   private writeSet = new Map<string, VersionedRow[]>();  // ✅ Array per key
   private readSet = new Set<string>();
+  private rechecks = new Map<string, RowRecheck[]>();  // writes to committed rows, per key, in order
+  private savepoints: Savepoint[] = [];
+
+  // Timeouts (0 = none), enforced by DatabaseService's reaper
+  public statementTimeoutMs = 0;
+  public idleTimeoutMs = 0;
+  public lastActivityAt = Date.now();
+  public statementStartedAt: number | null = null;  // set while a statement waits
+  public terminationReason: TerminationReason | null = null;
 
-  constructor(id: number, snapshot: Snapshot) {
+  constructor(
+    id: number,
+    snapshot: Snapshot,
+    isolationLevel: IsolationLevel = IsolationLevel.SNAPSHOT,
+    readOnly: boolean = false
+  ) {
     this.id = id;
     this.snapshot = snapshot;
+    this.isolationLevel = isolationLevel;
+    this.readOnly = readOnly;
   }
 
   addRead(key: string): void {
+    // Only SSI looks at reads, and a read-only transaction below
+    // SERIALIZABLE has nothing left to check at commit
+    if (this.readOnly && this.isolationLevel !== IsolationLevel.SERIALIZABLE) return;
     this.readSet.add(key);
   }
 
+  /** Buffer a row version; it replaces an earlier write of the same (key, xmin) */
   addWrite(key: string, row: VersionedRow): void {
     if (!this.writeSet.has(key)) {
       this.writeSet.set(key, []);
     }
-    this.writeSet.get(key)!.push(row);
+    const rows = this.writeSet.get(key)!;
+    const index = rows.findIndex(existing => existing.xmin === row.xmin);
+    if (index === -1) {
+      rows.push(row);
+    } else {
+      rows[index] = row;
+    }
+  }
+
+  /** Drop the buffered write of (key, xmin), e.g. when deleting a row this transaction inserted */
+  removeWrite(key: string, xmin: number): void {
+    const rows = (this.writeSet.get(key) ?? []).filter(row => row.xmin !== xmin);
+    this.setWrites(key, rows);
+  }
+
+  /** Replace every buffered write for a key; an empty list drops the key */
+  setWrites(key: string, rows: VersionedRow[]): void {
+    if (rows.length === 0) {
+      this.writeSet.delete(key);
+    } else {
+      this.writeSet.set(key, rows);
+    }
   }
 
   getWrites(): Map<string, VersionedRow[]> {
     return this.writeSet;
   }
 
+  /** Remember how to redo a write on a newer version of the row */
+  addRecheck(key: string, recheck: RowRecheck): void {
+    this.rechecks.set(key, [...(this.rechecks.get(key) ?? []), recheck]);
+  }
+
+  /** Writes to the key since this transaction first changed its committed row, oldest first */
+  getRechecks(key: string): RowRecheck[] {
+    return this.rechecks.get(key) ?? [];
+  }
+
+  /** Mark the current write set; a repeated name hides the older savepoint */
+  savepoint(name: string): void {
+    this.savepoints.push({
+      name,
+      writes: copyWrites(this.writeSet),
+      rechecks: new Map(this.rechecks),
+    });
+  }
+
+  /** Discard writes made since the savepoint and any savepoints after it; the savepoint stays */
+  rollbackTo(name: string): void {
+    const index = this.findSavepoint(name);
+    const savepoint = this.savepoints[index];
+    this.savepoints.length = index + 1;
+    this.writeSet = copyWrites(savepoint.writes);
+    this.rechecks = new Map(savepoint.rechecks);
+  }
+
+  /** Forget the savepoint and any after it, keeping their writes */
+  releaseSavepoint(name: string): void {
+    this.savepoints.length = this.findSavepoint(name);
+  }
+
+  getSavepoints(): string[] {
+    return this.savepoints.map(savepoint => savepoint.name);
+  }
+
+  private findSavepoint(name: string): number {
+    for (let i = this.savepoints.length - 1; i >= 0; i--) {
+      if (this.savepoints[i].name === name) return i;
+    }
+    throw new Error(`Savepoint '${name}' does not exist`);
+  }
+
   getReads(): Set<string> {
     return this.readSet;
   }
-}
\ No newline at end of file
+}
+
+function copyWrites(writes: Map<string, VersionedRow[]>): Map<string, VersionedRow[]> {
+  return new Map(Array.from(writes, ([key, rows]) => [key, [...rows]]));
+}
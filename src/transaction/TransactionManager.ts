@@ -379,55 +379,180 @@
 // }
 
 
-import { Transaction } from './Transaction';
+import { Transaction, IsolationLevel, TransactionState } from './Transaction';
+import { InvalidTransactionStateError } from '../db/errors';
 import { Snapshot } from './Snapshot';
 
+/** States each state may move to */
+const TRANSITIONS: Record<TransactionState, TransactionState[]> = {
+  [TransactionState.ACTIVE]: [TransactionState.COMMITTING, TransactionState.ABORTED],
+  [TransactionState.COMMITTING]: [TransactionState.COMMITTED, TransactionState.ABORTED],
+  [TransactionState.COMMITTED]: [],
+  [TransactionState.ABORTED]: [],
+};
+
+/** A snapshot handed out by exportSnapshot, kept while any holder runs */
+interface ExportedSnapshot {
+  snapshot: Snapshot;
+  holders: Set<number>;  // exporter and importers still running
+}
+
 export class TransactionManager {
   private nextTxnId = 1;
   private activeTxns = new Map<number, Transaction>();
+  private exportedSnapshots = new Map<string, ExportedSnapshot>();
+  private exportCount = 0;
 
-  begin(): Transaction {
+  begin(isolationLevel: IsolationLevel = IsolationLevel.SNAPSHOT, readOnly: boolean = false): Transaction {
     const txnId = this.nextTxnId++;
+    const txn = new Transaction(txnId, this.takeSnapshot(txnId), isolationLevel, readOnly);
+    this.activeTxns.set(txnId, txn);
     
-    // Get ALL currently active transactions (EXCLUDING the new one)
-    const currentlyActive = Array.from(this.activeTxns.keys());
-    
-    const xmin =
-      currentlyActive.length === 0
-        ? txnId
-        : Math.min(...currentlyActive);
-    
+    return txn;
+  }
+
+  /**
+   * Publish a running transaction's current snapshot under a token that
+   * other transactions can begin with (pg_export_snapshot).
+   */
+  exportSnapshot(txn: Transaction): string {
+    if (txn.state !== TransactionState.ACTIVE) {
+      throw new InvalidTransactionStateError(txn.id, txn.state, 'export a snapshot from');
+    }
+    const token = `${txn.id.toString(16).toUpperCase().padStart(8, '0')}-${++this.exportCount}`;
+    this.exportedSnapshots.set(token, { snapshot: txn.snapshot, holders: new Set([txn.id]) });
+    return token;
+  }
+
+  /**
+   * Begin a transaction that sees exactly what the exporter saw: the same
+   * xmin, xmax and in-progress set, plus the exporter itself, whose pending
+   * writes stay invisible. Only SNAPSHOT isolation can import, since READ
+   * COMMITTED would replace the snapshot and SSI assumes the snapshot was
+   * taken when the transaction began.
+   */
+  beginWithSnapshot(
+    token: string,
+    isolationLevel: IsolationLevel = IsolationLevel.SNAPSHOT,
+    readOnly: boolean = false
+  ): Transaction {
+    const exported = this.exportedSnapshots.get(token);
+    if (!exported) {
+      throw new Error(`Invalid snapshot identifier '${token}'`);
+    }
+    if (isolationLevel !== IsolationLevel.SNAPSHOT) {
+      throw new Error(`A snapshot can only be imported at ${IsolationLevel.SNAPSHOT} isolation, not ${isolationLevel}`);
+    }
+
+    const txnId = this.nextTxnId++;
+    const { xmin, xmax, activeTxns, myTxnId: exporterId } = exported.snapshot;
     const snapshot: Snapshot = {
       xmin,
-      xmax: this.nextTxnId, // ✅ CORRECT: Use the ALREADY INCREMENTED nextTxnId
-      activeTxns: new Set(currentlyActive), // All active EXCLUDING self
+      xmax,
+      activeTxns: new Set([...activeTxns, exporterId]),
       myTxnId: txnId,
     };
-    
-    const txn = new Transaction(txnId, snapshot);
+    const txn = new Transaction(txnId, snapshot, isolationLevel, readOnly);
     this.activeTxns.set(txnId, txn);
-    
+    exported.holders.add(txnId);
+
     return txn;
   }
 
+  /** Give a running transaction a fresh snapshot (READ COMMITTED statements) */
+  refreshSnapshot(txn: Transaction): void {
+    txn.snapshot = this.takeSnapshot(txn.id);
+  }
+
+  /** ACTIVE -> COMMITTING: the transaction stops accepting statements */
+  startCommit(txn: Transaction): void {
+    this.transition(txn, TransactionState.COMMITTING, 'commit');
+  }
+
   commit(txn: Transaction): void {
-    this.activeTxns.delete(txn.id);
+    if (txn.state === TransactionState.ACTIVE) {
+      this.startCommit(txn);  // nothing to check between the two steps
+    }
+    this.transition(txn, TransactionState.COMMITTED, 'commit');
+    this.finish(txn);
   }
 
   abort(txn: Transaction): void {
-    this.activeTxns.delete(txn.id);
+    this.transition(txn, TransactionState.ABORTED, 'abort');
+    this.finish(txn);
   }
 
+  /**
+   * Oldest xmin any running transaction or exported snapshot still needs.
+   * An exported snapshot counts on its own because a READ COMMITTED exporter
+   * moves on to newer snapshots while importers may still arrive.
+   */
   getGlobalOldestXmin(): number {
+    const xmins = [
+      ...Array.from(this.activeTxns.values(), t => t.snapshot.xmin),
+      ...Array.from(this.exportedSnapshots.values(), e => e.snapshot.xmin),
+    ];
+    if (xmins.length === 0) {
+      return this.nextTxnId;
+    }
+    return Math.min(...xmins);
+  }
+
+  /** Number of exported snapshots some transaction still holds */
+  getExportedSnapshotCount(): number {
+    return this.exportedSnapshots.size;
+  }
+
+  /** Smallest id of a running transaction, or the next id if none are running */
+  getOldestActiveTxnId(): number {
     if (this.activeTxns.size === 0) {
       return this.nextTxnId;
     }
-    return Math.min(
-      ...Array.from(this.activeTxns.values()).map(t => t.snapshot.xmin)
-    );
+    return Math.min(...this.activeTxns.keys());
+  }
+
+  getActiveTransactions(): Transaction[] {
+    return Array.from(this.activeTxns.values());
   }
 
   getNextTxnId(): number {
     return this.nextTxnId;
   }
+
+  /** Never hand out an id already used before a restart */
+  restoreNextTxnId(nextTxnId: number): void {
+    this.nextTxnId = Math.max(this.nextTxnId, nextTxnId);
+  }
+
+  /** Forget a finished transaction and any exported snapshot it was the last to hold */
+  private finish(txn: Transaction): void {
+    this.activeTxns.delete(txn.id);
+    for (const [token, exported] of this.exportedSnapshots) {
+      if (exported.holders.delete(txn.id) && exported.holders.size === 0) {
+        this.exportedSnapshots.delete(token);
+      }
+    }
+  }
+
+  private transition(txn: Transaction, to: TransactionState, operation: string): void {
+    if (!TRANSITIONS[txn.state].includes(to)) {
+      throw new InvalidTransactionStateError(txn.id, txn.state, operation);
+    }
+    txn.state = to;
+  }
+
+  private takeSnapshot(txnId: number): Snapshot {
+    // Get ALL currently active transactions (EXCLUDING the given one)
+    const currentlyActive = Array.from(this.activeTxns.keys()).filter(id => id !== txnId);
+    
+    // Never above the transaction's own id, which is still running
+    const xmin = Math.min(txnId, ...currentlyActive);
+    
+    return {
+      xmin,
+      xmax: this.nextTxnId, // ✅ CORRECT: Use the ALREADY INCREMENTED nextTxnId
+      activeTxns: new Set(currentlyActive), // All active EXCLUDING self
+      myTxnId: txnId,
+    };
+  }
 }
\ No newline at end of file
@@ -141,6 +141,10 @@ export const dbLogger = baseLogger.child({ component: 'database' });
 export const mvccLogger = baseLogger.child({ component: 'mvcc' });
 export const storageLogger = baseLogger.child({ component: 'storage' });
 export const transactionLogger = baseLogger.child({ component: 'transaction' });
+export const walLogger = baseLogger.child({ component: 'wal' });
+export const indexLogger = baseLogger.child({ component: 'index' });
+export const sqlLogger = baseLogger.child({ component: 'sql' });
+export const executorLogger = baseLogger.child({ component: 'executor' });
 
 // Type-safe logger methods
 type LoggerLevel = 'fatal' | 'error' | 'warn' | 'info' | 'debug' | 'trace';
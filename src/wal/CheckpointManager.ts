@@ -0,0 +1,256 @@
+import fs from 'fs';
+import path from 'path';
+import { WriteAheadLog } from './WriteAheadLog';
+import { crc32 } from './crc32';
+import { StorageEngine } from '../storage/StorageEngine';
+import { VersionedRow } from '../mvcc/VersionedRow';
+import { CommitTable } from '../transaction/CommitTable';
+import { TransactionManager } from '../transaction/TransactionManager';
+import { walLogger } from '../utils/logger';
+import { dbMetrics } from '../monitoring/metrics';
+
+// Same framing as WAL records: [payload length: u32][crc32(payload): u32][payload: JSON]
+const HEADER_BYTES = 8;
+const CHECKPOINT_SUFFIX = '.ckpt';
+const TMP_SUFFIX = '.tmp';
+
+// Keep the previous checkpoint (and the WAL after it) so a torn newest
+// checkpoint can still be recovered from.
+const RETAINED_CHECKPOINTS = 2;
+
+export interface CheckpointData {
+  lsn: number;               // Every record with lsn <= this is reflected in storage
+  nextTxnId: number;
+  createdAt: string;
+  rows: VersionedRow[];      // Empty when the storage engine is durable
+}
+
+export interface CheckpointInfo {
+  lsn: number;
+  rows: number;
+  bytes: number;
+  removedSegments: number;
+}
+
+/**
+ * Periodically snapshots committed storage and the next transaction id,
+ * and flushes the commit table, so recovery only has to replay the WAL
+ * written since.
+ *
+ * Checkpoint files are written to a temp file, fsynced and renamed into
+ * place. A checkpoint that fails its checksum (scenario 4 in
+ * docs/designs/WAL-Recovery.md) is discarded and recovery falls back to
+ * the previous one.
+ */
+export class CheckpointManager {
+  private log = walLogger;
+  private lastCheckpointLsn = 0;
+  private walBytesAtCheckpoint = 0;
+
+  constructor(
+    private dir: string,
+    private wal: WriteAheadLog,
+    private storage: StorageEngine,
+    private commitTable: CommitTable,
+    private txnManager: TransactionManager
+  ) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  /** Write a new checkpoint and drop checkpoints and WAL segments it supersedes */
+  createCheckpoint(): CheckpointInfo {
+    const startTime = Date.now();
+
+    // Everything up to this LSN must be on disk before it is claimed
+    this.wal.flush();
+    const lsn = this.wal.getCurrentLSN();
+
+    // Durable engines persist their own data; memory engines are copied out
+    const rows: VersionedRow[] = [];
+    if (this.storage.durable) {
+      this.storage.flush();
+    } else {
+      for (const key of this.storage.getAllKeys()) {
+        for (const row of this.storage.getAllVersions(key)) {
+          if (!this.commitTable.isCommitted(row.xmin)) continue;
+          const deleted = row.xmax !== null && this.commitTable.isCommitted(row.xmax);
+          rows.push(deleted ? row : { ...row, xmax: null });
+        }
+      }
+    }
+
+    const data: CheckpointData = {
+      lsn,
+      nextTxnId: this.txnManager.getNextTxnId(),
+      createdAt: new Date().toISOString(),
+      rows,
+    };
+
+    // Statuses for everything up to lsn must be on disk before the
+    // checkpoint lets recovery skip those WAL records
+    this.commitTable.flush();
+    const bytes = this.writeCheckpointFile(data);
+    this.lastCheckpointLsn = lsn;
+    this.walBytesAtCheckpoint = this.wal.getWrittenBytes();
+
+    const removedSegments = this.pruneOldCheckpoints();
+
+    const duration = (Date.now() - startTime) / 1000;
+    dbMetrics.checkpointsTotal.inc();
+    dbMetrics.checkpointTime.observe(duration);
+
+    this.log.info({
+      lsn,
+      rows: rows.length,
+      bytes,
+      removedSegments,
+      duration,
+      action: 'checkpoint_complete'
+    }, `Checkpoint completed`);
+
+    return { lsn, rows: rows.length, bytes, removedSegments };
+  }
+
+  /**
+   * Load the newest valid checkpoint into storage and the transaction
+   * manager. Returns its LSN, or 0 when there is none.
+   */
+  restoreLatest(): number {
+    this.removeTempFiles();
+
+    const checkpoints = this.listCheckpoints().reverse();
+    for (const checkpointLsn of checkpoints) {
+      const file = this.checkpointPath(checkpointLsn);
+      const data = this.readCheckpointFile(file);
+
+      if (!data) {
+        this.log.warn({
+          checkpoint: path.basename(file),
+          action: 'checkpoint_torn'
+        }, `Discarding torn checkpoint, falling back to previous one`);
+        fs.unlinkSync(file);
+        continue;
+      }
+
+      this.assertWalCoverage(data.lsn);
+
+      for (const row of data.rows) {
+        this.storage.insert(row);
+      }
+      this.txnManager.restoreNextTxnId(data.nextTxnId);
+
+      this.lastCheckpointLsn = data.lsn;
+
+      this.log.info({
+        lsn: data.lsn,
+        rows: data.rows.length,
+        nextTxnId: data.nextTxnId,
+        action: 'checkpoint_restore'
+      }, `Restored state from checkpoint`);
+
+      return data.lsn;
+    }
+
+    this.assertWalCoverage(0);
+    return 0;
+  }
+
+  getLastCheckpointLsn(): number {
+    return this.lastCheckpointLsn;
+  }
+
+  /** WAL bytes flushed since the last checkpoint taken by this process */
+  getWalBytesSinceCheckpoint(): number {
+    return this.wal.getWrittenBytes() - this.walBytesAtCheckpoint;
+  }
+
+  private writeCheckpointFile(data: CheckpointData): number {
+    const payload = Buffer.from(JSON.stringify(data), 'utf8');
+    const header = Buffer.alloc(HEADER_BYTES);
+    header.writeUInt32LE(payload.length, 0);
+    header.writeUInt32LE(crc32(payload), 4);
+
+    const finalPath = this.checkpointPath(data.lsn);
+    const tmpPath = finalPath + TMP_SUFFIX;
+
+    const fd = fs.openSync(tmpPath, 'w');
+    try {
+      fs.writeSync(fd, header);
+      fs.writeSync(fd, payload);
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+
+    // Atomic: readers see either the old set of checkpoints or the new one
+    fs.renameSync(tmpPath, finalPath);
+    this.fsyncDir();
+
+    return header.length + payload.length;
+  }
+
+  private readCheckpointFile(file: string): CheckpointData | null {
+    const buf = fs.readFileSync(file);
+    if (buf.length < HEADER_BYTES) return null;
+
+    const length = buf.readUInt32LE(0);
+    const checksum = buf.readUInt32LE(4);
+    if (buf.length !== HEADER_BYTES + length) return null;
+
+    const payload = buf.subarray(HEADER_BYTES);
+    if (crc32(payload) !== checksum) return null;
+
+    return JSON.parse(payload.toString('utf8'));
+  }
+
+  /** Keep the newest checkpoints and drop the WAL older than the oldest kept one */
+  private pruneOldCheckpoints(): number {
+    const checkpoints = this.listCheckpoints();
+    const stale = checkpoints.slice(0, Math.max(0, checkpoints.length - RETAINED_CHECKPOINTS));
+
+    for (const checkpointLsn of stale) {
+      fs.unlinkSync(this.checkpointPath(checkpointLsn));
+    }
+
+    const oldestKept = checkpoints[stale.length];
+    return this.wal.removeSegmentsBefore(oldestKept + 1);
+  }
+
+  /** Recovery from checkpointLsn needs every WAL record after it */
+  private assertWalCoverage(checkpointLsn: number): void {
+    const firstLsn = this.wal.getFirstLSN();
+    if (firstLsn > checkpointLsn + 1 && this.wal.getCurrentLSN() >= firstLsn) {
+      throw new Error(
+        `WAL starts at LSN ${firstLsn} but checkpoint covers only up to ${checkpointLsn}`
+      );
+    }
+  }
+
+  private removeTempFiles(): void {
+    for (const name of fs.readdirSync(this.dir)) {
+      if (name.endsWith(TMP_SUFFIX)) {
+        fs.unlinkSync(path.join(this.dir, name));
+      }
+    }
+  }
+
+  private listCheckpoints(): number[] {
+    return fs.readdirSync(this.dir)
+      .filter(name => name.endsWith(CHECKPOINT_SUFFIX))
+      .map(name => Number(name.slice(0, -CHECKPOINT_SUFFIX.length)))
+      .sort((a, b) => a - b);
+  }
+
+  private checkpointPath(lsn: number): string {
+    return path.join(this.dir, String(lsn).padStart(16, '0') + CHECKPOINT_SUFFIX);
+  }
+
+  private fsyncDir(): void {
+    const fd = fs.openSync(this.dir, 'r');
+    try {
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  }
+}
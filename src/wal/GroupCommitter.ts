@@ -0,0 +1,101 @@
+import { WriteAheadLog } from './WriteAheadLog';
+import { walLogger } from '../utils/logger';
+import { dbMetrics } from '../monitoring/metrics';
+
+const DEFAULT_WINDOW_MS = 2;
+const DEFAULT_MAX_BATCH_BYTES = 1024 * 1024; // 1MB
+
+export interface GroupCommitOptions {
+  windowMs?: number;
+  maxBatchBytes?: number;
+}
+
+export interface PendingCommit {
+  txnId: number;
+  onDurable: () => void;          // Called in enqueue order after the shared fsync
+  onFailure: (error: Error) => void;
+}
+
+interface QueuedCommit extends PendingCommit {
+  enqueuedAt: number;
+}
+
+/**
+ * Batches WAL flushes for transactions committing close together
+ * (see "Group Commit" in docs/designs/WAL-Recovery.md). Callers append
+ * their records to the WAL first, then enqueue; the group is flushed with
+ * a single fsync when the window closes or enough bytes are buffered.
+ */
+export class GroupCommitter {
+  private log = walLogger;
+  private readonly windowMs: number;
+  private readonly maxBatchBytes: number;
+
+  private pending: QueuedCommit[] = [];
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private wal: WriteAheadLog,
+    options: GroupCommitOptions = {},
+    private afterBatch: () => void = () => {}
+  ) {
+    this.windowMs = options.windowMs ?? DEFAULT_WINDOW_MS;
+    this.maxBatchBytes = options.maxBatchBytes ?? DEFAULT_MAX_BATCH_BYTES;
+  }
+
+  enqueue(commit: PendingCommit): void {
+    this.pending.push({ ...commit, enqueuedAt: Date.now() });
+
+    if (this.wal.getBufferedBytes() >= this.maxBatchBytes) {
+      this.flushNow();
+      return;
+    }
+
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flushNow(), this.windowMs);
+    }
+  }
+
+  /** Flush the current group immediately and complete its commits */
+  flushNow(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.pending.length === 0) return;
+
+    const batch = this.pending;
+    this.pending = [];
+
+    try {
+      this.wal.flush();
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      this.log.error({
+        batchSize: batch.length,
+        error: err.message,
+        action: 'group_commit_failed'
+      }, `Group commit flush failed`);
+
+      for (const commit of batch) {
+        commit.onFailure(err);
+      }
+      return;
+    }
+
+    const now = Date.now();
+    for (const commit of batch) {
+      dbMetrics.groupCommitLatency.observe((now - commit.enqueuedAt) / 1000);
+      commit.onDurable();
+    }
+    dbMetrics.groupCommitBatchSize.observe(batch.length);
+
+    this.log.debug({
+      batchSize: batch.length,
+      txnIds: batch.map(c => c.txnId),
+      action: 'group_commit'
+    }, `Group commit flushed`);
+
+    this.afterBatch();
+  }
+}
@@ -0,0 +1,20 @@
+export enum WALRecordType {
+  BEGIN = 'BEGIN',
+  INSERT = 'INSERT',
+  UPDATE = 'UPDATE',
+  DELETE = 'DELETE',
+  COMMIT = 'COMMIT',
+  ABORT = 'ABORT',
+}
+
+export interface WALRecord {
+  lsn: number;           // Log Sequence Number (monotonic)
+  txnId: number;
+  type: WALRecordType;
+  key?: string;          // Row key (INSERT/UPDATE/DELETE)
+  data?: any;            // New row payload (INSERT/UPDATE)
+  prevXmin?: number;     // Creator of the version being replaced (UPDATE/DELETE)
+}
+
+/** A record before the log assigns it an LSN */
+export type WALRecordInput = Omit<WALRecord, 'lsn'>;
@@ -0,0 +1,296 @@
+import fs from 'fs';
+import path from 'path';
+import { WALRecord, WALRecordInput } from './WALRecord';
+import { crc32 } from './crc32';
+import { walLogger } from '../utils/logger';
+import { dbMetrics } from '../monitoring/metrics';
+
+// Each record is framed as [payload length: u32][crc32(payload): u32][payload: JSON]
+const FRAME_HEADER_BYTES = 8;
+const SEGMENT_SUFFIX = '.wal';
+const DEFAULT_SEGMENT_SIZE = 16 * 1024 * 1024; // 16MB
+
+export interface WALOptions {
+  segmentSizeBytes?: number;
+}
+
+interface SegmentScan {
+  records: WALRecord[];
+  validBytes: number;
+  totalBytes: number;
+}
+
+/**
+ * Append-only, segmented write-ahead log.
+ *
+ * Records are buffered in memory by append() and only reach disk on flush(),
+ * which writes the whole batch and fsyncs. Segment files are named after the
+ * first LSN they contain so recovery can read them back in order.
+ */
+export class WriteAheadLog {
+  private log = walLogger;
+  private readonly segmentSizeBytes: number;
+
+  private buffer: Buffer[] = [];
+  private bufferedBytes = 0;
+  private bufferStartLsn: number | null = null;
+
+  private nextLsn = 1;
+  private fd: number;
+  private segmentBytes = 0;
+  private writtenBytes = 0;
+
+  constructor(private dir: string, options: WALOptions = {}) {
+    this.segmentSizeBytes = options.segmentSizeBytes ?? DEFAULT_SEGMENT_SIZE;
+    fs.mkdirSync(dir, { recursive: true });
+
+    const segments = this.listSegments();
+    if (segments.length === 0) {
+      this.fd = this.openSegment(this.nextLsn);
+      return;
+    }
+
+    // Only the newest segment can have a torn tail; cut it off so new
+    // records are never appended after garbage.
+    const lastStart = segments[segments.length - 1];
+    const lastFile = this.segmentPath(lastStart);
+    const scan = this.scanSegment(lastFile);
+
+    if (scan.validBytes < scan.totalBytes) {
+      this.log.warn({
+        segment: path.basename(lastFile),
+        validBytes: scan.validBytes,
+        discardedBytes: scan.totalBytes - scan.validBytes,
+        action: 'wal_truncate_torn_tail'
+      }, `Discarding torn WAL tail`);
+      fs.truncateSync(lastFile, scan.validBytes);
+    }
+
+    const lastRecord = scan.records[scan.records.length - 1];
+    this.nextLsn = lastRecord ? lastRecord.lsn + 1 : lastStart;
+    this.segmentBytes = scan.validBytes;
+    this.fd = fs.openSync(lastFile, 'a');
+
+    this.log.debug({
+      segments: segments.length,
+      nextLsn: this.nextLsn,
+      action: 'wal_open'
+    }, `WAL opened`);
+  }
+
+  /** Buffer a record and return its LSN. Nothing is durable until flush(). */
+  append(input: WALRecordInput): number {
+    const lsn = this.nextLsn++;
+    const payload = Buffer.from(JSON.stringify({ ...input, lsn }), 'utf8');
+
+    const header = Buffer.alloc(FRAME_HEADER_BYTES);
+    header.writeUInt32LE(payload.length, 0);
+    header.writeUInt32LE(crc32(payload), 4);
+
+    if (this.bufferStartLsn === null) {
+      this.bufferStartLsn = lsn;
+    }
+    this.buffer.push(header, payload);
+    this.bufferedBytes += header.length + payload.length;
+
+    return lsn;
+  }
+
+  /**
+   * Write all buffered records and fsync. Returns once they are durable.
+   * If the write or fsync fails the batch is dropped, so no later flush
+   * makes durable a commit that was already reported as failed.
+   */
+  flush(): void {
+    if (this.buffer.length === 0) return;
+
+    const startTime = Date.now();
+    const startLsn = this.bufferStartLsn!;
+    const batch = Buffer.concat(this.buffer, this.bufferedBytes);
+    this.buffer = [];
+    this.bufferedBytes = 0;
+    this.bufferStartLsn = null;
+
+    try {
+      if (this.segmentBytes > 0 && this.segmentBytes >= this.segmentSizeBytes) {
+        this.rotate(startLsn);
+      }
+      fs.writeSync(this.fd, batch);
+      fs.fsyncSync(this.fd);
+    } catch (error) {
+      this.discardFailedBatch(startLsn, batch.length, error);
+      throw error;
+    }
+
+    this.segmentBytes += batch.length;
+    this.writtenBytes += batch.length;
+
+    const duration = (Date.now() - startTime) / 1000;
+    dbMetrics.walFsyncTime.observe(duration);
+    dbMetrics.walBytesWritten.inc(batch.length);
+  }
+
+  /** Read every valid record with lsn >= fromLsn, in LSN order */
+  readFrom(fromLsn: number = 0): WALRecord[] {
+    const records: WALRecord[] = [];
+
+    for (const start of this.listSegments()) {
+      const file = this.segmentPath(start);
+      const scan = this.scanSegment(file);
+
+      for (const record of scan.records) {
+        if (record.lsn >= fromLsn) records.push(record);
+      }
+
+      // Anything after a bad frame cannot be trusted
+      if (scan.validBytes < scan.totalBytes) {
+        this.log.error({
+          segment: path.basename(file),
+          offset: scan.validBytes,
+          action: 'wal_corrupt_record'
+        }, `Stopping WAL read at invalid record`);
+        break;
+      }
+    }
+
+    return records;
+  }
+
+  /** LSN of the last record handed out by append() */
+  getCurrentLSN(): number {
+    return this.nextLsn - 1;
+  }
+
+  /**
+   * Never hand out an LSN the checkpoint already covers. A failed batch cut
+   * off a fresh segment leaves it empty, so reopening would reuse LSNs the
+   * checkpoint claims and recovery, which starts after it, would skip them.
+   */
+  resumeAfter(checkpointLsn: number): void {
+    if (this.nextLsn > checkpointLsn) return;
+
+    this.log.warn({
+      nextLsn: this.nextLsn,
+      checkpointLsn,
+      action: 'wal_resume_after_checkpoint'
+    }, `WAL ends before the checkpoint, skipping ahead`);
+    this.nextLsn = checkpointLsn + 1;
+  }
+
+  /** Bytes appended but not yet flushed */
+  getBufferedBytes(): number {
+    return this.bufferedBytes;
+  }
+
+  /** Bytes flushed since this log was opened */
+  getWrittenBytes(): number {
+    return this.writtenBytes;
+  }
+
+  /** First LSN still available on disk (start of the oldest segment) */
+  getFirstLSN(): number {
+    const segments = this.listSegments();
+    return segments.length > 0 ? segments[0] : this.nextLsn;
+  }
+
+  /**
+   * Delete segments whose records all have lsn < cutoffLsn. The active
+   * segment is always kept. Returns the number of segments removed.
+   */
+  removeSegmentsBefore(cutoffLsn: number): number {
+    const segments = this.listSegments();
+    let removed = 0;
+
+    // A segment ends where the next one starts
+    for (let i = 0; i < segments.length - 1; i++) {
+      if (segments[i + 1] > cutoffLsn) break;
+      fs.unlinkSync(this.segmentPath(segments[i]));
+      removed++;
+    }
+
+    if (removed > 0) {
+      this.log.info({
+        removedSegments: removed,
+        cutoffLsn,
+        action: 'wal_truncate'
+      }, `Removed WAL segments before checkpoint`);
+    }
+
+    return removed;
+  }
+
+  close(): void {
+    this.flush();
+    fs.closeSync(this.fd);
+  }
+
+  /**
+   * Cut a failed batch off the segment. Part of it may have been written,
+   * and a torn frame would hide every record appended after it. If even
+   * that fails, the ABORT records the caller writes next keep recovery
+   * from replaying the batch.
+   */
+  private discardFailedBatch(startLsn: number, bytes: number, error: unknown): void {
+    this.log.error({
+      startLsn,
+      bytes,
+      error: error instanceof Error ? error.message : String(error),
+      action: 'wal_flush_failed'
+    }, `WAL flush failed, dropping the batch`);
+
+    try {
+      fs.ftruncateSync(this.fd, this.segmentBytes);
+    } catch (truncateError) {
+      this.log.error({
+        segmentBytes: this.segmentBytes,
+        error: truncateError instanceof Error ? truncateError.message : String(truncateError),
+        action: 'wal_truncate_failed'
+      }, `Could not cut the failed batch off the WAL segment`);
+    }
+  }
+
+  private rotate(startLsn: number): void {
+    fs.fsyncSync(this.fd);
+    fs.closeSync(this.fd);
+    this.fd = this.openSegment(startLsn);
+    this.segmentBytes = 0;
+
+    this.log.info({ startLsn, action: 'wal_rotate' }, `Started new WAL segment`);
+  }
+
+  private openSegment(startLsn: number): number {
+    return fs.openSync(this.segmentPath(startLsn), 'a');
+  }
+
+  private segmentPath(startLsn: number): string {
+    return path.join(this.dir, String(startLsn).padStart(16, '0') + SEGMENT_SUFFIX);
+  }
+
+  private listSegments(): number[] {
+    return fs.readdirSync(this.dir)
+      .filter(name => name.endsWith(SEGMENT_SUFFIX))
+      .map(name => Number(name.slice(0, -SEGMENT_SUFFIX.length)))
+      .sort((a, b) => a - b);
+  }
+
+  private scanSegment(file: string): SegmentScan {
+    const buf = fs.readFileSync(file);
+    const records: WALRecord[] = [];
+    let offset = 0;
+
+    while (offset + FRAME_HEADER_BYTES <= buf.length) {
+      const length = buf.readUInt32LE(offset);
+      const checksum = buf.readUInt32LE(offset + 4);
+      const end = offset + FRAME_HEADER_BYTES + length;
+      if (end > buf.length) break;
+
+      const payload = buf.subarray(offset + FRAME_HEADER_BYTES, end);
+      if (crc32(payload) !== checksum) break;
+
+      records.push(JSON.parse(payload.toString('utf8')));
+      offset = end;
+    }
+
+    return { records, validBytes: offset, totalBytes: buf.length };
+  }
+}
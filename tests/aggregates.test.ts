@@ -0,0 +1,167 @@
+import { DatabaseService } from '../src/db/DatabaseService';
+import { Operator } from '../src/execution/Operator';
+import { SeqScan } from '../src/execution/SeqScan';
+import { Sort } from '../src/execution/Sort';
+import { HashAggregate } from '../src/execution/HashAggregate';
+import { SortAggregate } from '../src/execution/SortAggregate';
+import { AggregateMethod } from '../src/execution/Planner';
+import { IsolationLevel } from '../src/transaction/Transaction';
+
+function createSales(options: ConstructorParameters<typeof DatabaseService>[0] = {}): DatabaseService {
+  const db = new DatabaseService(options);
+  db.query(null, 'CREATE TABLE sales (id INTEGER PRIMARY KEY, region TEXT, product TEXT, qty INTEGER, price REAL)');
+  db.query(null, `INSERT INTO sales VALUES
+    (1, 'east', 'apple', 3, 1.5),
+    (2, 'east', 'pear', NULL, 2.0),
+    (3, 'west', 'apple', 5, 1.5),
+    (4, 'west', 'apple', 2, NULL),
+    (5, NULL, 'fig', 4, 3.0),
+    (6, 'east', 'apple', 3, 1.25)`);
+  return db;
+}
+
+describe('Aggregation', () => {
+  const methods: Array<[string, AggregateMethod[], { prototype: Operator }]> = [
+    ['hash', ['hash'], HashAggregate],
+    ['sort', ['sort'], SortAggregate],
+  ];
+
+  describe.each(methods)('%s aggregate', (_name, aggregateMethods, operator) => {
+    let db: DatabaseService;
+
+    beforeEach(() => {
+      db = createSales({ aggregateMethods });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('GROUP BY, where aggregates skip NULLs and NULL keys form one group', () => {
+      const open = jest.spyOn(operator.prototype, 'open');
+
+      expect(db.query(null, `
+        SELECT region, count(*) AS n, count(qty) AS counted, sum(qty) AS total, avg(qty) AS mean,
+               min(price) AS cheapest, max(price) AS dearest, count(DISTINCT product) AS products
+        FROM sales GROUP BY region ORDER BY region`).rows).toEqual([
+        { region: 'east', n: 3, counted: 2, total: 6, mean: 3, cheapest: 1.25, dearest: 2, products: 2 },
+        { region: 'west', n: 2, counted: 2, total: 7, mean: 3.5, cheapest: 1.5, dearest: 1.5, products: 1 },
+        { region: null, n: 1, counted: 1, total: 4, mean: 4, cheapest: 3, dearest: 3, products: 1 },
+      ]);
+      expect(open).toHaveBeenCalled();
+
+      expect(db.query(null, 'SELECT region, product, count(*) AS n FROM sales GROUP BY region, product ORDER BY region DESC, product').rows).toEqual([
+        { region: null, product: 'fig', n: 1 },
+        { region: 'west', product: 'apple', n: 2 },
+        { region: 'east', product: 'apple', n: 2 },
+        { region: 'east', product: 'pear', n: 1 },
+      ]);
+
+      expect(db.query(null, 'SELECT qty > 2 AS big, count(*) AS n, sum(DISTINCT qty) AS total FROM sales GROUP BY big ORDER BY big').rows).toEqual([
+        { big: false, n: 1, total: 2 },
+        { big: true, n: 4, total: 12 },
+        { big: null, n: 1, total: null },
+      ]);
+    });
+
+    test('HAVING filters groups and may use aggregates the select list does not', () => {
+      expect(db.query(null, 'SELECT region, sum(qty) AS total FROM sales GROUP BY region HAVING count(qty) > 1 ORDER BY total DESC').rows).toEqual([
+        { region: 'west', total: 7 },
+        { region: 'east', total: 6 },
+      ]);
+      expect(db.query(null, "SELECT max(qty) - min(qty) AS spread FROM sales HAVING count(*) > 5 AND max(product) = 'pear'").rows).toEqual([
+        { spread: 3 },
+      ]);
+      expect(db.query(null, 'SELECT count(*) AS n FROM sales HAVING count(*) > 6').rows).toEqual([]);
+    });
+
+    test('without GROUP BY there is one group, even over no rows', () => {
+      expect(db.query(null, 'SELECT count(*), sum(qty) AS total FROM sales').rows).toEqual([{ count: 6, total: 17 }]);
+      expect(db.query(null, 'SELECT count(*) AS n, count(qty) AS c, sum(qty) AS s, avg(qty) AS a, max(region) AS m FROM sales WHERE id > 100').rows).toEqual([
+        { n: 0, c: 0, s: null, a: null, m: null },
+      ]);
+      expect(db.query(null, 'SELECT region, count(*) AS n FROM sales WHERE id > 100 GROUP BY region').rows).toEqual([]);
+      expect(() => db.query(null, 'SELECT sum(region) FROM sales')).toThrow(/Function sum needs numbers, got text/);
+    });
+
+    test('repeated aggregate names get a suffix instead of overwriting each other', () => {
+      expect(db.query(null, 'SELECT count(*), count(qty), count(DISTINCT product) FROM sales').rows).toEqual([
+        { count: 6, count_1: 5, count_2: 3 },
+      ]);
+    });
+  });
+
+  test('ORDER BY on group keys sorts the input once instead of hashing', () => {
+    const db = createSales();
+    const sortAggregate = jest.spyOn(SortAggregate.prototype, 'open');
+    const hashAggregate = jest.spyOn(HashAggregate.prototype, 'open');
+    const sorts = jest.spyOn(Sort.prototype, 'open');
+
+    expect(db.query(null, 'SELECT region, count(*) AS n FROM sales GROUP BY region ORDER BY region DESC').rows.map(r => r.region)).toEqual([
+      null, 'west', 'east',
+    ]);
+    expect(sortAggregate).toHaveBeenCalledTimes(1);
+    expect(sorts).toHaveBeenCalledTimes(1);
+
+    db.query(null, 'SELECT region, count(*) AS n FROM sales GROUP BY region ORDER BY n');
+    expect(hashAggregate).toHaveBeenCalledTimes(1);
+    jest.restoreAllMocks();
+  });
+
+  test('a sort aggregate returns each group as soon as the next one starts', () => {
+    const db = createSales();
+    const engine = db.executionEngine({ workMem: 4096 });
+    const txn = db.begin({ isolationLevel: IsolationLevel.SERIALIZABLE });
+    const aggregate = new SortAggregate(
+      new SeqScan(engine, txn, db.getTable('sales')),
+      [{ name: 'id', expression: { type: 'column', table: null, name: 'id' } }],
+      [{ name: 'n', call: { type: 'aggregate', function: 'count', argument: null, distinct: false } }],
+      []
+    );
+
+    aggregate.open();
+    expect(aggregate.next()).toEqual({ id: 1, n: 1 });
+    expect(txn.getReads().size).toBe(2);  // the first row of the next group
+    aggregate.close();
+    db.commit(txn);
+  });
+
+  test('aggregates count what the snapshot sees, including own writes', () => {
+    const db = createSales();
+    db.query(null, "CREATE TABLE regions (name TEXT PRIMARY KEY, manager TEXT)");
+    db.query(null, "INSERT INTO regions VALUES ('east', 'Ann'), ('west', 'Raj')");
+    const txn = db.begin();
+    db.query(txn, 'SELECT count(*) FROM sales');
+
+    db.query(null, "INSERT INTO sales VALUES (7, 'west', 'kiwi', 9, 0.5)");
+    db.query(txn, "INSERT INTO sales VALUES (8, 'east', 'kiwi', 1, 0.5)");
+    db.query(txn, 'DELETE FROM sales WHERE id = 3');
+
+    const sql = 'SELECT r.manager, count(*) AS n, sum(s.qty) AS total FROM regions r JOIN sales s ON s.region = r.name GROUP BY r.manager ORDER BY r.manager';
+    expect(db.query(txn, sql).rows).toEqual([
+      { manager: 'Ann', n: 4, total: 7 },
+      { manager: 'Raj', n: 1, total: 2 },
+    ]);
+    db.commit(txn);
+    expect(db.query(null, sql).rows).toEqual([
+      { manager: 'Ann', n: 4, total: 7 },
+      { manager: 'Raj', n: 2, total: 11 },
+    ]);
+  });
+
+  test('grouping and placement errors', () => {
+    const db = createSales();
+    expect(() => db.query(null, 'SELECT region, qty FROM sales GROUP BY region')).toThrow(
+      "Column 'qty' must appear in the GROUP BY clause or be used in an aggregate function"
+    );
+    expect(() => db.query(null, 'SELECT region, count(*) FROM sales')).toThrow(/Column 'region' must appear in the GROUP BY clause/);
+    expect(() => db.query(null, "SELECT count(*) FROM sales HAVING region = 'east'")).toThrow(/Column 'region' must appear/);
+    expect(() => db.query(null, 'SELECT region FROM sales GROUP BY region ORDER BY qty')).toThrow(/Column 'qty' must appear/);
+    expect(() => db.query(null, 'SELECT * FROM sales WHERE count(*) > 1')).toThrow('Aggregate functions are not allowed in WHERE');
+    expect(() => db.query(null, 'SELECT count(*) AS n FROM sales GROUP BY n')).toThrow('Aggregate functions are not allowed in GROUP BY');
+    expect(() => db.query(null, 'SELECT max(count(*)) FROM sales')).toThrow('Aggregate function calls cannot be nested');
+    expect(() => db.query(null, 'UPDATE sales SET qty = max(qty)')).toThrow('Aggregate functions are not allowed in UPDATE');
+    expect(() => db.query(null, 'INSERT INTO sales (id) VALUES (count(*))')).toThrow('Aggregate functions are not allowed in VALUES');
+    expect(() => db.query(null, 'SELECT count(nope) FROM sales')).toThrow(/Column 'nope' of table 'sales' does not exist/);
+  });
+});
@@ -0,0 +1,149 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseService, PRIMARY_KEY_CONSTRAINT } from '../src/db/DatabaseService';
+import { UniqueViolationError } from '../src/db/errors';
+
+const commitError = (fn: () => void): UniqueViolationError => {
+  try {
+    fn();
+  } catch (error) {
+    return error as UniqueViolationError;
+  }
+  throw new Error('expected commit to fail');
+};
+
+describe('Unique constraints - primary key', () => {
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    db = new DatabaseService();
+  });
+
+  test('the second of two concurrent inserts of a key fails', () => {
+    const t1 = db.begin();
+    const t2 = db.begin();
+    db.insert(t1, 'user_1', { name: 'Alice' });
+    db.insert(t2, 'user_1', { name: 'Mallory' });
+    db.commit(t1);
+
+    const error = commitError(() => db.commit(t2));
+    expect(error).toBeInstanceOf(UniqueViolationError);
+    expect(error.constraint).toBe(PRIMARY_KEY_CONSTRAINT);
+    expect(error.key).toBe('user_1');
+    expect(db.select(db.begin())).toEqual([{ key: 'user_1', name: 'Alice' }]);
+  });
+
+  test('inserting over a visible row fails, re-inserting a deleted key does not', () => {
+    const setup = db.begin();
+    db.insert(setup, 'user_1', { name: 'Alice' });
+    db.commit(setup);
+
+    const dup = db.begin();
+    db.insert(dup, 'user_1', { name: 'Again' });
+    expect(() => db.commit(dup)).toThrow(UniqueViolationError);
+
+    const replace = db.begin();
+    db.delete(replace, 'user_1');
+    db.insert(replace, 'user_1', { name: 'Replaced' });
+    db.commit(replace);
+
+    const remove = db.begin();
+    db.delete(remove, 'user_1');
+    db.commit(remove);
+
+    const reinsert = db.begin();
+    db.insert(reinsert, 'user_1', { name: 'Back' });
+    db.commit(reinsert);
+
+    expect(db.select(db.begin())).toEqual([{ key: 'user_1', name: 'Back' }]);
+  });
+});
+
+describe('Unique constraints - unique indexes', () => {
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    db = new DatabaseService();
+    db.createIndex('users_email_key', 'email', { unique: true });
+    const setup = db.begin();
+    db.insert(setup, 'user_1', { email: 'alice@example.com' });
+    db.commit(setup);
+  });
+
+  test('rejects a second live row with the same value', () => {
+    const txn = db.begin();
+    db.insert(txn, 'user_2', { email: 'alice@example.com' });
+
+    const error = commitError(() => db.commit(txn));
+    expect(error).toBeInstanceOf(UniqueViolationError);
+    expect(error.constraint).toBe('users_email_key');
+    expect(error.key).toBe('user_2');
+    expect(error.value).toBe('alice@example.com');
+  });
+
+  test('catches concurrent committers and duplicates within one transaction', () => {
+    const t1 = db.begin();
+    const t2 = db.begin();
+    db.insert(t1, 'user_2', { email: 'bob@example.com' });
+    db.insert(t2, 'user_3', { email: 'bob@example.com' });
+    db.commit(t1);
+    expect(() => db.commit(t2)).toThrow(/users_email_key/);
+
+    const t3 = db.begin();
+    db.insert(t3, 'user_4', { email: 'carol@example.com' });
+    db.insert(t3, 'user_5', { email: 'carol@example.com' });
+    expect(() => db.commit(t3)).toThrow(UniqueViolationError);
+  });
+
+  test('allows a value freed in the same transaction and any number of nulls', () => {
+    const txn = db.begin();
+    db.update(txn, 'user_1', { email: 'alice@new.example.com' });
+    db.insert(txn, 'user_2', { email: 'alice@example.com' });
+    db.insert(txn, 'user_3', { name: 'no email' });
+    db.insert(txn, 'user_4', { name: 'no email either' });
+    db.commit(txn);
+
+    expect(db.indexLookup(db.begin(), 'users_email_key', 'alice@example.com').map(r => r.key)).toEqual(['user_2']);
+  });
+
+  test('cannot be created over existing duplicates', () => {
+    const txn = db.begin();
+    db.insert(txn, 'user_2', { team: 'red' });
+    db.insert(txn, 'user_3', { team: 'red' });
+    db.commit(txn);
+
+    expect(() => db.createIndex('users_team_key', 'team', { unique: true })).toThrow(UniqueViolationError);
+    expect(() => db.indexLookup(db.begin(), 'users_team_key', 'red')).toThrow(/does not exist/);
+  });
+});
+
+describe('Unique constraints - group commit', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-unique-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('checks against transactions still waiting for their fsync', async () => {
+    const db = new DatabaseService({ dataDir, groupCommitWindowMs: 20 });
+    db.createIndex('users_email_key', 'email', { unique: true });
+
+    const t1 = db.begin();
+    const t2 = db.begin();
+    const t3 = db.begin();
+    db.insert(t1, 'user_1', { email: 'a@example.com' });
+    db.insert(t2, 'user_1', { email: 'b@example.com' });
+    db.insert(t3, 'user_3', { email: 'a@example.com' });
+
+    const first = db.commitAsync(t1);
+    await expect(db.commitAsync(t2)).rejects.toMatchObject({ constraint: PRIMARY_KEY_CONSTRAINT, key: 'user_1' });
+    await expect(db.commitAsync(t3)).rejects.toMatchObject({ constraint: 'users_email_key', key: 'user_3' });
+    await first;
+    db.close();
+  });
+});
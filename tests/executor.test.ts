@@ -0,0 +1,146 @@
+import { DatabaseService } from '../src/db/DatabaseService';
+import { ExecutionEngine, collect } from '../src/execution/Operator';
+import { SeqScan } from '../src/execution/SeqScan';
+import { IndexScan } from '../src/execution/IndexScan';
+import { KeyLookup } from '../src/execution/KeyLookup';
+import { Filter } from '../src/execution/Filter';
+import { Limit } from '../src/execution/Limit';
+import { Planner } from '../src/execution/Planner';
+import { TableDefinition } from '../src/sql/Catalog';
+import { SelectStatement } from '../src/sql/ast';
+import { parse } from '../src/sql/Parser';
+import { IsolationLevel } from '../src/transaction/Transaction';
+
+const whereOf = (sql: string) => (parse(sql) as SelectStatement).where;
+
+describe('Query executor', () => {
+  let db: DatabaseService;
+  let engine: ExecutionEngine;
+  let items: TableDefinition;
+
+  beforeEach(() => {
+    db = new DatabaseService();
+    db.query(null, 'CREATE TABLE items (id INTEGER PRIMARY KEY, qty INTEGER)');
+    db.query(null, 'CREATE TABLE items_archive (id INTEGER PRIMARY KEY, qty INTEGER)');
+    for (let id = 1; id <= 20; id++) {
+      db.query(null, 'INSERT INTO items VALUES ($1, $2)', [id, id % 5]);
+    }
+    db.query(null, 'INSERT INTO items_archive VALUES (1, 3)');
+
+    engine = db.executionEngine({ workMem: 4096 });
+    items = db.getTable('items');
+  });
+
+  test('SeqScan pulls one key from storage per row it returns', () => {
+    const txn = db.begin({ isolationLevel: IsolationLevel.SERIALIZABLE });
+    const scan = new SeqScan(engine, txn, items);
+
+    scan.open();
+    expect(scan.next()).toEqual({ id: 1, qty: 1 });
+    expect(txn.getReads().size).toBe(1);
+    expect(scan.next()).toEqual({ id: 10, qty: 0 });  // keys are in byte order
+    expect(txn.getReads().size).toBe(2);
+    scan.close();
+
+    expect(scan.next()).toBeNull();
+    expect(collect(new SeqScan(engine, txn, items))).toHaveLength(20);  // not items_archive
+    db.commit(txn);
+  });
+
+  test('LIMIT stops the scan early unless a sort needs every row', () => {
+    const txn = db.begin({ isolationLevel: IsolationLevel.SERIALIZABLE });
+
+    expect(db.query(txn, 'SELECT id FROM items LIMIT 3').rows).toEqual([{ id: 1 }, { id: 10 }, { id: 11 }]);
+    expect(txn.getReads().size).toBe(3);
+
+    expect(db.query(txn, 'SELECT id FROM items ORDER BY id LIMIT 3').rows).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+    expect(txn.getReads().size).toBe(20);
+    db.commit(txn);
+
+    const limit = new Limit(new SeqScan(engine, db.begin(), items), 0);
+    expect(collect(limit)).toEqual([]);
+  });
+
+  test('scans return what the snapshot sees, with the transaction\'s own writes', () => {
+    db.createIndex('items_qty', 'qty', { table: 'items' });
+    const txn = db.begin();
+
+    db.query(null, 'DELETE FROM items WHERE id = 2');       // after txn's snapshot
+    db.query(null, 'INSERT INTO items VALUES (21, 1)');
+    db.query(txn, 'DELETE FROM items WHERE id = 6');        // own writes
+    db.query(txn, 'INSERT INTO items VALUES (30, 1)');
+    db.query(txn, 'UPDATE items SET qty = 4 WHERE id = 11');
+
+    const ids = (rows: any[]) => rows.map(row => row.id).sort((a, b) => a - b);
+    const qtyOne = collect(new SeqScan(engine, txn, items)).filter(row => row.qty === 1);
+    expect(ids(qtyOne)).toEqual([1, 16, 30]);
+    expect(ids(collect(new IndexScan(engine, txn, items, 'items_qty', { min: 1, max: 1 })))).toEqual([1, 16, 30]);
+    expect(ids(collect(new IndexScan(engine, txn, items, 'items_qty', { min: 2, max: 2 })))).toEqual([2, 7, 12, 17]);
+
+    const other = db.begin();
+    expect(ids(collect(new IndexScan(engine, other, items, 'items_qty', { min: 1, max: 1 })))).toEqual([1, 6, 11, 16, 21]);
+    db.commit(txn);
+    db.commit(other);
+  });
+
+  test('the planner scans an index for comparisons with constants', () => {
+    db.createIndex('items_qty', 'qty', { table: 'items' });
+    const planner = new Planner(engine);
+    const txn = db.begin();
+
+    const equality = planner.scan(txn, items, whereOf('SELECT * FROM t WHERE id > 2 AND qty = $1'), [3]) as Filter;
+    expect(equality.child).toBeInstanceOf(IndexScan);
+    expect((equality.child as IndexScan).range).toEqual({ min: 3, max: 3 });
+
+    const range = planner.scan(txn, items, whereOf('SELECT * FROM t WHERE 1 < qty AND qty <= 2 AND qty <= 4'), []) as Filter;
+    expect((range.child as IndexScan).range).toEqual({ min: 1, max: 2 });
+    expect(collect(range).map(row => row.qty)).toEqual([2, 2, 2, 2]);
+
+    for (const sql of ['SELECT * FROM t WHERE id > 3', 'SELECT * FROM t WHERE qty = NULL', "SELECT * FROM t WHERE qty = 'x'", 'SELECT * FROM t WHERE qty + 0 = 1']) {
+      expect((planner.scan(txn, items, whereOf(sql), []) as Filter).child).toBeInstanceOf(SeqScan);
+    }
+    expect(planner.scan(txn, items, null, [])).toBeInstanceOf(SeqScan);
+
+    expect(db.query(txn, 'SELECT id FROM items WHERE qty = 0 ORDER BY id DESC LIMIT 2').rows).toEqual([{ id: 20 }, { id: 15 }]);
+    expect(() => db.query(txn, "SELECT id FROM items WHERE qty = 'x'")).toThrow(/Cannot compare/);
+    db.commit(txn);
+  });
+
+  test('the planner looks up a primary key equality directly', () => {
+    db.createIndex('items_qty', 'qty', { table: 'items' });
+    const planner = new Planner(engine);
+    const txn = db.begin({ isolationLevel: IsolationLevel.SERIALIZABLE });
+
+    const lookup = planner.scan(txn, items, whereOf('SELECT * FROM t WHERE qty = 3 AND id = $1'), [8]) as Filter;
+    expect(lookup.child).toBeInstanceOf(KeyLookup);
+    expect(collect(lookup)).toEqual([{ id: 8, qty: 3 }]);
+    expect(Array.from(txn.getReads())).toEqual(['items/8']);
+
+    db.query(txn, 'DELETE FROM items WHERE id = 8');
+    db.query(txn, 'INSERT INTO items VALUES (40, 0)');
+    expect(db.query(txn, 'SELECT id FROM items WHERE id = 8').rows).toEqual([]);
+    expect(db.query(txn, 'SELECT id FROM items WHERE id = $1', [40]).rows).toEqual([{ id: 40 }]);
+    expect(db.query(txn, 'SELECT id FROM items WHERE id = 99').rows).toEqual([]);
+    db.commit(txn);
+  });
+
+  test('the planner only uses indexes of the table it scans', () => {
+    db.createIndex('any_qty', 'qty');
+    db.createIndex('archive_qty', 'qty', { table: 'items_archive' });
+    const planner = new Planner(engine);
+    const txn = db.begin();
+
+    expect((planner.scan(txn, items, whereOf('SELECT * FROM t WHERE qty = 3'), []) as Filter).child).toBeInstanceOf(SeqScan);
+    expect(db.query(txn, 'SELECT id FROM items_archive WHERE qty = 3').rows).toEqual([{ id: 1 }]);
+
+    db.createIndex('items_qty', 'qty', { table: 'items' });
+    const scan = planner.scan(txn, items, whereOf('SELECT * FROM t WHERE qty = 3'), []) as Filter;
+    expect((scan.child as IndexScan).index).toBe('items_qty');
+    expect(collect(scan).map(row => row.id)).toEqual([13, 18, 3, 8]);  // ties in key order
+    db.commit(txn);
+
+    expect(engine.indexes.get('archive_qty').tree.size).toBe(1);
+    expect(engine.indexes.list().find(index => index.name === 'archive_qty')?.keyPrefix).toBe('items_archive/');
+    expect(() => db.createIndex('missing_qty', 'qty', { table: 'missing' })).toThrow(/does not exist/);
+  });
+});
@@ -0,0 +1,134 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BTree, IndexEntry, compareEntries } from '../src/index/BTree';
+import { DatabaseService } from '../src/db/DatabaseService';
+
+const entry = (indexKey: any, primaryKey: string, xmin = 1): IndexEntry => ({ indexKey, primaryKey, xmin });
+
+describe('BTree', () => {
+  test('keeps entries ordered across many splits', () => {
+    const tree = new BTree(4);
+    const values = Array.from({ length: 500 }, (_, i) => (i * 37) % 500);
+    values.forEach(v => tree.insert(entry(v, `pk_${v}`)));
+    tree.insert(entry(42, 'pk_42'));  // duplicate is ignored
+
+    const all = Array.from(tree.range());
+    expect(tree.size).toBe(500);
+    expect(all.map(e => e.indexKey)).toEqual(Array.from({ length: 500 }, (_, i) => i));
+    expect([...all].sort(compareEntries)).toEqual(all);
+  });
+
+  test('finds every entry for a value and honours range bounds', () => {
+    const tree = new BTree(4);
+    for (let i = 0; i < 50; i++) tree.insert(entry(i % 5, `pk_${i}`, i));
+
+    expect(tree.search(3)).toHaveLength(10);
+    expect(tree.search(7)).toEqual([]);
+    expect(Array.from(tree.range(1, 2)).every(e => e.indexKey === 1 || e.indexKey === 2)).toBe(true);
+    expect(Array.from(tree.range(1, 2))).toHaveLength(20);
+  });
+
+  test('orders mixed value types null < boolean < number < string', () => {
+    const tree = new BTree();
+    ['b', 10, null, true, 2, 'a'].forEach((v, i) => tree.insert(entry(v, `pk_${i}`)));
+
+    expect(Array.from(tree.range()).map(e => e.indexKey)).toEqual([null, true, 2, 10, 'a', 'b']);
+  });
+
+  test('deletes entries without disturbing range scans', () => {
+    const tree = new BTree(4);
+    for (let i = 0; i < 40; i++) tree.insert(entry(i, `pk_${i}`));
+    for (let i = 0; i < 40; i += 2) expect(tree.delete(entry(i, `pk_${i}`))).toBe(true);
+
+    expect(tree.delete(entry(0, 'pk_0'))).toBe(false);
+    expect(tree.size).toBe(20);
+    expect(Array.from(tree.range(10, 15)).map(e => e.indexKey)).toEqual([11, 13, 15]);
+  });
+});
+
+describe('DatabaseService - secondary indexes', () => {
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    db = new DatabaseService();
+    const setup = db.begin();
+    db.insert(setup, 'user_1', { name: 'Alice', age: 30, address: { city: 'Paris' } });
+    db.insert(setup, 'user_2', { name: 'Bob', age: 25, address: { city: 'Oslo' } });
+    db.insert(setup, 'user_3', { name: 'Carol', age: 30 });
+    db.commit(setup);
+  });
+
+  test('indexes existing rows and finds them by value', () => {
+    db.createIndex('idx_age', 'age');
+
+    const rows = db.indexLookup(db.begin(), 'idx_age', 30);
+    expect(rows.map(r => r.name)).toEqual(['Alice', 'Carol']);
+  });
+
+  test('maintains the index at commit and validates visibility per snapshot', () => {
+    db.createIndex('idx_age', 'age');
+    const before = db.begin();
+
+    const writer = db.begin();
+    db.update(writer, 'user_1', { age: 31 });
+    db.delete(writer, 'user_3');
+    db.insert(writer, 'user_4', { name: 'Dan', age: 30 });
+
+    // Uncommitted writes are not in the index yet
+    expect(db.indexLookup(db.begin(), 'idx_age', 31)).toEqual([]);
+    db.commit(writer);
+
+    const after = db.begin();
+    expect(db.indexLookup(after, 'idx_age', 30).map(r => r.name)).toEqual(['Dan']);
+    expect(db.indexLookup(after, 'idx_age', 31).map(r => r.name)).toEqual(['Alice']);
+
+    // The older snapshot still finds the versions it sees through old entries
+    expect(db.indexLookup(before, 'idx_age', 30).map(r => r.name)).toEqual(['Alice', 'Carol']);
+    expect(db.indexLookup(before, 'idx_age', 31)).toEqual([]);
+  });
+
+  test('range scans nested fields in index order', () => {
+    db.createIndex('idx_city', 'address.city');
+    db.createIndex('idx_age', 'age');
+    const txn = db.begin();
+
+    expect(db.indexRange(txn, 'idx_city', { min: 'A', max: 'Z' }).map(r => r.name)).toEqual(['Bob', 'Alice']);
+    expect(db.indexLookup(txn, 'idx_city', null).map(r => r.name)).toEqual(['Carol']);
+    expect(db.indexRange(txn, 'idx_age', { min: 26, limit: 1 }).map(r => r.name)).toEqual(['Alice']);
+  });
+
+  test('rejects duplicate names, unknown indexes and bad field paths', () => {
+    db.createIndex('idx_age', 'age');
+
+    expect(() => db.createIndex('idx_age', 'name')).toThrow(/already exists/);
+    expect(() => db.indexLookup(db.begin(), 'idx_missing', 1)).toThrow(/does not exist/);
+    expect(() => db.createIndex('idx_bad', 'address..city')).toThrow(/field path/);
+  });
+});
+
+describe('DatabaseService - index persistence', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-index-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('rebuilds indexes from recovered storage on reopen', () => {
+    const db = new DatabaseService({ dataDir });
+    db.createIndex('idx_email', 'email');
+    const txn = db.begin();
+    db.insert(txn, 'user_1', { email: 'a@example.com' });
+    db.insert(txn, 'user_2', { email: 'b@example.com' });
+    db.commit(txn);
+    db.close();
+
+    const reopened = new DatabaseService({ dataDir });
+    expect(reopened.indexLookup(reopened.begin(), 'idx_email', 'b@example.com').map(r => r.key)).toEqual(['user_2']);
+    reopened.close();
+  });
+});
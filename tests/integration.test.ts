@@ -158,3 +158,80 @@ describe('Integration Tests - Snapshot Isolation', () => {
     db.commit(t4);
   });
 });
+
+describe('Integration Tests - Read Your Own Writes', () => {
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    db = new DatabaseService();
+    const setup = db.begin();
+    db.insert(setup, 'user_1', { name: 'Alice', age: 30 });
+    db.insert(setup, 'user_3', { name: 'Carol', age: 40 });
+    db.commit(setup);
+  });
+
+  test('select and scan see pending inserts, updates and deletes', () => {
+    const txn = db.begin();
+    db.insert(txn, 'user_2', { name: 'Bob', age: 25 });
+    db.update(txn, 'user_1', { age: 31 });
+    db.delete(txn, 'user_3');
+
+    const expected = [
+      { key: 'user_1', name: 'Alice', age: 31 },
+      { key: 'user_2', name: 'Bob', age: 25 },
+    ];
+    expect(db.select(txn)).toEqual(expected);
+    expect(db.scan(txn).rows).toEqual(expected);
+    expect(db.scan(txn, { reverse: true, limit: 1 })).toEqual({ rows: [expected[1]], cursor: 'user_2' });
+
+    // Nobody else sees them before commit
+    expect(db.select(db.begin()).map(row => row.key)).toEqual(['user_1', 'user_3']);
+  });
+
+  test('update and delete work on a row inserted earlier in the transaction', () => {
+    const txn = db.begin();
+    db.insert(txn, 'user_2', { name: 'Bob', age: 25 });
+    db.update(txn, 'user_2', { age: 26 });
+    db.update(txn, 'user_2', { name: 'Robert' });
+    db.insert(txn, 'user_4', { name: 'Dan' });
+    db.delete(txn, 'user_4');
+
+    // One pending version per (key, xmin)
+    expect(txn.getWrites().get('user_2')).toHaveLength(1);
+    expect(txn.getWrites().has('user_4')).toBe(false);
+    expect(() => db.insert(txn, 'user_2', { name: 'Again' })).toThrow(/primary_key/);
+    db.commit(txn);
+
+    expect(db.select(db.begin())).toEqual([
+      { key: 'user_1', name: 'Alice', age: 30 },
+      { key: 'user_2', name: 'Robert', age: 26 },
+      { key: 'user_3', name: 'Carol', age: 40 },
+    ]);
+  });
+
+  test('repeated updates of a committed row keep a single tombstone', () => {
+    const txn = db.begin();
+    db.update(txn, 'user_1', { age: 31 });
+    db.update(txn, 'user_1', { age: 32 });
+    expect(txn.getWrites().get('user_1')!.map(row => [row.xmin, row.xmax])).toEqual([[1, txn.id], [txn.id, null]]);
+
+    db.delete(txn, 'user_1');
+    expect(() => db.update(txn, 'user_1', { age: 33 })).toThrow(/not found|not visible/);
+    db.insert(txn, 'user_1', { name: 'New Alice' });
+    db.commit(txn);
+
+    expect(db.select(db.begin(), ['user_1'])).toEqual([{ key: 'user_1', name: 'New Alice' }]);
+  });
+
+  test('index lookups see pending writes', () => {
+    db.createIndex('idx_age', 'age');
+    const txn = db.begin();
+    db.insert(txn, 'user_2', { name: 'Bob', age: 30 });
+    db.update(txn, 'user_1', { age: 41 });
+
+    expect(db.indexLookup(txn, 'idx_age', 30).map(row => row.name)).toEqual(['Bob']);
+    expect(db.indexRange(txn, 'idx_age', { min: 40 }).map(row => row.name)).toEqual(['Carol', 'Alice']);
+    expect(db.indexRange(txn, 'idx_age', { limit: 2 }).map(row => row.name)).toEqual(['Bob', 'Carol']);
+    expect(db.indexLookup(db.begin(), 'idx_age', 30).map(row => row.name)).toEqual(['Alice']);
+  });
+});
@@ -0,0 +1,207 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseService } from '../src/db/DatabaseService';
+import { IsolationLevel, TransactionState } from '../src/transaction/Transaction';
+import { SerializationFailureError } from '../src/db/errors';
+
+const READ_COMMITTED = { isolationLevel: IsolationLevel.READ_COMMITTED };
+
+describe('Read Committed isolation', () => {
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    db = new DatabaseService();
+    const setup = db.begin();
+    db.insert(setup, 'counter', { value: 1, label: 'hits' });
+    db.insert(setup, 'doomed', { value: 0 });
+    db.commit(setup);
+  });
+
+  const write = (fn: (txn: ReturnType<DatabaseService['begin']>) => void) => {
+    const txn = db.begin();
+    fn(txn);
+    db.commit(txn);
+  };
+
+  test('each statement sees rows committed before it started', () => {
+    const rc = db.begin(READ_COMMITTED);
+    const si = db.begin();
+    expect(db.select(rc, ['counter'])[0].value).toBe(1);
+    expect(db.select(si, ['counter'])[0].value).toBe(1);
+
+    write(txn => db.update(txn, 'counter', { value: 2 }));
+    write(txn => db.insert(txn, 'fresh', { value: 9 }));
+
+    expect(db.select(rc, ['counter'])[0].value).toBe(2);
+    expect(db.scan(rc).rows.map(row => row.key)).toEqual(['counter', 'doomed', 'fresh']);
+    expect(db.select(si, ['counter'])[0].value).toBe(1);
+    db.commit(rc);
+  });
+
+  test('an update reapplies its fields to a version committed after the statement', () => {
+    const rc = db.begin(READ_COMMITTED);
+    db.update(rc, 'counter', { value: 10 });
+
+    write(txn => db.update(txn, 'counter', { label: 'visits' }));
+
+    db.commit(rc);
+    expect(db.select(db.begin(), ['counter'])).toEqual([{ key: 'counter', value: 10, label: 'visits' }]);
+  });
+
+  test('the same race fails under snapshot isolation', () => {
+    const si = db.begin();
+    db.update(si, 'counter', { value: 10 });
+
+    write(txn => db.update(txn, 'counter', { label: 'visits' }));
+
+    expect(() => db.commit(si)).toThrow(/Write-write conflict/);
+  });
+
+  test('updates and deletes of a row deleted concurrently are skipped', () => {
+    const updater = db.begin(READ_COMMITTED);
+    const deleter = db.begin(READ_COMMITTED);
+    db.update(updater, 'doomed', { value: 1 });
+    db.delete(deleter, 'doomed');
+    db.update(deleter, 'counter', { value: 5 });
+
+    write(txn => db.delete(txn, 'doomed'));
+
+    db.commit(updater);
+    db.commit(deleter);
+    expect(db.select(db.begin())).toEqual([{ key: 'counter', value: 5, label: 'hits' }]);
+  });
+
+  test('an update recomputed on the latest version keeps concurrent increments', () => {
+    const increment = (txn: ReturnType<DatabaseService['begin']>) => {
+      const [{ value }] = db.select(txn, ['counter']);
+      db.update(txn, 'counter', { value: value + 1 }, latest => ({ value: latest.value + 1 }));
+    };
+    const t1 = db.begin(READ_COMMITTED);
+    const t2 = db.begin(READ_COMMITTED);
+    increment(t1);
+    increment(t2);
+
+    db.commit(t1);
+    db.commit(t2);
+    expect(db.select(db.begin(), ['counter'])).toEqual([{ key: 'counter', value: 3, label: 'hits' }]);
+  });
+
+  test('a write whose condition no longer holds on the latest version is dropped', () => {
+    const rc = db.begin(READ_COMMITTED);
+    db.delete(rc, 'doomed', latest => latest !== null && latest.value === 0);
+    db.update(rc, 'counter', { value: 0 }, latest => latest.value < 5 ? { value: 0 } : null);
+
+    write(txn => {
+      db.update(txn, 'doomed', { value: 7 });
+      db.update(txn, 'counter', { value: 5 });
+    });
+
+    db.commit(rc);
+    expect(db.select(db.begin())).toEqual([
+      { key: 'counter', value: 5, label: 'hits' },
+      { key: 'doomed', value: 7 },
+    ]);
+  });
+
+  test('a delete moves to the latest version and a re-insert survives', () => {
+    const rc = db.begin(READ_COMMITTED);
+    db.delete(rc, 'counter');
+    db.insert(rc, 'counter', { value: 100 });
+
+    write(txn => db.update(txn, 'counter', { value: 3 }));
+
+    db.commit(rc);
+    expect(db.select(db.begin(), ['counter'])).toEqual([{ key: 'counter', value: 100 }]);
+  });
+});
+
+describe('Read Committed with group commit', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-rc-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('a row still waiting on a group fsync is re-checked, not a conflict', async () => {
+    const db = new DatabaseService({ dataDir, groupCommitWindowMs: 20 });
+    const setup = db.begin();
+    db.insert(setup, 'counter', { value: 0 });
+    db.commit(setup);
+
+    const increment = (txn: ReturnType<DatabaseService['begin']>) =>
+      db.update(txn, 'counter', { value: 1 }, latest => ({ value: latest.value + 1 }));
+    const t1 = db.begin(READ_COMMITTED);
+    const t2 = db.begin(READ_COMMITTED);
+    increment(t1);
+    increment(t2);
+
+    await Promise.all([db.commitAsync(t1), db.commitAsync(t2)]);
+    expect(db.select(db.begin(), ['counter'])).toEqual([{ key: 'counter', value: 2 }]);
+  });
+});
+
+describe('Read Committed re-check through SQL', () => {
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    db = new DatabaseService();
+    db.query(null, 'CREATE TABLE c (id INTEGER PRIMARY KEY, v INTEGER)');
+    db.query(null, 'INSERT INTO c VALUES (1, 0), (2, 5)');
+  });
+
+  const rows = () => db.query(null, 'SELECT id, v FROM c ORDER BY id').rows;
+
+  test('concurrent increments are both kept', () => {
+    const t1 = db.begin(READ_COMMITTED);
+    const t2 = db.begin(READ_COMMITTED);
+    db.query(t1, 'UPDATE c SET v = v + 1 WHERE id = 1');
+    db.query(t2, 'UPDATE c SET v = v + 1 WHERE id = 1');
+
+    db.commit(t1);
+    db.commit(t2);
+    expect(rows()).toEqual([{ id: 1, v: 2 }, { id: 2, v: 5 }]);
+  });
+
+  test('WHERE is evaluated again on the latest version', () => {
+    const deleter = db.begin(READ_COMMITTED);
+    const updater = db.begin(READ_COMMITTED);
+    db.query(deleter, 'DELETE FROM c WHERE v = 5');
+    db.query(updater, 'UPDATE c SET v = v * 10 WHERE v < 5');
+
+    db.query(null, 'UPDATE c SET v = v + 1');
+
+    db.commit(deleter);  // row 2 is now 6
+    db.commit(updater);  // row 1 is now 1, still below 5
+    expect(rows()).toEqual([{ id: 1, v: 10 }, { id: 2, v: 6 }]);
+  });
+
+  test('statements on the same row are redone in order', () => {
+    const rc = db.begin(READ_COMMITTED);
+    db.query(rc, 'UPDATE c SET v = v + 1 WHERE id = 1');
+    db.query(rc, 'UPDATE c SET v = v * 2 WHERE id = 1');
+
+    db.query(null, 'UPDATE c SET v = 10 WHERE id = 1');
+
+    db.commit(rc);
+    expect(rows()[0]).toEqual({ id: 1, v: 22 });
+  });
+
+  test('a re-check that fails, or would move the row, aborts the commit', () => {
+    const failing = db.begin(READ_COMMITTED);
+    db.query(failing, 'UPDATE c SET v = 10 / (v - 1) WHERE id = 1');
+    const moving = db.begin(READ_COMMITTED);
+    db.query(moving, 'UPDATE c SET id = id + 10 WHERE id = 2');
+
+    db.query(null, 'UPDATE c SET v = 1');
+
+    expect(() => db.commit(failing)).toThrow('Division by zero');
+    expect(failing.state).toBe(TransactionState.ABORTED);
+    expect(() => db.commit(moving)).toThrow(SerializationFailureError);
+    expect(rows()).toEqual([{ id: 1, v: 1 }, { id: 2, v: 1 }]);
+  });
+});
@@ -0,0 +1,241 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseService } from '../src/db/DatabaseService';
+import { Operator, collect } from '../src/execution/Operator';
+import { SeqScan } from '../src/execution/SeqScan';
+import { HashJoin } from '../src/execution/HashJoin';
+import { MergeJoin } from '../src/execution/MergeJoin';
+import { NestedLoopJoin } from '../src/execution/NestedLoopJoin';
+import { KeyLookup } from '../src/execution/KeyLookup';
+import { IndexScan } from '../src/execution/IndexScan';
+import { JoinCondition } from '../src/execution/joins';
+import { JoinMethod } from '../src/execution/Planner';
+import { ColumnExpression } from '../src/sql/ast';
+
+const column = (table: string, name: string): ColumnExpression => ({ type: 'column', table, name });
+
+function createShop(options: ConstructorParameters<typeof DatabaseService>[0] = {}): DatabaseService {
+  const db = new DatabaseService(options);
+  db.query(null, 'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT, age INTEGER)');
+  db.query(null, 'CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER, total INTEGER)');
+  db.query(null, "INSERT INTO users VALUES (1, 'Alice', 30), (2, 'Bob', 25), (3, 'Carol', 41), (4, 'Dan', NULL)");
+  db.query(null, 'INSERT INTO orders VALUES (1, 1, 100), (2, 1, 250), (3, 3, 75), (4, NULL, 20), (5, 9, 60)');
+  return db;
+}
+
+describe('Joins', () => {
+  const methods: Array<[string, JoinMethod[], { prototype: Operator }]> = [
+    ['index nested loop', ['index'], NestedLoopJoin],
+    ['hash', ['hash'], HashJoin],
+    ['merge', ['merge'], MergeJoin],
+    ['nested loop', [], NestedLoopJoin],
+  ];
+
+  describe.each(methods)('%s join', (_name, joinMethods, operator) => {
+    let db: DatabaseService;
+
+    beforeEach(() => {
+      db = createShop({ joinMethods });
+      db.createIndex('orders_user', 'user_id', { table: 'orders' });
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    test('inner and left joins', () => {
+      const open = jest.spyOn(operator.prototype, 'open');
+
+      expect(db.query(null, 'SELECT u.name, o.total FROM users u JOIN orders o ON u.id = o.user_id WHERE u.age > 25 ORDER BY o.id').rows).toEqual([
+        { name: 'Alice', total: 100 },
+        { name: 'Alice', total: 250 },
+        { name: 'Carol', total: 75 },
+      ]);
+      expect(open).toHaveBeenCalled();
+
+      expect(db.query(null, 'SELECT o.id, u.name FROM orders o INNER JOIN users u ON o.user_id = u.id ORDER BY o.id').rows).toEqual([
+        { id: 1, name: 'Alice' },
+        { id: 2, name: 'Alice' },
+        { id: 3, name: 'Carol' },
+      ]);
+
+      expect(db.query(null, 'SELECT u.name, o.id AS order_id FROM users u LEFT OUTER JOIN orders o ON o.user_id = u.id AND o.total >= 75 ORDER BY u.id, o.id').rows).toEqual([
+        { name: 'Alice', order_id: 1 },
+        { name: 'Alice', order_id: 2 },
+        { name: 'Bob', order_id: null },
+        { name: 'Carol', order_id: 3 },
+        { name: 'Dan', order_id: null },
+      ]);
+    });
+
+    test('semi and anti joins, where NULL keys never match', () => {
+      expect(db.query(null, 'SELECT name FROM users u LEFT SEMI JOIN orders o ON o.user_id = u.id AND o.total > 80 ORDER BY name').rows).toEqual([
+        { name: 'Alice' },
+      ]);
+      expect(db.query(null, 'SELECT name FROM users LEFT ANTI JOIN orders ON orders.user_id = users.id ORDER BY name').rows).toEqual([
+        { name: 'Bob' },
+        { name: 'Dan' },
+      ]);
+      expect(db.query(null, 'SELECT * FROM orders o LEFT ANTI JOIN users u ON u.id = o.user_id ORDER BY id').rows).toEqual([
+        { id: 4, user_id: null, total: 20 },
+        { id: 5, user_id: 9, total: 60 },
+      ]);
+    });
+
+    test('joins without an equality fall back to a nested loop', () => {
+      expect(db.query(null, 'SELECT u.name, o.id FROM users u JOIN orders o ON o.total > u.age * 5 ORDER BY u.id').rows).toEqual([
+        { name: 'Alice', id: 2 },
+        { name: 'Bob', id: 2 },
+        { name: 'Carol', id: 2 },
+      ]);
+    });
+  });
+
+  test('the index method probes primary keys and secondary indexes', () => {
+    const db = createShop({ joinMethods: ['index'] });
+    db.createIndex('any_user_id', 'user_id');  // not the orders table's, so never probed
+    const lookups = jest.spyOn(KeyLookup.prototype, 'open');
+    const probes = jest.spyOn(IndexScan.prototype, 'open');
+
+    db.query(null, 'SELECT o.id FROM orders o JOIN users u ON u.id = o.user_id');
+    expect(lookups).toHaveBeenCalledTimes(4);  // not for the order with a NULL user_id
+
+    const sql = 'SELECT u.id FROM users u JOIN orders o ON o.user_id = u.id';
+    db.query(null, sql);
+    expect(probes).not.toHaveBeenCalled();
+
+    db.createIndex('orders_user', 'user_id', { table: 'orders' });
+    db.query(null, sql);
+    expect(probes).toHaveBeenCalledTimes(4);
+    jest.restoreAllMocks();
+  });
+
+  test('every table in a join is read with the same snapshot, including own writes', () => {
+    const db = createShop();
+    const txn = db.begin();
+    db.query(txn, 'SELECT 1 AS started FROM users LIMIT 1');
+
+    db.query(null, 'INSERT INTO orders VALUES (6, 2, 500)');
+    db.query(null, 'DELETE FROM users WHERE id = 3');
+    db.query(txn, 'INSERT INTO orders VALUES (7, 4, 10)');
+
+    const sql = 'SELECT u.name, o.id FROM users u JOIN orders o ON o.user_id = u.id ORDER BY o.id';
+    expect(db.query(txn, sql).rows.map(r => r.name)).toEqual(['Alice', 'Alice', 'Carol', 'Dan']);
+    db.commit(txn);
+    expect(db.query(null, sql).rows.map(r => r.name)).toEqual(['Alice', 'Alice', 'Bob', 'Dan']);
+  });
+
+  test('name resolution across joined tables', () => {
+    const db = createShop();
+    expect(() => db.query(null, 'SELECT id FROM users u JOIN orders o ON u.id = o.user_id')).toThrow(/Column reference 'id' is ambiguous/);
+    expect(() => db.query(null, 'SELECT o.total FROM users u LEFT SEMI JOIN orders o ON u.id = o.user_id')).toThrow(/Missing FROM-clause entry for table 'o'/);
+    expect(() => db.query(null, 'SELECT * FROM users u JOIN users u ON u.id = u.id')).toThrow(/Table name 'u' specified more than once/);
+    expect(() => db.query(null, 'SELECT users.name FROM users u JOIN orders o ON u.id = o.user_id')).toThrow(/Missing FROM-clause entry for table 'users'/);
+    expect(() => db.query(null, 'SELECT nope FROM users u JOIN orders o ON u.id = o.user_id')).toThrow(/Column 'nope' does not exist/);
+    expect(db.query(null, 'SELECT name, total FROM users JOIN orders ON users.id = user_id WHERE total > 200').rows).toEqual([
+      { name: 'Alice', total: 250 },
+    ]);
+  });
+});
+
+describe('Hash join spill', () => {
+  let tempDir: string;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-join-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  function setup(workMem: number) {
+    const db = new DatabaseService();
+    db.query(null, 'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT)');
+    db.query(null, 'CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER, total INTEGER)');
+    for (let id = 1; id <= 60; id++) {
+      db.query(null, 'INSERT INTO users VALUES ($1, $2)', [id, `user ${id}`]);
+    }
+    for (let id = 1; id <= 150; id++) {
+      db.query(null, 'INSERT INTO orders VALUES ($1, $2, $3)', [id, id % 3 === 0 ? null : id % 70, id]);
+    }
+
+    const engine = db.executionEngine({ workMem, tempDir });
+    return { db, engine, users: db.getTable('users'), orders: db.getTable('orders') };
+  }
+
+  const condition = (type: JoinCondition['type'], left: string, right: string, leftKey: string, rightKey: string, rightColumns: string[]): JoinCondition => ({
+    type,
+    leftKeys: [column(left, leftKey)],
+    rightKeys: [column(right, rightKey)],
+    residual: null,
+    rightColumns: rightColumns.map(name => `${right}.${name}`),
+  });
+
+  const sorted = (rows: any[]) => rows.map(row => JSON.stringify(row)).sort();
+
+  test.each(['inner', 'left', 'semi', 'anti'] as const)('a %s join that outgrows work_mem matches the in-memory result', type => {
+    const run = (workMem: number) => {
+      const { db, engine, users, orders } = setup(workMem);
+      const txn = db.begin();
+      const join = new HashJoin(
+        new SeqScan(engine, txn, orders, 'o'),
+        new SeqScan(engine, txn, users, 'u'),
+        condition(type, 'o', 'u', 'user_id', 'id', ['id', 'name']),
+        engine,
+        []
+      );
+      const rows = collect(join);
+      db.commit(txn);
+      return { rows, spilledBytes: join.spilledBytes };
+    };
+
+    const inMemory = run(1024 * 1024);
+    const spilled = run(256);
+
+    expect(inMemory.spilledBytes).toBe(0);
+    expect(spilled.spilledBytes).toBeGreaterThan(0);
+    expect(sorted(spilled.rows)).toEqual(sorted(inMemory.rows));
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+  });
+
+  test('a build side of one repeated key stops splitting and joins in memory', () => {
+    const { db, engine, users, orders } = setup(128);
+    db.query(null, 'UPDATE orders SET user_id = 7');
+    const txn = db.begin();
+
+    const join = new HashJoin(
+      new SeqScan(engine, txn, users, 'u'),
+      new SeqScan(engine, txn, orders, 'o'),
+      condition('inner', 'u', 'o', 'id', 'user_id', ['id', 'user_id', 'total']),
+      engine,
+      []
+    );
+    const rows = collect(join);
+
+    expect(rows).toHaveLength(150);
+    expect(new Set(rows.map(row => row['u.name']))).toEqual(new Set(['user 7']));
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+    db.commit(txn);
+  });
+
+  test('closing a join early removes its spill files', () => {
+    const { db, engine, users, orders } = setup(256);
+    const txn = db.begin();
+    const join = new HashJoin(
+      new SeqScan(engine, txn, orders, 'o'),
+      new SeqScan(engine, txn, users, 'u'),
+      condition('inner', 'o', 'u', 'user_id', 'id', ['id', 'name']),
+      engine,
+      []
+    );
+
+    join.open();
+    expect(join.next()).not.toBeNull();
+    expect(fs.readdirSync(tempDir).length).toBeGreaterThan(0);
+    join.close();
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+    db.commit(txn);
+  });
+});
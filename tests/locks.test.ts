@@ -0,0 +1,217 @@
+import { DatabaseService } from '../src/db/DatabaseService';
+import { DeadlockError, LockNotAvailableError, LockTimeoutError, SerializationFailureError } from '../src/db/errors';
+import { LockManager, LockMode } from '../src/transaction/LockManager';
+import { IsolationLevel } from '../src/transaction/Transaction';
+
+describe('LockManager', () => {
+  test('shares SHARE locks and queues EXCLUSIVE requests in order', async () => {
+    const locks = new LockManager();
+    expect(locks.tryAcquire(1, 'a', LockMode.SHARE)).toBe(true);
+    expect(locks.tryAcquire(2, 'a', LockMode.SHARE)).toBe(true);
+    expect(locks.tryAcquire(3, 'a', LockMode.EXCLUSIVE)).toBe(false);
+
+    const granted: number[] = [];
+    const exclusive = locks.acquire(3, 'a', LockMode.EXCLUSIVE).then(() => granted.push(3));
+    // Queued behind the EXCLUSIVE waiter even though it is compatible with the holders
+    expect(locks.tryAcquire(4, 'a', LockMode.SHARE)).toBe(false);
+
+    locks.releaseAll(1);
+    await Promise.resolve();
+    expect(granted).toEqual([]);
+
+    locks.releaseAll(2);
+    await exclusive;
+    expect(locks.holdersOf('a')).toEqual([3]);
+  });
+
+  test('lets a sole holder upgrade and fails the waits of a released transaction', async () => {
+    const locks = new LockManager();
+    expect(locks.tryAcquire(1, 'a', LockMode.SHARE)).toBe(true);
+    expect(locks.tryAcquire(1, 'a', LockMode.EXCLUSIVE)).toBe(true);
+
+    const waiting = locks.acquire(2, 'a', LockMode.SHARE);
+    locks.releaseAll(2);
+    await expect(waiting).rejects.toThrow(/ended while waiting/);
+    expect(locks.holdersOf('a')).toEqual([1]);
+  });
+
+  test('an upgrade waiting for another holder goes ahead of queued requests', async () => {
+    const locks = new LockManager({ deadlockCheckIntervalMs: 0 });
+    locks.tryAcquire(1, 'a', LockMode.SHARE);
+    locks.tryAcquire(2, 'a', LockMode.SHARE);
+
+    const granted: number[] = [];
+    const exclusive = locks.acquire(3, 'a', LockMode.EXCLUSIVE).then(() => granted.push(3));
+    const upgrade = locks.acquire(1, 'a', LockMode.EXCLUSIVE).then(() => granted.push(1));
+    expect(locks.detectDeadlocks()).toEqual([]);
+
+    locks.releaseAll(2);
+    await upgrade;
+    expect(locks.getLocks()[0].holders).toEqual([{ txnId: 1, mode: LockMode.EXCLUSIVE }]);
+
+    locks.releaseAll(1);
+    await exclusive;
+    expect(granted).toEqual([1, 3]);
+  });
+
+  test('breaks a wait cycle by failing the youngest transaction', async () => {
+    const locks = new LockManager({ deadlockCheckIntervalMs: 0 });
+    locks.tryAcquire(1, 'a', LockMode.EXCLUSIVE);
+    locks.tryAcquire(2, 'b', LockMode.EXCLUSIVE);
+    locks.tryAcquire(3, 'c', LockMode.SHARE);
+    const waits = [
+      locks.acquire(1, 'b', LockMode.SHARE),
+      locks.acquire(2, 'c', LockMode.EXCLUSIVE),
+      locks.acquire(3, 'a', LockMode.SHARE),
+    ];
+    const [first, second, third] = waits.map(wait => wait.then(() => 'granted', error => error));
+
+    expect(locks.detectDeadlocks()).toEqual([3]);
+    const error = await third;
+    expect(error).toBeInstanceOf(DeadlockError);
+    expect([...error.cycle].sort()).toEqual([1, 2, 3]);
+
+    locks.releaseAll(3);
+    expect(await second).toBe('granted');
+    locks.releaseAll(2);
+    expect(await first).toBe('granted');
+    expect(locks.detectDeadlocks()).toEqual([]);
+  });
+
+  test('reports holders and waiters', () => {
+    const locks = new LockManager();
+    locks.tryAcquire(1, 'a', LockMode.SHARE);
+    locks.acquire(2, 'a', LockMode.EXCLUSIVE).catch(() => undefined);
+
+    expect(locks.getLocks()).toEqual([{
+      key: 'a',
+      holders: [{ txnId: 1, mode: LockMode.SHARE }],
+      waiters: [{ txnId: 2, mode: LockMode.EXCLUSIVE, waitingMs: expect.any(Number) }],
+    }]);
+    locks.releaseAll(2);
+    locks.releaseAll(1);
+    expect(locks.getLocks()).toEqual([]);
+  });
+});
+
+describe('DatabaseService - row locks', () => {
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    db = new DatabaseService();
+    const setup = db.begin();
+    db.insert(setup, 'acct_1', { balance: 100 });
+    db.insert(setup, 'acct_2', { balance: 50 });
+    db.commit(setup);
+  });
+
+  test('selectForUpdate waits for the holder to commit', async () => {
+    const t1 = db.begin({ isolationLevel: IsolationLevel.READ_COMMITTED });
+    const t2 = db.begin({ isolationLevel: IsolationLevel.READ_COMMITTED });
+    expect(await db.selectForUpdate(t1, ['acct_1'])).toEqual([{ key: 'acct_1', balance: 100 }]);
+
+    let t2Rows: any[] | null = null;
+    const waiting = db.selectForUpdate(t2, ['acct_1']).then(rows => { t2Rows = rows; });
+    await Promise.resolve();
+    expect(t2Rows).toBeNull();
+
+    db.update(t1, 'acct_1', { balance: 90 });
+    db.commit(t1);
+    await waiting;
+
+    // READ COMMITTED reads the version committed by the previous holder
+    expect(t2Rows).toEqual([{ key: 'acct_1', balance: 90 }]);
+    db.update(t2, 'acct_1', { balance: 80 });
+    db.commit(t2);
+  });
+
+  test('NOWAIT fails and SKIP LOCKED leaves locked rows out', async () => {
+    const t1 = db.begin();
+    const t2 = db.begin();
+    await db.selectForUpdate(t1, ['acct_1']);
+
+    await expect(db.selectForUpdate(t2, ['acct_2', 'acct_1'], { nowait: true }))
+      .rejects.toMatchObject({ name: 'LockNotAvailableError', key: 'acct_1', holder: t1.id });
+    expect(await db.selectForUpdate(t2, ['acct_1', 'acct_2'], { skipLocked: true }))
+      .toEqual([{ key: 'acct_2', balance: 50 }]);
+    await expect(db.selectForShare(t2, ['acct_1'], { nowait: true, skipLocked: true })).rejects.toThrow(/cannot be combined/);
+  });
+
+  test('share locks coexist but block writers until released', async () => {
+    const t1 = db.begin();
+    const t2 = db.begin();
+    const writer = db.begin();
+    await db.selectForShare(t1, ['acct_1']);
+    await db.selectForShare(t2, ['acct_1']);
+
+    expect(() => db.update(writer, 'acct_1', { balance: 0 })).toThrow(LockNotAvailableError);
+    await expect(db.selectForUpdate(writer, ['acct_1'], { nowait: true })).rejects.toThrow(LockNotAvailableError);
+
+    db.commit(t1);
+    db.abort(t2);
+    db.update(writer, 'acct_1', { balance: 0 });
+    db.commit(writer);
+  });
+
+  test('a write made before another transaction locked the row fails at commit', async () => {
+    const writer = db.begin();
+    const locker = db.begin();
+    db.delete(writer, 'acct_2');
+    await db.selectForUpdate(locker, ['acct_2']);
+
+    expect(() => db.commit(writer)).toThrow(LockNotAvailableError);
+    db.commit(locker);
+  });
+
+  test('a snapshot transaction cannot lock a row changed after its snapshot', async () => {
+    const stale = db.begin();
+    const other = db.begin();
+    db.update(other, 'acct_1', { balance: 0 });
+    db.commit(other);
+
+    await expect(db.selectForUpdate(stale, ['acct_1'])).rejects.toThrow(SerializationFailureError);
+    expect(await db.selectForUpdate(stale, ['acct_2'])).toEqual([{ key: 'acct_2', balance: 50 }]);
+  });
+});
+
+describe('DatabaseService - deadlocks and lock timeouts', () => {
+  const setup = (db: DatabaseService) => {
+    const txn = db.begin();
+    db.insert(txn, 'acct_1', { balance: 100 });
+    db.insert(txn, 'acct_2', { balance: 50 });
+    db.commit(txn);
+  };
+
+  test('aborts the younger of two transactions locking rows in opposite order', async () => {
+    const db = new DatabaseService({ deadlockCheckIntervalMs: 10 });
+    setup(db);
+    const older = db.begin();
+    const younger = db.begin();
+    await db.selectForUpdate(older, ['acct_1']);
+    await db.selectForUpdate(younger, ['acct_2']);
+
+    const olderWait = db.selectForUpdate(older, ['acct_2']);
+    const youngerWait = db.selectForUpdate(younger, ['acct_1']);
+
+    await expect(youngerWait).rejects.toBeInstanceOf(DeadlockError);
+    expect(await olderWait).toEqual([{ key: 'acct_2', balance: 50 }]);
+    expect(db.getLocks().flatMap(lock => lock.holders.map(holder => holder.txnId))).toEqual([older.id, older.id]);
+    db.commit(older);
+    db.close();
+  });
+
+  test('gives up on a lock wait after lockTimeoutMs and aborts the waiter', async () => {
+    const db = new DatabaseService({ lockTimeoutMs: 20 });
+    setup(db);
+    const holder = db.begin();
+    const waiter = db.begin();
+    await db.selectForShare(waiter, ['acct_2']);
+    await db.selectForUpdate(holder, ['acct_1']);
+
+    await expect(db.selectForUpdate(waiter, ['acct_1'])).rejects.toBeInstanceOf(LockTimeoutError);
+    // The waiter's other locks went with its abort
+    expect(db.getLocks().map(lock => lock.key)).toEqual(['acct_1']);
+    db.commit(holder);
+    db.close();
+  });
+});
@@ -0,0 +1,302 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SkipList } from '../src/storage/SkipList';
+import { SSTable } from '../src/storage/lsm/SSTable';
+import { BloomFilter } from '../src/storage/lsm/BloomFilter';
+import { LSMStorage } from '../src/storage/lsm/LSMStorage';
+import { DatabaseService } from '../src/db/DatabaseService';
+import { compareKeys } from '../src/storage/keys';
+import { VersionedRow } from '../src/mvcc/VersionedRow';
+import { MVCCEngine } from '../src/mvcc/MVCCEngine';
+import { CommitTable } from '../src/transaction/CommitTable';
+
+const row = (key: string, xmin: number, xmax: number | null = null, data: any = { key }): VersionedRow =>
+  ({ key, data, xmin, xmax });
+
+describe('SkipList', () => {
+  test('iterates in key order regardless of insertion order', () => {
+    const list = new SkipList<string, number>(compareKeys);
+    ['m', 'c', 'x', 'a', 'q'].forEach((k, i) => list.set(k, i));
+    list.set('c', 99);
+
+    expect(Array.from(list.entries()).map(([k]) => k)).toEqual(['a', 'c', 'm', 'q', 'x']);
+    expect(list.get('c')).toBe(99);
+    expect(list.get('b')).toBeUndefined();
+    expect(Array.from(list.entries('d')).map(([k]) => k)).toEqual(['m', 'q', 'x']);
+    expect(list.size).toBe(5);
+  });
+});
+
+describe('BloomFilter', () => {
+  test('never misses an added key and stays near the target false-positive rate', () => {
+    const filter = BloomFilter.create(1000, 0.01);
+    for (let i = 0; i < 1000; i++) filter.add(`key_${i}`);
+
+    for (let i = 0; i < 1000; i++) expect(filter.mightContain(`key_${i}`)).toBe(true);
+
+    let falsePositives = 0;
+    for (let i = 0; i < 10000; i++) {
+      if (filter.mightContain(`absent_${i}`)) falsePositives++;
+    }
+    expect(falsePositives / 10000).toBeLessThan(0.03);
+  });
+
+  test('rejects a false-positive rate outside (0, 1)', () => {
+    expect(() => BloomFilter.create(10, 0)).toThrow(/false-positive rate/);
+    expect(() => BloomFilter.create(10, 1)).toThrow(/false-positive rate/);
+  });
+});
+
+describe('SSTable', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-sst-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('finds keys through the block index across many blocks', () => {
+    const entries: Array<[string, VersionedRow[]]> = [];
+    for (let i = 0; i < 200; i++) {
+      const key = `key_${String(i).padStart(3, '0')}`;
+      entries.push([key, [row(key, i + 1)]]);
+    }
+
+    const table = SSTable.write(path.join(dir, 't.sst'), entries, 0, 256);
+
+    expect(table.entryCount).toBe(200);
+    expect(table.minKey).toBe('key_000');
+    expect(table.maxKey).toBe('key_199');
+    expect(table.get('key_123')![0].xmin).toBe(124);
+    expect(table.get('key_123x')).toBeUndefined();
+    expect(table.get('aaa')).toBeUndefined();
+    expect(Array.from(table.entries('key_197')).map(([k]) => k)).toEqual(['key_197', 'key_198', 'key_199']);
+    table.close();
+  });
+
+  test('skips the data block for keys the persisted bloom filter rules out', () => {
+    const file = path.join(dir, 't.sst');
+    const entries: Array<[string, VersionedRow[]]> = ['a', 'c', 'e'].map(k => [k, [row(k, 1)]]);
+    SSTable.write(file, entries, 0, 4096, 0.001).close();
+
+    // Corrupt the only data block: any lookup that reads it now throws
+    const fd = fs.openSync(file, 'r+');
+    fs.writeSync(fd, Buffer.from('XX'), 0, 2, 2);
+    fs.closeSync(fd);
+
+    const table = SSTable.open(file);
+    expect(table.get('b')).toBeUndefined();
+    expect(table.get('d')).toBeUndefined();
+    expect(() => table.get('c')).toThrow(/corrupt/);
+    table.close();
+  });
+
+  test('rejects a file with a damaged footer', () => {
+    const file = path.join(dir, 't.sst');
+    SSTable.write(file, [['a', [row('a', 1)]]], 0).close();
+    fs.truncateSync(file, fs.statSync(file).size - 1);
+
+    expect(() => SSTable.open(file)).toThrow(/footer/);
+  });
+});
+
+describe('LSMStorage', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-lsm-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('flushes the MemTable to an SSTable once it is full', () => {
+    const lsm = new LSMStorage(dir, { memTableSizeBytes: 200 });
+    for (let i = 0; i < 20; i++) lsm.insert(row(`k${i}`, 1));
+
+    expect(lsm.getSSTableCount()).toBeGreaterThan(0);
+    expect(lsm.getAllKeys()).toHaveLength(20);
+    expect(lsm.getAllKeys()).toEqual([...lsm.getAllKeys()].sort());
+    lsm.close();
+  });
+
+  test('a newer tombstone shadows the flushed live version', () => {
+    const lsm = new LSMStorage(dir);
+    lsm.insert(row('k', 1, null, { v: 1 }));
+    lsm.flush();
+    lsm.insert(row('k', 1, 5, { v: 1 }));
+    lsm.insert(row('k', 5, null, { v: 2 }));
+
+    expect(lsm.getAllVersions('k')).toEqual([row('k', 1, 5, { v: 1 }), row('k', 5, null, { v: 2 })]);
+    expect(lsm.getLatestVersion('k')!.data).toEqual({ v: 2 });
+    lsm.close();
+  });
+
+  test('reopens SSTables from the manifest and removes orphans', () => {
+    const lsm = new LSMStorage(dir);
+    lsm.insert(row('a', 1));
+    lsm.flush();
+    lsm.close();
+    fs.writeFileSync(path.join(dir, '999999.sst'), 'half-written');
+
+    const reopened = new LSMStorage(dir);
+    expect(reopened.getAllVersions('a')).toEqual([row('a', 1)]);
+    expect(fs.existsSync(path.join(dir, '999999.sst'))).toBe(false);
+    reopened.close();
+  });
+});
+
+describe('LSM compaction', () => {
+  let dir: string;
+  const mvcc = new MVCCEngine(new CommitTable());
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-compact-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const flushRows = (lsm: LSMStorage, rows: VersionedRow[]) => {
+    rows.forEach(r => lsm.insert(r));
+    lsm.flush();
+  };
+
+  test('size-tiered merges a run of similar tables without changing reads', () => {
+    const lsm = new LSMStorage(dir, { compaction: { intervalMs: 0 } });
+    for (let i = 0; i < 4; i++) {
+      flushRows(lsm, [row(`a${i}`, i + 1), row(`b${i}`, i + 1)]);
+    }
+    const before = lsm.getAllKeys();
+
+    expect(lsm.compact()).toBe(1);
+    expect(lsm.getSSTableCount()).toBe(1);
+    expect(lsm.getAllKeys()).toEqual(before);
+    expect(lsm.getCompactionStats().writeAmplification).toBeCloseTo(2, 0);
+    lsm.close();
+  });
+
+  test('drops versions below the GC horizon and keeps the rest', () => {
+    const compactWithHorizon = (subdir: string, oldestXmin: number) => {
+      const lsm = new LSMStorage(path.join(dir, subdir), { compaction: { intervalMs: 0 } });
+      flushRows(lsm, [row('k', 1, null, { v: 1 })]);
+      flushRows(lsm, [row('k', 1, 5, { v: 1 }), row('k', 5, null, { v: 2 })]);
+      flushRows(lsm, [row('other', 2)]);
+      flushRows(lsm, [row('other2', 3)]);
+      lsm.garbageCollect(oldestXmin, mvcc);
+      lsm.compact();
+      return lsm;
+    };
+
+    // A snapshot older than txn 5 is still open: the old version stays
+    const open = compactWithHorizon('open', 4);
+    expect(open.getAllVersions('k')).toHaveLength(2);
+    expect(open.getCompactionStats().versionsDropped).toBe(0);
+    open.close();
+
+    const done = compactWithHorizon('done', 10);
+    expect(done.getAllVersions('k')).toEqual([row('k', 5, null, { v: 2 })]);
+    expect(done.getCompactionStats().versionsDropped).toBe(1);
+    done.close();
+  });
+
+  test('keeps a tombstone while an older table outside the merge holds the live copy', () => {
+    const lsm = new LSMStorage(dir, { compaction: { intervalMs: 0 } });
+    const filler = Array.from({ length: 50 }, (_, i) => row(`f${String(i).padStart(2, '0')}`, 1));
+    flushRows(lsm, [row('k', 1), ...filler]);
+    flushRows(lsm, [row('k', 1, 5)]);
+    flushRows(lsm, [row('m', 6)]);
+    flushRows(lsm, [row('n', 7)]);
+    flushRows(lsm, [row('o', 8)]);
+
+    lsm.garbageCollect(10, mvcc);
+    lsm.compact();
+
+    expect(lsm.getSSTableCount()).toBe(2);
+    expect(lsm.getAllVersions('k')).toEqual([row('k', 1, 5)]);
+    lsm.close();
+  });
+
+  test('leveled compaction writes non-overlapping level-1 tables that survive reopen', () => {
+    const options = { compaction: { strategy: 'leveled' as const, intervalMs: 0, targetFileBytes: 200 } };
+    const lsm = new LSMStorage(dir, options);
+    for (let i = 0; i < 4; i++) {
+      flushRows(lsm, Array.from({ length: 10 }, (_, j) => row(`key_${j}`, i + 1, i < 3 ? i + 2 : null)));
+    }
+
+    expect(lsm.compact()).toBe(1);
+    expect(lsm.getSSTableCount()).toBeGreaterThan(1);
+    lsm.close();
+
+    const reopened = new LSMStorage(dir, options);
+    expect(reopened.getAllVersions('key_3').map(v => [v.xmin, v.xmax])).toEqual([[1, 2], [2, 3], [3, 4], [4, null]]);
+    expect(reopened.getAllKeys()).toHaveLength(10);
+    reopened.close();
+  });
+
+  test('compacts in the background after a flush', async () => {
+    const lsm = new LSMStorage(dir, { compaction: { intervalMs: 0 } });
+    for (let i = 0; i < 4; i++) flushRows(lsm, [row(`k${i}`, 1)]);
+
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(lsm.getSSTableCount()).toBe(1);
+    expect(lsm.getCompactionStats().compactions).toBe(1);
+    lsm.close();
+  });
+});
+
+describe('DatabaseService - LSM storage engine', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-lsmdb-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('requires a data directory', () => {
+    expect(() => new DatabaseService({ storageEngine: 'lsm' })).toThrow(/dataDir/);
+  });
+
+  test('keeps snapshot isolation across MemTable flushes', () => {
+    const db = new DatabaseService({ dataDir, storageEngine: 'lsm', lsm: { memTableSizeBytes: 64 } });
+    const t1 = db.begin();
+    db.insert(t1, 'user_1', { name: 'Alice', age: 25 });
+    db.insert(t1, 'user_2', { name: 'Bob', age: 30 });
+    db.commit(t1);
+
+    const reader = db.begin();
+    const t2 = db.begin();
+    db.update(t2, 'user_1', { age: 26 });
+    db.delete(t2, 'user_2');
+    db.commit(t2);
+
+    expect(db.select(reader).map(r => r.age)).toEqual([25, 30]);
+    expect(db.select(db.begin())).toEqual([{ key: 'user_1', name: 'Alice', age: 26 }]);
+  });
+
+  test('recovers from SSTables plus WAL after a checkpoint', () => {
+    const db = new DatabaseService({ dataDir, storageEngine: 'lsm' });
+    const t1 = db.begin();
+    db.insert(t1, 'user_1', { name: 'Alice' });
+    db.commit(t1);
+    db.checkpoint();
+
+    const t2 = db.begin();
+    db.update(t2, 'user_1', { name: 'Alicia' });
+    db.insert(t2, 'user_2', { name: 'Bob' });
+    db.commit(t2);
+
+    const db2 = new DatabaseService({ dataDir, storageEngine: 'lsm' });
+    expect(db2.select(db2.begin()).map(r => r.name)).toEqual(['Alicia', 'Bob']);
+  });
+});
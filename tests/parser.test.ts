@@ -0,0 +1,210 @@
+import { parse } from '../src/sql/Parser';
+import { tokenize, TokenType } from '../src/sql/Lexer';
+import { SelectStatement } from '../src/sql/ast';
+import { SqlSyntaxError } from '../src/db/errors';
+import { IsolationLevel } from '../src/transaction/Transaction';
+
+const syntaxError = (sql: string): SqlSyntaxError => {
+  try {
+    parse(sql);
+  } catch (error) {
+    return error as SqlSyntaxError;
+  }
+  throw new Error(`expected a syntax error for: ${sql}`);
+};
+
+describe('SQL lexer', () => {
+  test('tracks lines and columns, folds unquoted names and skips comments', () => {
+    const tokens = tokenize(`SELECT "Name", age -- trailing\n  FROM /* inline */ Users WHERE x <> 'it''s' AND y != $2`);
+
+    expect(tokens.map(t => [t.type, t.value])).toEqual([
+      [TokenType.KEYWORD, 'SELECT'],
+      [TokenType.IDENTIFIER, 'Name'],
+      [TokenType.PUNCTUATION, ','],
+      [TokenType.IDENTIFIER, 'age'],
+      [TokenType.KEYWORD, 'FROM'],
+      [TokenType.IDENTIFIER, 'users'],
+      [TokenType.KEYWORD, 'WHERE'],
+      [TokenType.IDENTIFIER, 'x'],
+      [TokenType.OPERATOR, '<>'],
+      [TokenType.STRING, "it's"],
+      [TokenType.KEYWORD, 'AND'],
+      [TokenType.IDENTIFIER, 'y'],
+      [TokenType.OPERATOR, '<>'],
+      [TokenType.PARAMETER, '2'],
+      [TokenType.EOF, ''],
+    ]);
+    expect(tokens[4]).toMatchObject({ line: 2, column: 3 });
+    expect(tokens[5]).toMatchObject({ line: 2, column: 21 });
+  });
+
+  test('reports unterminated literals where they start', () => {
+    expect(() => tokenize("SELECT 'abc")).toThrow(/Unterminated string literal at line 1, column 8/);
+    expect(() => tokenize('SELECT 1\n  /* open')).toThrow(/Unterminated comment at line 2, column 3/);
+    expect(() => tokenize('SELECT 1 # 2')).toThrow(/Unexpected character "#" at line 1, column 10/);
+  });
+});
+
+describe('SQL parser', () => {
+  test('transaction control', () => {
+    expect(parse('BEGIN')).toEqual({ type: 'begin' });
+    expect(parse('begin transaction isolation level serializable, read only;')).toEqual({
+      type: 'begin',
+      isolationLevel: IsolationLevel.SERIALIZABLE,
+      readOnly: true,
+    });
+    expect(parse('START TRANSACTION ISOLATION LEVEL REPEATABLE READ')).toMatchObject({ isolationLevel: IsolationLevel.SNAPSHOT });
+    expect(parse('BEGIN ISOLATION LEVEL READ COMMITTED')).toMatchObject({ isolationLevel: IsolationLevel.READ_COMMITTED });
+    expect(parse('COMMIT WORK')).toEqual({ type: 'commit' });
+    expect(parse('ROLLBACK')).toEqual({ type: 'rollback' });
+  });
+
+  test('CREATE TABLE with column and table constraints', () => {
+    expect(parse('CREATE TABLE IF NOT EXISTS users (id INT PRIMARY KEY, name VARCHAR(100) NOT NULL, score DOUBLE PRECISION, active BOOLEAN NULL)')).toEqual({
+      type: 'create_table',
+      table: 'users',
+      ifNotExists: true,
+      columns: [
+        { name: 'id', dataType: 'integer', primaryKey: true, notNull: true },
+        { name: 'name', dataType: 'text', primaryKey: false, notNull: true },
+        { name: 'score', dataType: 'real', primaryKey: false, notNull: false },
+        { name: 'active', dataType: 'boolean', primaryKey: false, notNull: false },
+      ],
+    });
+    expect(parse('CREATE TABLE t (code TEXT, PRIMARY KEY (code))')).toMatchObject({
+      columns: [{ name: 'code', primaryKey: true, notNull: true }],
+    });
+  });
+
+  test('INSERT, UPDATE and DELETE', () => {
+    expect(parse("INSERT INTO users (id, name) VALUES (1, 'Alice'), ($1, $2)")).toEqual({
+      type: 'insert',
+      table: 'users',
+      columns: ['id', 'name'],
+      values: [
+        [{ type: 'literal', value: 1 }, { type: 'literal', value: 'Alice' }],
+        [{ type: 'parameter', index: 1 }, { type: 'parameter', index: 2 }],
+      ],
+    });
+    expect(parse('UPDATE users SET age = age + 1, name = NULL WHERE id = 3')).toMatchObject({
+      type: 'update',
+      assignments: [
+        { column: 'age', value: { type: 'binary', operator: '+' } },
+        { column: 'name', value: { type: 'literal', value: null } },
+      ],
+      where: { type: 'binary', operator: '=' },
+    });
+    expect(parse('DELETE FROM users')).toEqual({ type: 'delete', table: 'users', where: null });
+  });
+
+  test('SELECT with aliases, ORDER BY and LIMIT', () => {
+    expect(parse('SELECT *, age * 2 AS double_age, users.name n FROM users ORDER BY n DESC, id LIMIT $1')).toEqual({
+      type: 'select',
+      columns: [
+        { type: 'star' },
+        {
+          type: 'expression',
+          expression: { type: 'binary', operator: '*', left: { type: 'column', table: null, name: 'age' }, right: { type: 'literal', value: 2 } },
+          alias: 'double_age',
+        },
+        { type: 'expression', expression: { type: 'column', table: 'users', name: 'name' }, alias: 'n' },
+      ],
+      from: { table: 'users', alias: null },
+      joins: [],
+      where: null,
+      groupBy: [],
+      having: null,
+      orderBy: [
+        { expression: { type: 'column', table: null, name: 'n' }, descending: true },
+        { expression: { type: 'column', table: null, name: 'id' }, descending: false },
+      ],
+      limit: { type: 'parameter', index: 1 },
+    });
+  });
+
+  test('SELECT with joins', () => {
+    const on = (left: string, right: string) => ({
+      type: 'binary',
+      operator: '=',
+      left: { type: 'column', table: left, name: 'id' },
+      right: { type: 'column', table: right, name: 'user_id' },
+    });
+    const statement = parse(`
+      SELECT * FROM users AS u
+        JOIN orders o ON u.id = o.user_id
+        INNER JOIN orders o2 ON u.id = o2.user_id
+        LEFT OUTER JOIN orders o3 ON u.id = o3.user_id
+        LEFT JOIN orders o4 ON u.id = o4.user_id
+        LEFT SEMI JOIN orders o5 ON u.id = o5.user_id
+        LEFT ANTI JOIN orders o6 ON u.id = o6.user_id`) as SelectStatement;
+
+    expect(statement.from).toEqual({ table: 'users', alias: 'u' });
+    expect(statement.joins.map(join => join.type)).toEqual(['inner', 'inner', 'left', 'left', 'semi', 'anti']);
+    expect(statement.joins[1]).toEqual({ type: 'inner', table: { table: 'orders', alias: 'o2' }, on: on('u', 'o2') });
+
+    expect(() => parse('SELECT * FROM users JOIN orders')).toThrow('Expected ON but found end of input');
+    expect(() => parse('SELECT * FROM users LEFT orders ON true')).toThrow(/Expected JOIN but found "orders"/);
+  });
+
+  test('SELECT with aggregates, GROUP BY and HAVING', () => {
+    const qty = { type: 'column', table: null, name: 'qty' };
+    expect(parse('SELECT region, count(*), sum(DISTINCT qty) total FROM sales GROUP BY region, qty > 1 HAVING max(qty) > 2')).toMatchObject({
+      columns: [
+        { expression: { type: 'column', name: 'region' } },
+        { expression: { type: 'aggregate', function: 'count', argument: null, distinct: false }, alias: null },
+        { expression: { type: 'aggregate', function: 'sum', argument: qty, distinct: true }, alias: 'total' },
+      ],
+      groupBy: [{ type: 'column', name: 'region' }, { type: 'binary', operator: '>', left: qty }],
+      having: { type: 'binary', left: { type: 'aggregate', function: 'max', argument: qty } },
+    });
+    expect(parse('SELECT count FROM t')).toMatchObject({ columns: [{ expression: { type: 'column', name: 'count' } }] });
+
+    expect(syntaxError('SELECT median(qty) FROM sales')).toMatchObject({ message: 'Function median does not exist at line 1, column 8' });
+    expect(() => parse('SELECT sum(*) FROM sales')).toThrow('Expected an expression but found "*"');
+    expect(() => parse('SELECT region FROM sales GROUP region')).toThrow('Expected BY but found "region"');
+  });
+
+  test('expression precedence', () => {
+    const { where } = parse('SELECT * FROM t WHERE NOT a = 1 OR b IS NOT NULL AND c NOT IN (1, -2) AND d - 1 * 2 < 3') as SelectStatement;
+
+    expect(where).toMatchObject({
+      operator: 'OR',
+      left: { type: 'unary', operator: 'NOT', operand: { operator: '=' } },
+      right: {
+        operator: 'AND',
+        left: {
+          operator: 'AND',
+          left: { type: 'is_null', negated: true },
+          right: { type: 'in', negated: true, list: [{ value: 1 }, { value: -2 }] },
+        },
+        right: {
+          operator: '<',
+          left: { operator: '-', right: { operator: '*' } },
+        },
+      },
+    });
+  });
+
+  test('non-reserved words still name columns', () => {
+    expect(parse('SELECT key, level FROM settings WHERE value = 1')).toMatchObject({
+      columns: [
+        { expression: { name: 'key' }, alias: null },
+        { expression: { name: 'level' }, alias: null },
+      ],
+    });
+  });
+
+  test('syntax errors point at the offending token', () => {
+    const missingFrom = syntaxError('SELECT name\n  WHERE id = 1');
+    expect(missingFrom).toBeInstanceOf(SqlSyntaxError);
+    expect(missingFrom.message).toBe('Expected FROM but found "WHERE" at line 2, column 3');
+    expect(missingFrom).toMatchObject({ line: 2, column: 3 });
+
+    expect(syntaxError('SELECT * FROM').message).toBe('Expected table name but found end of input at line 1, column 14');
+    expect(syntaxError('INSERT INTO t VALUES (1,)').message).toMatch(/Expected an expression but found "\)" at line 1, column 25/);
+    expect(syntaxError('SELECT * FROM t WHERE a = 1 = 2').message).toMatch(/Expected end of statement but found "=" at line 1, column 29/);
+    expect(syntaxError('CREATE TABLE t (id BLOB)').message).toMatch(/Expected a column type .* at line 1, column 20/);
+    expect(syntaxError('SELECT * FROM t; SELECT 1').message).toMatch(/end of statement .* column 18/);
+    expect(syntaxError('DROP TABLE t')).toMatchObject({ line: 1, column: 1 });
+  });
+});
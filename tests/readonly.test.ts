@@ -0,0 +1,133 @@
+import { DatabaseService } from '../src/db/DatabaseService';
+import { ReadOnlyTransactionError, SerializationFailureError, TransactionTerminatedError } from '../src/db/errors';
+import { IsolationLevel, TransactionState } from '../src/transaction/Transaction';
+
+const SERIALIZABLE = { isolationLevel: IsolationLevel.SERIALIZABLE };
+
+describe('Read-only transactions', () => {
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    db = new DatabaseService();
+    const setup = db.begin();
+    db.insert(setup, 'user_1', { name: 'Alice' });
+    db.commit(setup);
+  });
+
+  test('reject writes and row locks but keep reading', async () => {
+    const txn = db.begin({ readOnly: true });
+
+    expect(() => db.insert(txn, 'user_2', { name: 'Bob' })).toThrow(ReadOnlyTransactionError);
+    expect(() => db.update(txn, 'user_1', { name: 'Alicia' })).toThrow(/Cannot execute UPDATE in read-only/);
+    expect(() => db.delete(txn, 'user_1')).toThrow(ReadOnlyTransactionError);
+    await expect(db.selectForUpdate(txn, ['user_1'])).rejects.toThrow(/SELECT FOR UPDATE/);
+    await expect(db.selectForShare(txn, ['user_1'])).rejects.toThrow(ReadOnlyTransactionError);
+
+    expect(db.select(txn)).toEqual([{ key: 'user_1', name: 'Alice' }]);
+    expect(txn.state).toBe(TransactionState.ACTIVE);
+    db.commit(txn);
+  });
+
+  test('commit regardless of concurrent writers and track no reads below SERIALIZABLE', () => {
+    const reader = db.begin({ readOnly: true });
+    const writer = db.begin();
+    expect(db.select(reader, ['user_1'])).toHaveLength(1);
+    db.update(writer, 'user_1', { name: 'Alicia' });
+    db.commit(writer);
+
+    expect(reader.getReads().size).toBe(0);
+    db.commit(reader);
+    expect(reader.state).toBe(TransactionState.COMMITTED);
+  });
+});
+
+/**
+ * Fekete's read-only anomaly: the pivot reads x and writes y, a concurrent
+ * transaction changes x and commits first, then the pivot commits. A
+ * reader that sees x's new value but y's old one would observe an order no
+ * serial schedule produces.
+ */
+describe('Read-only transactions - serializable', () => {
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    db = new DatabaseService();
+    const setup = db.begin();
+    db.insert(setup, 'x', { value: 0 });
+    db.insert(setup, 'y', { value: 0 });
+    db.commit(setup);
+  });
+
+  function startPivot() {
+    const pivot = db.begin(SERIALIZABLE);
+    db.select(pivot, ['x']);
+    db.update(pivot, 'y', { value: 1 });
+
+    const other = db.begin(SERIALIZABLE);
+    db.update(other, 'x', { value: 1 });
+    db.commit(other);
+    return pivot;
+  }
+
+  test('a plain read-only transaction can still be aborted', () => {
+    const pivot = startPivot();
+    const reader = db.begin({ ...SERIALIZABLE, readOnly: true });
+    db.commit(pivot);
+
+    expect(db.select(reader, ['x', 'y']).map(row => row.value)).toEqual([1, 0]);
+    expect(() => db.commit(reader)).toThrow(SerializationFailureError);
+  });
+
+  test('a deferrable one waits out the pivot and retries with a safe snapshot', async () => {
+    const pivot = startPivot();
+    let resolved = false;
+    const deferred = db.beginDeferrable().then(txn => {
+      resolved = true;
+      return txn;
+    });
+
+    await Promise.resolve();
+    expect(resolved).toBe(false);
+    db.commit(pivot);
+
+    const reader = await deferred;
+    expect(reader.readOnly).toBe(true);
+    expect(reader.id).toBeGreaterThan(pivot.id);
+    expect(db.select(reader, ['x', 'y']).map(row => row.value)).toEqual([1, 1]);
+    db.commit(reader);
+  });
+
+  test('keeps its first snapshot when the writers it waited for were harmless', async () => {
+    const writer = db.begin(SERIALIZABLE);
+    db.update(writer, 'y', { value: 2 });
+
+    const deferred = db.beginDeferrable();
+    db.commit(writer);
+    const reader = await deferred;
+
+    expect(reader.id).toBe(writer.id + 1);
+    expect(db.select(reader, ['y'])).toEqual([{ key: 'y', value: 0 }]);
+    db.commit(reader);
+    expect(db.getSsiTrackedCount()).toBe(0);
+  });
+
+  test('starts at once with no read-write serializable transactions running', async () => {
+    const snapshotWriter = db.begin();
+    db.update(snapshotWriter, 'x', { value: 5 });
+
+    const reader = await db.beginDeferrable();
+    expect(db.select(reader, ['x'])).toEqual([{ key: 'x', value: 0 }]);
+    db.commit(reader);
+    db.commit(snapshotWriter);
+  });
+
+  test('the wait is subject to the statement timeout', async () => {
+    const timed = new DatabaseService({ statementTimeoutMs: 20, reaperIntervalMs: 10 });
+    const writer = timed.begin(SERIALIZABLE);
+    timed.insert(writer, 'z', { value: 1 });
+
+    await expect(timed.beginDeferrable()).rejects.toThrow(TransactionTerminatedError);
+    timed.commit(writer);
+    timed.close();
+  });
+});
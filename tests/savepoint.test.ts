@@ -0,0 +1,79 @@
+import { DatabaseService } from '../src/db/DatabaseService';
+
+describe('Savepoints', () => {
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    db = new DatabaseService();
+    const setup = db.begin();
+    db.insert(setup, 'user_1', { name: 'Alice', age: 30 });
+    db.commit(setup);
+  });
+
+  test('rollbackTo discards only the writes made after the savepoint', () => {
+    const txn = db.begin();
+    db.insert(txn, 'user_2', { name: 'Bob' });
+    db.savepoint(txn, 'before_changes');
+    db.update(txn, 'user_1', { age: 31 });
+    db.insert(txn, 'user_3', { name: 'Carol' });
+
+    db.rollbackTo(txn, 'before_changes');
+    expect(Array.from(txn.getWrites().keys())).toEqual(['user_2']);
+    db.commit(txn);
+
+    expect(db.select(db.begin())).toEqual([
+      { key: 'user_1', name: 'Alice', age: 30 },
+      { key: 'user_2', name: 'Bob' },
+    ]);
+  });
+
+  test('a savepoint survives rollbackTo and can be rolled back to again', () => {
+    const txn = db.begin();
+    db.savepoint(txn, 'sp');
+    db.update(txn, 'user_1', { age: 40 });
+    db.rollbackTo(txn, 'sp');
+    db.update(txn, 'user_1', { age: 41 });
+    db.rollbackTo(txn, 'sp');
+    db.delete(txn, 'user_1');
+    db.commit(txn);
+
+    expect(db.select(db.begin())).toEqual([]);
+  });
+
+  test('nested savepoints roll back and release in stack order', () => {
+    const txn = db.begin();
+    db.savepoint(txn, 'outer');
+    db.insert(txn, 'user_2', { name: 'Bob' });
+    db.savepoint(txn, 'inner');
+    db.insert(txn, 'user_3', { name: 'Carol' });
+    db.savepoint(txn, 'inner');  // hides the first 'inner'
+    db.insert(txn, 'user_4', { name: 'Dan' });
+
+    db.rollbackTo(txn, 'inner');
+    expect(Array.from(txn.getWrites().keys())).toEqual(['user_2', 'user_3']);
+    db.releaseSavepoint(txn, 'inner');
+    expect(txn.getSavepoints()).toEqual(['outer', 'inner']);
+
+    db.rollbackTo(txn, 'outer');
+    expect(txn.getSavepoints()).toEqual(['outer']);
+    expect(txn.getWrites().size).toBe(0);
+
+    db.releaseSavepoint(txn, 'outer');
+    expect(() => db.rollbackTo(txn, 'outer')).toThrow(/Savepoint 'outer' does not exist/);
+  });
+
+  test('rolled back writes no longer conflict at commit', () => {
+    const txn = db.begin();
+    db.savepoint(txn, 'sp');
+    db.update(txn, 'user_1', { age: 50 });
+
+    const other = db.begin();
+    db.update(other, 'user_1', { age: 35 });
+    db.commit(other);
+
+    db.rollbackTo(txn, 'sp');
+    db.insert(txn, 'user_2', { name: 'Bob' });
+    db.commit(txn);
+    expect(db.select(db.begin(), ['user_1'])).toEqual([{ key: 'user_1', name: 'Alice', age: 35 }]);
+  });
+});
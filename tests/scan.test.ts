@@ -0,0 +1,103 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseService, DatabaseOptions } from '../src/db/DatabaseService';
+import { SkipList } from '../src/storage/SkipList';
+import { compareKeys } from '../src/storage/keys';
+
+describe('SkipList - reverse iteration and delete', () => {
+  test('walks down from any key and skips deleted keys', () => {
+    const list = new SkipList<string, number>(compareKeys);
+    ['d', 'a', 'e', 'b', 'c'].forEach((k, i) => list.set(k, i));
+
+    expect(list.delete('c')).toBe(true);
+    expect(list.delete('zz')).toBe(false);
+
+    expect(Array.from(list.entries(undefined, true)).map(([k]) => k)).toEqual(['e', 'd', 'b', 'a']);
+    expect(Array.from(list.entries('c', true)).map(([k]) => k)).toEqual(['b', 'a']);
+    expect(list.size).toBe(4);
+  });
+});
+
+const engines: Array<[string, () => DatabaseOptions]> = [
+  ['memory', () => ({})],
+  ['lsm', () => ({
+    dataDir: fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-scan-')),
+    storageEngine: 'lsm',
+    lsm: { memTableSizeBytes: 256 },
+  })],
+];
+
+describe.each(engines)('DatabaseService.scan (%s storage)', (_name, makeOptions) => {
+  let options: DatabaseOptions;
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    options = makeOptions();
+    db = new DatabaseService(options);
+
+    // Insert out of order so key order has to come from storage
+    const setup = db.begin();
+    for (const id of [7, 2, 9, 4, 1, 8, 3, 6, 5, 0]) {
+      db.insert(setup, `user_${id}`, { id });
+    }
+    db.insert(setup, 'order_1', { id: 100 });
+    db.commit(setup);
+  });
+
+  afterEach(() => {
+    db.close();
+    if (options.dataDir) fs.rmSync(options.dataDir, { recursive: true, force: true });
+  });
+
+  test('returns visible rows in key order within [start, end)', () => {
+    const { rows, cursor } = db.scan(db.begin(), { start: 'user_2', end: 'user_5' });
+
+    expect(rows.map(r => r.id)).toEqual([2, 3, 4]);
+    expect(cursor).toBeNull();
+  });
+
+  test('filters by prefix in both directions', () => {
+    const txn = db.begin();
+
+    expect(db.scan(txn, { prefix: 'user_' }).rows).toHaveLength(10);
+    expect(db.scan(txn, { prefix: 'user_', reverse: true, limit: 3 }).rows.map(r => r.id)).toEqual([9, 8, 7]);
+    expect(db.scan(txn, { prefix: 'order' }).rows.map(r => r.key)).toEqual(['order_1']);
+  });
+
+  test('pages through a range under one snapshot', () => {
+    const reader = db.begin();
+
+    // A concurrent writer changes the table between pages
+    const writer = db.begin();
+    db.delete(writer, 'user_6');
+    db.insert(writer, 'user_55', { id: 55 });
+    db.commit(writer);
+
+    const seen: number[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = db.scan(reader, { prefix: 'user_', limit: 3, cursor });
+      expect(page.rows.length).toBeLessThanOrEqual(3);
+      seen.push(...page.rows.map(r => r.id));
+      cursor = page.cursor ?? undefined;
+    } while (cursor);
+
+    expect(seen).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  test('pages backwards and returns no cursor on an exact final page', () => {
+    const txn = db.begin();
+
+    const first = db.scan(txn, { start: 'user_4', end: 'user_8', reverse: true, limit: 2 });
+    expect(first.rows.map(r => r.id)).toEqual([7, 6]);
+
+    const second = db.scan(txn, { start: 'user_4', end: 'user_8', reverse: true, limit: 2, cursor: first.cursor! });
+    expect(second.rows.map(r => r.id)).toEqual([5, 4]);
+    expect(second.cursor).toBeNull();
+  });
+
+  test('rejects a non-positive limit', () => {
+    expect(() => db.scan(db.begin(), { limit: 0 })).toThrow(/limit/);
+  });
+});
@@ -0,0 +1,84 @@
+import { DatabaseService } from '../src/db/DatabaseService';
+import { IsolationLevel } from '../src/transaction/Transaction';
+
+describe('Exported snapshots', () => {
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    db = new DatabaseService();
+    const setup = db.begin();
+    db.insert(setup, 'account_1', { balance: 100 });
+    db.insert(setup, 'account_2', { balance: 50 });
+    db.commit(setup);
+  });
+
+  const balances = (txn: ReturnType<DatabaseService['begin']>) => db.select(txn).map(row => row.balance);
+
+  function transfer(amount: number) {
+    const txn = db.begin();
+    db.update(txn, 'account_1', { balance: 100 - amount });
+    db.update(txn, 'account_2', { balance: 50 + amount });
+    db.commit(txn);
+  }
+
+  test('importers see exactly what the exporter saw', () => {
+    const inFlight = db.begin();
+    db.insert(inFlight, 'account_3', { balance: 1 });
+
+    const exporter = db.begin();
+    db.update(exporter, 'account_1', { balance: 0 });
+    const token = db.exportSnapshot(exporter);
+
+    db.commit(inFlight);
+    transfer(10);
+
+    const workers = [db.begin({ snapshot: token }), db.begin({ snapshot: token })];
+    for (const worker of workers) {
+      expect(balances(worker)).toEqual([100, 50]);
+      expect(worker.snapshot.myTxnId).toBe(worker.id);
+    }
+    expect(balances(db.begin())).toEqual([90, 60, 1]);
+  });
+
+  test('keeps the versions it sees until every importer has finished', () => {
+    const exporter = db.begin();
+    const token = db.exportSnapshot(exporter);
+    const worker = db.begin({ snapshot: token });
+    db.commit(exporter);
+
+    transfer(30);
+    db.garbageCollect();
+    expect(balances(worker)).toEqual([100, 50]);
+
+    const late = db.begin({ snapshot: token });
+    db.commit(worker);
+    expect(balances(late)).toEqual([100, 50]);
+    db.commit(late);
+
+    expect(db.getExportedSnapshotCount()).toBe(0);
+    expect(() => db.begin({ snapshot: token })).toThrow(/Invalid snapshot identifier/);
+  });
+
+  test('a READ COMMITTED exporter moving on does not release its export', () => {
+    const closer = db.begin();
+    db.delete(closer, 'account_2');
+
+    const exporter = db.begin({ isolationLevel: IsolationLevel.READ_COMMITTED });
+    const token = db.exportSnapshot(exporter);
+    db.commit(closer);
+
+    // The exporter's next statement no longer needs the deleted row
+    expect(balances(exporter)).toEqual([100]);
+    db.garbageCollect();
+
+    expect(balances(db.begin({ snapshot: token }))).toEqual([100, 50]);
+  });
+
+  test('rejects unknown tokens and imports outside SNAPSHOT isolation', () => {
+    const token = db.exportSnapshot(db.begin());
+
+    expect(() => db.begin({ snapshot: 'nonsense' })).toThrow(/Invalid snapshot identifier/);
+    expect(() => db.begin({ snapshot: token, isolationLevel: IsolationLevel.SERIALIZABLE })).toThrow(/SNAPSHOT isolation/);
+    expect(() => db.begin({ snapshot: token, isolationLevel: IsolationLevel.READ_COMMITTED })).toThrow(/SNAPSHOT isolation/);
+  });
+});
@@ -0,0 +1,139 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseService } from '../src/db/DatabaseService';
+import { collect } from '../src/execution/Operator';
+import { SeqScan } from '../src/execution/SeqScan';
+import { Sort, SortKey } from '../src/execution/Sort';
+import { BinaryHeap } from '../src/execution/BinaryHeap';
+import { dbMetrics } from '../src/monitoring/metrics';
+import { executorLogger } from '../src/utils/logger';
+
+const column = (name: string) => ({ type: 'column' as const, table: null, name });
+
+describe('External sort', () => {
+  let tempDir: string;
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-sort-'));
+    db = new DatabaseService();
+    db.query(null, 'CREATE TABLE events (id INTEGER PRIMARY KEY, kind TEXT, score INTEGER)');
+    for (let id = 1; id <= 300; id++) {
+      // Few distinct kinds and scores, so the keys tie and stability shows
+      db.query(null, 'INSERT INTO events VALUES ($1, $2, $3)', [id, `kind ${id % 4}`, id % 7 === 0 ? null : id % 5]);
+    }
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const engineWith = (workMem: number) => db.executionEngine({ workMem, tempDir });
+
+  const sortEvents = (workMem: number, keys: SortKey[], limit: number | null = null) => {
+    const engine = engineWith(workMem);
+    const txn = db.begin();
+    const sort = new Sort(new SeqScan(engine, txn, db.getTable('events')), keys, engine, [], limit);
+    const rows = collect(sort);
+    db.commit(txn);
+    return { rows, spilledBytes: sort.spilledBytes };
+  };
+
+  const keys: SortKey[] = [
+    { expression: column('score'), descending: true },
+    { expression: column('kind'), descending: false },
+  ];
+
+  test('rows past work_mem are sorted in runs on disk and merged, stably', () => {
+    const inMemory = sortEvents(1024 * 1024, keys);
+    const external = sortEvents(2048, keys);
+
+    expect(inMemory.spilledBytes).toBe(0);
+    expect(external.spilledBytes).toBeGreaterThan(0);
+    expect(external.rows).toEqual(inMemory.rows);
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+
+    // NULLs first with DESC; equal keys in scan (key byte) order
+    expect(inMemory.rows[0]).toEqual({ id: 112, kind: 'kind 0', score: null });
+    expect(inMemory.rows.slice(-2).map(row => row.id)).toEqual([75, 95]);
+  });
+
+  test('more runs than one merge can take are merged in passes', () => {
+    const logs = jest.spyOn(executorLogger, 'info');
+    const inMemory = sortEvents(1024 * 1024, keys);
+    const external = sortEvents(1, keys);  // one row per run
+
+    expect(external.rows).toEqual(inMemory.rows);
+    expect(logs).toHaveBeenCalledWith(expect.objectContaining({ runs: 300, mergePasses: 4, action: 'sort_spill' }), expect.any(String));
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+    logs.mockRestore();
+  });
+
+  test('with a limit only the top rows are held, unless even they outgrow work_mem', () => {
+    const all = sortEvents(1024 * 1024, keys).rows;
+
+    const top = sortEvents(2048, keys, 10);
+    expect(top.rows).toEqual(all.slice(0, 10));
+    expect(top.spilledBytes).toBe(0);
+
+    const large = sortEvents(2048, keys, 200);
+    expect(large.rows).toEqual(all);  // the Limit above returns the first 200
+    expect(large.spilledBytes).toBeGreaterThan(0);
+
+    expect(sortEvents(2048, keys, 0).rows).toEqual([]);
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+  });
+
+  test('ORDER BY spills through SQL and is counted in the spill metrics', async () => {
+    const spilled = async () => (await dbMetrics.querySpillBytes.get()).values.find(value => value.labels.operator === 'sort')?.value ?? 0;
+    const small = new DatabaseService({ workMem: 1024 });
+    small.query(null, 'CREATE TABLE events (id INTEGER PRIMARY KEY, score INTEGER)');
+    for (let id = 1; id <= 100; id++) {
+      small.query(null, 'INSERT INTO events VALUES ($1, $2)', [id, (id * 37) % 101]);
+    }
+
+    const before = await spilled();
+    const rows = small.query(null, 'SELECT id, score FROM events ORDER BY score DESC, id').rows;
+    expect(rows.map(row => row.score)).toEqual(rows.map(row => row.score).sort((a, b) => b - a));
+    expect(await spilled()).toBeGreaterThan(before);
+
+    const afterSort = await spilled();
+    expect(small.query(null, 'SELECT id FROM events ORDER BY score LIMIT 3').rows).toEqual([{ id: 71 }, { id: 41 }, { id: 11 }]);
+    expect(await spilled()).toBe(afterSort);  // top-N: three rows fit
+  });
+
+  test('closing a sort before the end, or failing while sorting, removes its runs', () => {
+    const engine = engineWith(512);
+    const txn = db.begin();
+    const table = db.getTable('events');
+
+    const sort = new Sort(new SeqScan(engine, txn, table), keys, engine, []);
+    sort.open();
+    expect(sort.next()).not.toBeNull();
+    expect(fs.readdirSync(tempDir).length).toBeGreaterThan(0);
+    sort.close();
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+
+    // kind + 1 fails on the first row whose kind is text, after runs were written
+    db.query(txn, "UPDATE events SET kind = NULL WHERE id < 250");
+    const failing = new Sort(new SeqScan(engine, txn, table), [{
+      expression: { type: 'binary', operator: '+', left: column('kind'), right: { type: 'literal', value: 1 } },
+      descending: false,
+    }], engine, []);
+    expect(() => collect(failing)).toThrow(/needs numbers/);
+    expect(fs.readdirSync(tempDir)).toEqual([]);
+    db.abort(txn);
+  });
+
+  test('BinaryHeap pops in comparator order', () => {
+    const heap = new BinaryHeap<number>((a, b) => a - b);
+    [5, 3, 9, 1, 7, 3].forEach(value => heap.push(value));
+    heap.replaceTop(8);  // drops 1
+
+    const popped: number[] = [];
+    while (heap.size > 0) popped.push(heap.pop()!);
+    expect(popped).toEqual([3, 3, 5, 7, 8, 9]);
+    expect(heap.pop()).toBeUndefined();
+  });
+});
@@ -0,0 +1,165 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseService } from '../src/db/DatabaseService';
+import { ReadOnlyTransactionError, SqlSyntaxError, UniqueViolationError } from '../src/db/errors';
+import { IsolationLevel, TransactionState } from '../src/transaction/Transaction';
+
+describe('SQL queries', () => {
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    db = new DatabaseService();
+    db.query(null, 'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, age INTEGER, active BOOLEAN)');
+    db.query(null, `
+      INSERT INTO users (id, name, age, active) VALUES
+        (1, 'Alice', 30, TRUE),
+        (2, 'Bob', 25, FALSE),
+        (3, 'Carol', NULL, TRUE),
+        (4, 'Dan', 41, TRUE)
+    `);
+  });
+
+  test('SELECT filters, orders, limits and projects', () => {
+    const result = db.query(null, 'SELECT name, age + 1 AS next_age FROM users WHERE active AND age > $1 ORDER BY age DESC LIMIT 5', [20]);
+
+    expect(result.command).toBe('SELECT');
+    expect(result.rows).toEqual([
+      { name: 'Dan', next_age: 42 },
+      { name: 'Alice', next_age: 31 },
+    ]);
+    expect(result.rowCount).toBe(2);
+  });
+
+  test('ORDER BY puts NULLs last, accepts aliases, and LIMIT cuts the sorted result', () => {
+    expect(db.query(null, 'SELECT name FROM users ORDER BY age').rows.map(r => r.name)).toEqual(['Bob', 'Alice', 'Dan', 'Carol']);
+    expect(db.query(null, 'SELECT name, age AS years FROM users ORDER BY years DESC LIMIT 2').rows).toEqual([
+      { name: 'Carol', years: null },
+      { name: 'Dan', years: 41 },
+    ]);
+    expect(db.query(null, 'SELECT * FROM users WHERE age IS NULL').rows).toEqual([
+      { id: 3, name: 'Carol', age: null, active: true },
+    ]);
+    expect(db.query(null, 'SELECT id FROM users WHERE id NOT IN (1, 2) ORDER BY id').rows).toEqual([{ id: 3 }, { id: 4 }]);
+  });
+
+  test('repeated output names get the first free suffix', () => {
+    expect(db.query(null, 'SELECT id, id, age AS id_1, id FROM users WHERE id = 2').rows).toEqual([
+      { id: 2, id_1: 2, id_1_1: 25, id_2: 2 },
+    ]);
+  });
+
+  test('UPDATE evaluates against the old row and DELETE removes matches', () => {
+    const updated = db.query(null, 'UPDATE users SET age = age + 1, active = NOT active WHERE age < 35');
+    expect(updated).toMatchObject({ command: 'UPDATE', rowCount: 2 });
+    expect(db.query(null, 'SELECT id, age, active FROM users WHERE id <= 2 ORDER BY id').rows).toEqual([
+      { id: 1, age: 31, active: false },
+      { id: 2, age: 26, active: true },
+    ]);
+
+    expect(db.query(null, 'DELETE FROM users WHERE active = FALSE')).toMatchObject({ command: 'DELETE', rowCount: 1 });
+    expect(db.query(null, 'SELECT id FROM users ORDER BY id').rows).toEqual([{ id: 2 }, { id: 3 }, { id: 4 }]);
+  });
+
+  test('updating primary keys moves rows without colliding', () => {
+    db.query(null, 'UPDATE users SET id = id + 1');
+
+    expect(db.query(null, 'SELECT id, name FROM users ORDER BY id').rows).toEqual([
+      { id: 2, name: 'Alice' },
+      { id: 3, name: 'Bob' },
+      { id: 4, name: 'Carol' },
+      { id: 5, name: 'Dan' },
+    ]);
+  });
+
+  test('explicit transactions isolate their work until COMMIT', () => {
+    const { transaction: txn } = db.query(null, 'BEGIN ISOLATION LEVEL SERIALIZABLE');
+    expect(txn!.isolationLevel).toBe(IsolationLevel.SERIALIZABLE);
+
+    db.query(txn!, "INSERT INTO users VALUES (5, 'Eve', 22, TRUE)");
+    expect(db.query(txn!, 'SELECT name FROM users WHERE id = 5').rows).toEqual([{ name: 'Eve' }]);
+    expect(db.query(null, 'SELECT name FROM users WHERE id = 5').rows).toEqual([]);
+
+    db.query(txn!, 'COMMIT');
+    expect(txn!.state).toBe(TransactionState.COMMITTED);
+    expect(db.query(null, 'SELECT name FROM users WHERE id = 5').rows).toEqual([{ name: 'Eve' }]);
+
+    const { transaction: rolledBack } = db.query(null, 'BEGIN');
+    db.query(rolledBack!, 'DELETE FROM users');
+    db.query(rolledBack!, 'ROLLBACK');
+    expect(db.query(null, 'SELECT id FROM users').rowCount).toBe(5);
+  });
+
+  test('read-only transactions and transaction control errors', () => {
+    const { transaction: txn } = db.query(null, 'BEGIN READ ONLY');
+    expect(() => db.query(txn!, 'DELETE FROM users')).toThrow(ReadOnlyTransactionError);
+    expect(() => db.query(txn!, 'BEGIN')).toThrow(/already in progress/);
+    expect(() => db.query(null, 'COMMIT')).toThrow(/none is in progress/);
+  });
+
+  test('an autocommit statement that fails leaves nothing behind', () => {
+    expect(() => db.query(null, "INSERT INTO users VALUES (9, 'Zed', 1, TRUE), (1, 'Again', 2, FALSE)")).toThrow(UniqueViolationError);
+    expect(db.query(null, 'SELECT id FROM users WHERE id = 9').rows).toEqual([]);
+    expect(db.getLocks()).toEqual([]);
+  });
+
+  test('a statement that fails inside a transaction undoes only its own writes', () => {
+    const { transaction: txn } = db.query(null, 'BEGIN');
+    db.query(txn!, "INSERT INTO users VALUES (5, 'Eve', 22, TRUE)");
+
+    // Alice (30) is updated before Bob (25) divides by zero
+    expect(() => db.query(txn!, 'UPDATE users SET age = 100 / (age - 25)')).toThrow('Division by zero');
+    expect(txn!.state).toBe(TransactionState.ACTIVE);
+    expect(txn!.getSavepoints()).toEqual([]);
+    expect(db.query(txn!, 'SELECT id, age FROM users WHERE id IN (1, 5) ORDER BY id').rows).toEqual([
+      { id: 1, age: 30 },
+      { id: 5, age: 22 },
+    ]);
+
+    db.query(txn!, 'COMMIT');
+    expect(db.query(null, 'SELECT id, age FROM users ORDER BY id').rows.map(r => r.age)).toEqual([30, 25, null, 41, 22]);
+  });
+
+  test('checks names, types and constraints', () => {
+    expect(() => db.query(null, 'SELECT nope FROM users')).toThrow(/Column 'nope' of table 'users' does not exist/);
+    expect(() => db.query(null, 'SELECT * FROM missing')).toThrow(/Table 'missing' does not exist/);
+    expect(() => db.query(null, 'SELECT * FROM users WHERE orders.id = 1')).toThrow(/Missing FROM-clause entry/);
+    expect(() => db.query(null, "INSERT INTO users VALUES (6, 'Frank', 'old', TRUE)")).toThrow(/type integer but got text/);
+    expect(() => db.query(null, 'INSERT INTO users (id, age) VALUES (6, 50)')).toThrow(/not-null constraint/);
+    expect(() => db.query(null, 'INSERT INTO users (id, name) VALUES (6)')).toThrow(/1 expressions for 2 target columns/);
+    expect(() => db.query(null, "SELECT * FROM users WHERE name > 3")).toThrow(/Cannot compare text with number/);
+    expect(() => db.query(null, 'SELECT * FROM users WHERE id = $2', [1])).toThrow(/no parameter \$2/);
+    expect(() => db.query(null, 'SELECT * FROM users LIMIT -1')).toThrow(/non-negative integer/);
+    expect(() => db.query(null, 'CREATE TABLE users (id INTEGER PRIMARY KEY)')).toThrow(/already exists/);
+    expect(() => db.query(null, 'CREATE TABLE pairs (a INTEGER, b INTEGER)')).toThrow(/exactly one PRIMARY KEY/);
+    expect(db.query(null, 'CREATE TABLE IF NOT EXISTS users (id INTEGER PRIMARY KEY)').command).toBe('CREATE TABLE');
+  });
+
+  test('syntax errors carry their position', () => {
+    expect(() => db.query(null, 'SELECT * FROM users\nWHERE id = = 1')).toThrow(SqlSyntaxError);
+    expect(() => db.query(null, 'SELECT * FROM users\nWHERE id = = 1')).toThrow(/at line 2, column 12/);
+  });
+});
+
+describe('SQL queries - persistence', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-sql-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('tables and their rows survive a restart', () => {
+    const db = new DatabaseService({ dataDir });
+    db.query(null, 'CREATE TABLE notes (id INTEGER PRIMARY KEY, body TEXT)');
+    db.query(null, "INSERT INTO notes VALUES (1, 'remember the milk')");
+    db.close();
+
+    const reopened = new DatabaseService({ dataDir });
+    expect(reopened.query(null, 'SELECT body FROM notes').rows).toEqual([{ body: 'remember the milk' }]);
+    reopened.close();
+  });
+});
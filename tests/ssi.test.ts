@@ -0,0 +1,79 @@
+import { DatabaseService } from '../src/db/DatabaseService';
+import { SerializationFailureError } from '../src/db/errors';
+import { IsolationLevel } from '../src/transaction/Transaction';
+
+const SERIALIZABLE = { isolationLevel: IsolationLevel.SERIALIZABLE };
+
+/** Both doctors read the on-call roster, then each takes themselves off it */
+function goOffCall(db: DatabaseService, options = {}) {
+  const alice = db.begin(options);
+  const bob = db.begin(options);
+
+  for (const txn of [alice, bob]) {
+    const onCall = db.select(txn).filter(row => row.onCall);
+    expect(onCall).toHaveLength(2);
+  }
+  db.update(alice, 'alice', { onCall: false });
+  db.update(bob, 'bob', { onCall: false });
+  return { alice, bob };
+}
+
+describe('Serializable Snapshot Isolation', () => {
+  let db: DatabaseService;
+
+  beforeEach(() => {
+    db = new DatabaseService();
+    const setup = db.begin();
+    db.insert(setup, 'alice', { onCall: true });
+    db.insert(setup, 'bob', { onCall: true });
+    db.commit(setup);
+  });
+
+  test('snapshot isolation allows write skew', () => {
+    const { alice, bob } = goOffCall(db);
+    db.commit(alice);
+    db.commit(bob);
+
+    expect(db.select(db.begin()).filter(row => row.onCall)).toHaveLength(0);
+  });
+
+  test('serializable aborts one side of a write skew', () => {
+    const { alice, bob } = goOffCall(db, SERIALIZABLE);
+    db.commit(alice);
+    expect(() => db.commit(bob)).toThrow(SerializationFailureError);
+
+    expect(db.select(db.begin()).filter(row => row.onCall).map(row => row.key)).toEqual(['bob']);
+  });
+
+  test('a retried transaction sees the committed change and succeeds', () => {
+    const { alice, bob } = goOffCall(db, SERIALIZABLE);
+    db.commit(alice);
+    expect(() => db.commit(bob)).toThrow(SerializationFailureError);
+
+    const retry = db.begin(SERIALIZABLE);
+    expect(db.select(retry).filter(row => row.onCall)).toHaveLength(1);
+    db.commit(retry);
+  });
+
+  test('does not abort transactions with one-way dependencies', () => {
+    const reader = db.begin(SERIALIZABLE);
+    const writer = db.begin(SERIALIZABLE);
+    expect(db.select(reader, ['alice'])).toEqual([{ key: 'alice', onCall: true }]);
+    db.update(writer, 'alice', { onCall: false });
+
+    db.commit(writer);
+    db.commit(reader);
+
+    const other = db.begin(SERIALIZABLE);
+    db.update(other, 'bob', { onCall: false });
+    db.commit(other);
+  });
+
+  test('forgets committed transactions once nothing overlaps them', () => {
+    const { alice, bob } = goOffCall(db, SERIALIZABLE);
+    db.commit(alice);
+    expect(() => db.commit(bob)).toThrow(SerializationFailureError);
+
+    expect(db.getSsiTrackedCount()).toBe(0);
+  });
+});
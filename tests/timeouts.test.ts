@@ -0,0 +1,73 @@
+import { DatabaseService } from '../src/db/DatabaseService';
+import { TransactionTerminatedError } from '../src/db/errors';
+import { TerminationReason } from '../src/transaction/Transaction';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('Transaction timeouts', () => {
+  let db: DatabaseService;
+
+  afterEach(() => {
+    db.close();
+  });
+
+  const seed = () => {
+    const txn = db.begin();
+    db.insert(txn, 'user_1', { name: 'Alice' });
+    db.commit(txn);
+  };
+
+  test('terminates an idle transaction and reports why on its next call', async () => {
+    db = new DatabaseService({ idleInTransactionTimeoutMs: 20, reaperIntervalMs: 0 });
+    seed();
+    const idle = db.begin();
+    db.update(idle, 'user_1', { name: 'Alicia' });
+    const busy = db.begin({ idleTimeoutMs: 0 });
+
+    await sleep(40);
+    expect(db.reapExpiredTransactions()).toBe(1);
+
+    let error: TransactionTerminatedError | undefined;
+    try {
+      db.select(idle);
+    } catch (e) {
+      error = e as TransactionTerminatedError;
+    }
+    expect(error).toBeInstanceOf(TransactionTerminatedError);
+    expect(error!.code).toBe(TerminationReason.IDLE_TIMEOUT);
+    expect(() => db.commit(idle)).toThrow(/idle_in_transaction_timeout/);
+    db.abort(idle);  // already aborted: a no-op
+
+    // Its pending write was discarded and no longer holds back others
+    db.update(busy, 'user_1', { name: 'Alison' });
+    db.commit(busy);
+    expect(db.select(db.begin())).toEqual([{ key: 'user_1', name: 'Alison' }]);
+  });
+
+  test('activity keeps a transaction alive', async () => {
+    db = new DatabaseService({ idleInTransactionTimeoutMs: 30, reaperIntervalMs: 0 });
+    seed();
+    const txn = db.begin();
+    for (let i = 0; i < 3; i++) {
+      await sleep(15);
+      db.select(txn);
+      expect(db.reapExpiredTransactions()).toBe(0);
+    }
+    db.commit(txn);
+  });
+
+  test('the background reaper ends a statement stuck waiting on a lock', async () => {
+    db = new DatabaseService({ reaperIntervalMs: 5 });
+    seed();
+    const holder = db.begin();
+    await db.selectForUpdate(holder, ['user_1']);
+
+    const waiter = db.begin({ statementTimeoutMs: 20 });
+    await expect(db.selectForUpdate(waiter, ['user_1']))
+      .rejects.toMatchObject({ name: 'TransactionTerminatedError', code: TerminationReason.STATEMENT_TIMEOUT });
+    await expect(db.commitAsync(waiter)).rejects.toBeInstanceOf(TransactionTerminatedError);
+
+    // The holder has no timeout and is untouched
+    db.commit(holder);
+  });
+});
@@ -1,5 +1,12 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { TransactionManager } from '../src/transaction/TransactionManager';
-import { CommitTable } from '../src/transaction/CommitTable';
+import { CommitTable, TxnStatus } from '../src/transaction/CommitTable';
+import { TransactionState } from '../src/transaction/Transaction';
+import { DatabaseService } from '../src/db/DatabaseService';
+import { InvalidTransactionStateError } from '../src/db/errors';
+import { dbMetrics } from '../src/monitoring/metrics';
 
 describe('TransactionManager', () => {
   let txnManager: TransactionManager;
@@ -63,6 +70,87 @@ describe('TransactionManager', () => {
     // globalOldestXmin should advance past aborted txn
     expect(txnManager.getGlobalOldestXmin()).toBe(t2.snapshot.xmin);
   });
+
+  test('moves transactions through their lifecycle and rejects invalid transitions', () => {
+    const t1 = txnManager.begin();
+    expect(t1.state).toBe(TransactionState.ACTIVE);
+    txnManager.startCommit(t1);
+    expect(t1.state).toBe(TransactionState.COMMITTING);
+    expect(() => txnManager.startCommit(t1)).toThrow(InvalidTransactionStateError);
+    txnManager.commit(t1);
+    expect(t1.state).toBe(TransactionState.COMMITTED);
+    expect(() => txnManager.abort(t1)).toThrow(/Cannot abort transaction 1: it is COMMITTED/);
+
+    const t2 = txnManager.begin();
+    txnManager.abort(t2);
+    expect(() => txnManager.commit(t2)).toThrow(InvalidTransactionStateError);
+    expect(t2.state).toBe(TransactionState.ABORTED);
+  });
+});
+
+describe('DatabaseService - transaction lifecycle', () => {
+  let db: DatabaseService;
+
+  const gauge = async () => (await dbMetrics.activeTransactions.get()).values[0].value;
+  const aborted = async () => (await dbMetrics.transactionsAborted.get()).values[0].value;
+
+  beforeEach(() => {
+    db = new DatabaseService();
+    const setup = db.begin();
+    db.insert(setup, 'user_1', { name: 'Alice' });
+    db.commit(setup);
+  });
+
+  test('rejects statements and commits on a finished transaction', () => {
+    const txn = db.begin();
+    db.commit(txn);
+
+    expect(() => db.insert(txn, 'user_2', {})).toThrow(/Cannot insert into transaction \d+: it is COMMITTED/);
+    expect(() => db.select(txn)).toThrow(InvalidTransactionStateError);
+    expect(() => db.commit(txn)).toThrow(InvalidTransactionStateError);
+    expect(() => db.abort(txn)).toThrow(InvalidTransactionStateError);
+
+    const rolledBack = db.begin();
+    db.abort(rolledBack);
+    expect(() => db.update(rolledBack, 'user_1', {})).toThrow(/it is ABORTED/);
+    db.abort(rolledBack);  // no-op
+  });
+
+  test('counts a transaction aborted by a conflict once', async () => {
+    const activeBefore = await gauge();
+    const abortedBefore = await aborted();
+
+    const t1 = db.begin();
+    const t2 = db.begin();
+    db.update(t1, 'user_1', { name: 'A' });
+    db.update(t2, 'user_1', { name: 'B' });
+    db.commit(t1);
+    expect(() => db.commit(t2)).toThrow(/Write-write conflict/);
+    expect(t2.state).toBe(TransactionState.ABORTED);
+    db.abort(t2);
+
+    expect(await gauge()).toBe(activeBefore);
+    expect(await aborted()).toBe(abortedBefore + 1);
+  });
+
+  test('a transaction awaiting group commit takes no more statements', async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-lifecycle-'));
+    const durable = new DatabaseService({ dataDir, groupCommitWindowMs: 10 });
+    try {
+      const txn = durable.begin();
+      durable.insert(txn, 'user_1', { name: 'Alice' });
+      const committed = durable.commitAsync(txn);
+
+      expect(txn.state).toBe(TransactionState.COMMITTING);
+      expect(() => durable.insert(txn, 'user_2', {})).toThrow(/it is COMMITTING/);
+      expect(() => durable.abort(txn)).toThrow(InvalidTransactionStateError);
+      await committed;
+      expect(txn.state).toBe(TransactionState.COMMITTED);
+    } finally {
+      durable.close();
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
 });
 
 describe('CommitTable', () => {
@@ -95,4 +183,61 @@ describe('CommitTable', () => {
     expect(commitTable.isCommitted(txnId)).toBe(false);
     expect(commitTable.isAborted(txnId)).toBe(false);
   });
-});
\ No newline at end of file
+});
+describe('CommitTable - Paged Status Store', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-xact-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('stores all four statuses in 2 bits per transaction', () => {
+    const table = new CommitTable({ xidsPerPage: 16 });
+    table.markCommitted(1);
+    table.markAborted(2);
+    table.markSubCommitted(3);
+
+    expect(table.getStatus(1)).toBe(TxnStatus.COMMITTED);
+    expect(table.getStatus(2)).toBe(TxnStatus.ABORTED);
+    expect(table.getStatus(3)).toBe(TxnStatus.SUB_COMMITTED);
+    expect(table.getStatus(4)).toBe(TxnStatus.IN_PROGRESS);
+
+    // Neighbouring slots in the same byte are unaffected by overwrites
+    table.markAborted(1);
+    expect(table.getStatus(1)).toBe(TxnStatus.ABORTED);
+    expect(table.getStatus(2)).toBe(TxnStatus.ABORTED);
+    expect(table.getStatus(3)).toBe(TxnStatus.SUB_COMMITTED);
+  });
+
+  test('persists flushed pages across reopen', () => {
+    const table = new CommitTable({ dir, xidsPerPage: 16 });
+    table.markCommitted(5);
+    table.markAborted(20);
+    table.flush();
+
+    const reopened = new CommitTable({ dir, xidsPerPage: 16 });
+    expect(reopened.getStatus(5)).toBe(TxnStatus.COMMITTED);
+    expect(reopened.getStatus(20)).toBe(TxnStatus.ABORTED);
+    expect(reopened.getPageCount()).toBe(2);
+  });
+
+  test('truncates pages below the oldest xmin and treats them as frozen', () => {
+    const table = new CommitTable({ dir, xidsPerPage: 16 });
+    table.markCommitted(3);
+    table.markCommitted(40);
+    table.flush();
+
+    expect(table.truncate(35)).toBe(1);
+    expect(table.getPageCount()).toBe(1);
+    expect(table.getStatus(3)).toBe(TxnStatus.COMMITTED);
+
+    const reopened = new CommitTable({ dir, xidsPerPage: 16 });
+    expect(reopened.getStatus(3)).toBe(TxnStatus.COMMITTED);
+    expect(reopened.getStatus(40)).toBe(TxnStatus.COMMITTED);
+    expect(reopened.getStatus(41)).toBe(TxnStatus.IN_PROGRESS);
+  });
+});
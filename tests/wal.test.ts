@@ -0,0 +1,304 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DatabaseService } from '../src/db/DatabaseService';
+import { WriteAheadLog } from '../src/wal/WriteAheadLog';
+import { WALRecordType } from '../src/wal/WALRecord';
+import { TransactionState } from '../src/transaction/Transaction';
+import { dbMetrics } from '../src/monitoring/metrics';
+
+describe('WriteAheadLog', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-wal-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('assigns monotonic LSNs and reads records back after flush', () => {
+    const wal = new WriteAheadLog(dir);
+    const first = wal.append({ type: WALRecordType.BEGIN, txnId: 1 });
+    const second = wal.append({ type: WALRecordType.INSERT, txnId: 1, key: 'k', data: { v: 1 } });
+    wal.flush();
+
+    expect(second).toBe(first + 1);
+
+    const records = new WriteAheadLog(dir).readFrom();
+    expect(records.map(r => r.type)).toEqual([WALRecordType.BEGIN, WALRecordType.INSERT]);
+    expect(records[1].data).toEqual({ v: 1 });
+  });
+
+  test('unflushed records are not durable', () => {
+    const wal = new WriteAheadLog(dir);
+    wal.append({ type: WALRecordType.BEGIN, txnId: 1 });
+
+    expect(new WriteAheadLog(dir).readFrom()).toHaveLength(0);
+  });
+
+  test('discards a torn tail and keeps appending after it', () => {
+    const wal = new WriteAheadLog(dir);
+    wal.append({ type: WALRecordType.COMMIT, txnId: 1 });
+    wal.flush();
+
+    const [segment] = fs.readdirSync(dir);
+    fs.appendFileSync(path.join(dir, segment), Buffer.from([0xff, 0x00, 0x00]));
+
+    const reopened = new WriteAheadLog(dir);
+    expect(reopened.getCurrentLSN()).toBe(1);
+    reopened.append({ type: WALRecordType.COMMIT, txnId: 2 });
+    reopened.flush();
+
+    expect(new WriteAheadLog(dir).readFrom().map(r => r.txnId)).toEqual([1, 2]);
+  });
+
+  test('stops at a record whose checksum does not match', () => {
+    const wal = new WriteAheadLog(dir);
+    wal.append({ type: WALRecordType.COMMIT, txnId: 1 });
+    wal.append({ type: WALRecordType.COMMIT, txnId: 2 });
+    wal.flush();
+
+    const file = path.join(dir, fs.readdirSync(dir)[0]);
+    const buf = fs.readFileSync(file);
+    buf[buf.length - 2] ^= 0xff; // corrupt the second record's payload
+    fs.writeFileSync(file, buf);
+
+    expect(new WriteAheadLog(dir).readFrom().map(r => r.txnId)).toEqual([1]);
+  });
+
+  test('rotates segments once the size threshold is reached', () => {
+    const wal = new WriteAheadLog(dir, { segmentSizeBytes: 1 });
+    wal.append({ type: WALRecordType.COMMIT, txnId: 1 });
+    wal.flush();
+    wal.append({ type: WALRecordType.COMMIT, txnId: 2 });
+    wal.flush();
+
+    expect(fs.readdirSync(dir)).toHaveLength(2);
+    expect(wal.readFrom(2).map(r => r.txnId)).toEqual([2]);
+  });
+
+  test('a batch whose fsync fails is dropped, not written by the next flush', () => {
+    const wal = new WriteAheadLog(dir);
+    wal.append({ type: WALRecordType.COMMIT, txnId: 1 });
+    wal.flush();
+
+    const fsync = jest.spyOn(fs, 'fsyncSync').mockImplementationOnce(() => {
+      throw new Error('EIO: i/o error, fsync');
+    });
+    wal.append({ type: WALRecordType.COMMIT, txnId: 2 });
+    expect(() => wal.flush()).toThrow('EIO');
+    fsync.mockRestore();
+    expect(wal.getBufferedBytes()).toBe(0);
+
+    wal.append({ type: WALRecordType.COMMIT, txnId: 3 });
+    wal.flush();
+    expect(new WriteAheadLog(dir).readFrom().map(r => r.txnId)).toEqual([1, 3]);
+  });
+});
+
+describe('DatabaseService - Crash Recovery', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-db-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('committed transaction survives restart', () => {
+    const db = new DatabaseService({ dataDir });
+    const t1 = db.begin();
+    db.insert(t1, 'user_1', { id: 1, name: 'Alice', age: 25 });
+    db.commit(t1);
+
+    // Simulated crash: the first instance is abandoned without close()
+    const db2 = new DatabaseService({ dataDir });
+    const t2 = db2.begin();
+    expect(db2.select(t2)).toEqual([{ key: 'user_1', id: 1, name: 'Alice', age: 25 }]);
+  });
+
+  test('uncommitted transaction is lost after restart', () => {
+    const db = new DatabaseService({ dataDir });
+    const t1 = db.begin();
+    db.insert(t1, 'user_1', { id: 1, name: 'Alice', age: 25 });
+
+    const db2 = new DatabaseService({ dataDir });
+    const t2 = db2.begin();
+    expect(db2.select(t2)).toHaveLength(0);
+  });
+
+  test('replays updates and deletes in commit order', () => {
+    const db = new DatabaseService({ dataDir });
+    const t1 = db.begin();
+    db.insert(t1, 'user_1', { id: 1, name: 'Alice', age: 25 });
+    db.insert(t1, 'user_2', { id: 2, name: 'Bob', age: 30 });
+    db.commit(t1);
+
+    const t2 = db.begin();
+    db.update(t2, 'user_1', { age: 26 });
+    db.delete(t2, 'user_2');
+    db.commit(t2);
+
+    const db2 = new DatabaseService({ dataDir });
+    const t3 = db2.begin();
+    expect(db2.select(t3)).toEqual([{ key: 'user_1', id: 1, name: 'Alice', age: 26 }]);
+  });
+
+  test('an ABORT after a COMMIT is final', () => {
+    const wal = new WriteAheadLog(path.join(dataDir, 'wal'));
+    wal.append({ type: WALRecordType.BEGIN, txnId: 1 });
+    wal.append({ type: WALRecordType.INSERT, txnId: 1, key: 'user_1', data: { id: 1 } });
+    wal.append({ type: WALRecordType.COMMIT, txnId: 1 });
+    wal.append({ type: WALRecordType.ABORT, txnId: 1 });
+    wal.close();
+
+    const db = new DatabaseService({ dataDir });
+    expect(db.select(db.begin())).toHaveLength(0);
+  });
+
+  test('a commit whose flush fails aborts, releases its locks and stays lost after restart', async () => {
+    const active = async () => (await dbMetrics.activeTransactions.get()).values[0].value;
+    const db = new DatabaseService({ dataDir });
+    const t1 = db.begin();
+    db.insert(t1, 'user_1', { id: 1 });
+    db.commit(t1);
+
+    const before = await active();
+    const t2 = db.begin();
+    await db.selectForUpdate(t2, ['user_1']);
+    db.update(t2, 'user_1', { id: 2 });
+
+    // The COMMIT stays on disk: only the flushed ABORT keeps it from replaying
+    const fsync = jest.spyOn(fs, 'fsyncSync').mockImplementationOnce(() => {
+      throw new Error('EIO: i/o error, fsync');
+    });
+    const truncate = jest.spyOn(fs, 'ftruncateSync').mockImplementationOnce(() => {
+      throw new Error('EIO: i/o error, ftruncate');
+    });
+    expect(() => db.commit(t2)).toThrow('EIO');
+    fsync.mockRestore();
+    truncate.mockRestore();
+
+    expect(t2.state).toBe(TransactionState.ABORTED);
+    expect(db.getLocks()).toEqual([]);
+    expect(await active()).toBe(before);
+    expect(db.select(db.begin())).toEqual([{ key: 'user_1', id: 1 }]);
+
+    const db2 = new DatabaseService({ dataDir });
+    expect(db2.select(db2.begin())).toEqual([{ key: 'user_1', id: 1 }]);
+  });
+
+  test('restores the transaction id counter', () => {
+    const db = new DatabaseService({ dataDir });
+    const t1 = db.begin();
+    db.insert(t1, 'user_1', { id: 1 });
+    db.commit(t1);
+    db.close();
+
+    const db2 = new DatabaseService({ dataDir });
+    expect(db2.begin().id).toBeGreaterThan(t1.id);
+  });
+});
+
+describe('DatabaseService - Group Commit', () => {
+  let dataDir: string;
+
+  beforeEach(() => {
+    dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'pg-core-gc-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  test('concurrent committers share one fsync and become durable together', async () => {
+    const db = new DatabaseService({ dataDir, groupCommitWindowMs: 20 });
+    const flushSpy = jest.spyOn(WriteAheadLog.prototype, 'flush');
+
+    const txns = [1, 2, 3].map(i => {
+      const txn = db.begin();
+      db.insert(txn, `user_${i}`, { id: i });
+      return txn;
+    });
+
+    const pending = txns.map(txn => db.commitAsync(txn));
+
+    // Nothing is visible until the shared fsync completes
+    expect(db.select(db.begin())).toHaveLength(0);
+
+    await Promise.all(pending);
+    expect(flushSpy).toHaveBeenCalledTimes(1);
+    flushSpy.mockRestore();
+
+    expect(db.select(db.begin())).toHaveLength(3);
+
+    const db2 = new DatabaseService({ dataDir });
+    expect(db2.select(db2.begin())).toHaveLength(3);
+  });
+
+  test('flushes early once the byte threshold is reached', async () => {
+    const db = new DatabaseService({ dataDir, groupCommitWindowMs: 60_000, groupCommitMaxBytes: 1 });
+    const txn = db.begin();
+    db.insert(txn, 'user_1', { id: 1 });
+
+    await db.commitAsync(txn);
+
+    expect(db.select(db.begin())).toHaveLength(1);
+  });
+
+  test('rejects a second committer of a key already queued in the group', async () => {
+    const db = new DatabaseService({ dataDir, groupCommitWindowMs: 20 });
+    const setup = db.begin();
+    db.insert(setup, 'user_1', { id: 0 });
+    db.commit(setup);
+
+    const t1 = db.begin();
+    const t2 = db.begin();
+    db.update(t1, 'user_1', { id: 1 });
+    db.update(t2, 'user_1', { id: 2 });
+
+    const first = db.commitAsync(t1);
+    await expect(db.commitAsync(t2)).rejects.toThrow(/Write-write conflict/);
+    await first;
+
+    expect(db.select(db.begin())).toEqual([{ key: 'user_1', id: 1 }]);
+  });
+
+  test('a group whose fsync fails is rolled back and stays lost after restart', async () => {
+    const db = new DatabaseService({ dataDir, groupCommitWindowMs: 20 });
+    const t1 = db.begin();
+    db.insert(t1, 'user_1', { id: 1 });
+
+    const fsync = jest.spyOn(fs, 'fsyncSync').mockImplementationOnce(() => {
+      throw new Error('EIO: i/o error, fsync');
+    });
+    await expect(db.commitAsync(t1)).rejects.toThrow('EIO');
+    fsync.mockRestore();
+    expect(t1.state).toBe(TransactionState.ABORTED);
+
+    const t2 = db.begin();
+    db.insert(t2, 'user_2', { id: 2 });
+    await db.commitAsync(t2);
+
+    const db2 = new DatabaseService({ dataDir });
+    expect(db2.select(db2.begin())).toEqual([{ key: 'user_2', id: 2 }]);
+  });
+
+  test('synchronous commit drains the queued group first', async () => {
+    const db = new DatabaseService({ dataDir, groupCommitWindowMs: 60_000 });
+    const t1 = db.begin();
+    db.insert(t1, 'user_1', { id: 1 });
+    const queued = db.commitAsync(t1);
+
+    const t2 = db.begin();
+    db.insert(t2, 'user_2', { id: 2 });
+    db.commit(t2);
+
+    await queued;
+    expect(db.select(db.begin())).toHaveLength(2);
+  });
+});